@@ -12,9 +12,14 @@ import UserProfilePage from "@/pages/user-profile-page";
 import PostsPage from "@/pages/posts-page";
 import CreatePostPage from "@/pages/create-post-page";
 import PublicRoomsPage from "@/pages/public-rooms-page";
+import JoinRoomPage from "@/pages/join-room-page";
+import AdminPage from "@/pages/admin-page";
+import AdminReportsPage from "@/pages/admin-reports-page";
+import SessionsPage from "@/pages/sessions-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "@/hooks/use-auth";
 import { RoomInvitationsProvider } from "@/hooks/use-room-invitations";
+import { NotificationsProvider } from "@/hooks/use-notifications";
 import { useAIProfileSetup, resetProfileSetupState } from "@/hooks/use-ai-profile-setup";
 import { ProfileSetupDialog } from "@/components/ai/profile-setup-dialog";
 import { useAuth } from "@/hooks/use-auth";
@@ -105,10 +110,14 @@ function ProfileCheckRouter() {
         <ProtectedRoute path="/chat" component={HomePage} />
         <ProtectedRoute path="/public-rooms" component={PublicRoomsPage} />
         <ProtectedRoute path="/rooms/:id" component={ChatRoom} />
+        <ProtectedRoute path="/join/:code" component={JoinRoomPage} />
         <ProtectedRoute path="/create-room" component={CreateRoom} />
         <ProtectedRoute path="/profile" component={ProfilePage} />
+        <ProtectedRoute path="/sessions" component={SessionsPage} />
         <ProtectedRoute path="/users/:id" component={UserProfilePage} />
         <ProtectedRoute path="/create-post" component={CreatePostPage} />
+        <ProtectedRoute path="/admin" component={AdminPage} />
+        <ProtectedRoute path="/admin/reports" component={AdminReportsPage} />
         <Route path="/auth" component={AuthPage} />
         <Route component={NotFound} />
       </Switch>
@@ -121,8 +130,10 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <RoomInvitationsProvider>
-          <ProfileCheckRouter />
-          <Toaster />
+          <NotificationsProvider>
+            <ProfileCheckRouter />
+            <Toaster />
+          </NotificationsProvider>
         </RoomInvitationsProvider>
       </AuthProvider>
     </QueryClientProvider>
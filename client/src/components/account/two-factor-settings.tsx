@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TwoFactorStatus } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, Copy, Loader2 } from "lucide-react";
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+// Confirming a change to an enabled setup needs a current code
+type ConfirmAction = "disable" | "regenerate";
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function BackupCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Backup codes copied" });
+    } catch {
+      toast({ title: "Couldn't copy backup codes", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Save your backup codes</AlertTitle>
+        <AlertDescription>
+          Each code signs you in once if you lose access to your authenticator app.
+          They won't be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copyCodes}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button onClick={onDone}>I've saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const resetForm = () => {
+    setCode("");
+    setPassword("");
+    setConfirmAction(null);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Couldn't start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await res.json()) as { backupCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: onError("Couldn't enable two-factor authentication"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { code: code.trim(), password });
+    },
+    onSuccess: () => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: onError("Couldn't disable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/backup-codes", { code: code.trim() });
+      return (await res.json()) as { backupCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setBackupCodes(data.backupCodes);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    },
+    onError: onError("Couldn't generate new backup codes"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center my-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (backupCodes) {
+    return <BackupCodeList codes={backupCodes} onDone={() => setBackupCodes(null)} />;
+  }
+
+  if (!status?.enabled) {
+    if (!setup) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Protect your account with a code from an authenticator app, such as Google Authenticator
+            or 1Password, in addition to your password.
+          </p>
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? "Starting..." : "Set up two-factor authentication"}
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2 text-sm">
+          <p>
+            1. On this device,{" "}
+            <a href={setup.otpauthUri} className="text-primary hover:underline">
+              open the setup link
+            </a>{" "}
+            in your authenticator app, or add an account manually with this key:
+          </p>
+          <code className="block break-all rounded-md border bg-muted px-3 py-2 font-mono">
+            {setup.secret}
+          </code>
+          <p>2. Enter the 6-digit code the app shows to finish.</p>
+        </div>
+        <CodeInput value={code} onChange={setCode} />
+        <div className="flex gap-2">
+          <Button
+            onClick={() => enableMutation.mutate()}
+            disabled={code.length < 6 || enableMutation.isPending}
+          >
+            {enableMutation.isPending ? "Verifying..." : "Enable"}
+          </Button>
+          <Button variant="outline" onClick={() => setSetup(null)}>Cancel</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge>Enabled</Badge>
+        <span className="text-sm text-muted-foreground">
+          {status.backupCodesRemaining} backup {status.backupCodesRemaining === 1 ? "code" : "codes"} left
+        </span>
+      </div>
+
+      {confirmAction ? (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (confirmAction === "disable") {
+              disableMutation.mutate();
+            } else {
+              regenerateMutation.mutate();
+            }
+          }}
+        >
+          {confirmAction === "disable" && (
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Password</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Authenticator or backup code</Label>
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              variant={confirmAction === "disable" ? "destructive" : "default"}
+              disabled={
+                !code.trim() ||
+                (confirmAction === "disable" && !password) ||
+                disableMutation.isPending ||
+                regenerateMutation.isPending
+              }
+            >
+              {confirmAction === "disable" ? "Disable" : "Generate new codes"}
+            </Button>
+            <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setConfirmAction("regenerate")}>
+            New backup codes
+          </Button>
+          <Button variant="outline" onClick={() => setConfirmAction("disable")}>
+            Disable
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
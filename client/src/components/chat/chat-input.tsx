@@ -1,4 +1,4 @@
-import { useState, ChangeEvent } from 'react';
+import { useState, useRef, useEffect, ChangeEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ImagePlus, Send, Loader2, X } from 'lucide-react';
@@ -7,15 +7,65 @@ import { apiRequest } from '@/lib/queryClient';
 
 interface ChatInputProps {
   onSendMessage: (content: string, imageUrl?: string) => boolean;
+  onTyping?: (isTyping: boolean) => void;
   disabled?: boolean;
+  placeholder?: string;
 }
 
-export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
+// How often to re-announce typing while the user keeps typing, and how long
+// after the last keystroke the user is considered to have stopped
+const TYPING_REPEAT_MS = 2000;
+const TYPING_IDLE_MS = 3000;
+
+export function ChatInput({ onSendMessage, onTyping, disabled = false, placeholder = 'Type your message...' }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const lastTypingSentAt = useRef(0);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const { toast } = useToast();
 
+  const stopTyping = () => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+    }
+    if (lastTypingSentAt.current) {
+      lastTypingSentAt.current = 0;
+      onTyping?.(false);
+    }
+  };
+
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    if (!onTyping) return;
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingSentAt.current > TYPING_REPEAT_MS) {
+      lastTypingSentAt.current = now;
+      onTyping(true);
+    }
+
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+    }
+    typingIdleTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  // Clear the idle timer if the input unmounts mid-typing
+  useEffect(() => {
+    return () => {
+      if (typingIdleTimer.current) {
+        clearTimeout(typingIdleTimer.current);
+      }
+    };
+  }, []);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -26,6 +76,7 @@ export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
     if (success) {
       setMessage('');
       setUploadedImage(null);
+      stopTyping();
     }
   };
 
@@ -118,8 +169,8 @@ export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
       <div className="flex gap-2">
         <Textarea
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type your message..."
+          onChange={(e) => handleMessageChange(e.target.value)}
+          placeholder={placeholder}
           className="resize-none"
           disabled={disabled}
         />
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { DirectConversationWithUser, RoomUnreadCount } from '@shared/schema';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { formatDistanceToNow } from 'date-fns';
+import { Link } from 'wouter';
+import { Loader2 } from 'lucide-react';
+
+export function DirectMessageList() {
+  const { data: conversations = [], isLoading } = useQuery<DirectConversationWithUser[]>({
+    queryKey: ['/api/direct-messages'],
+  });
+
+  const { data: unreadCounts = [] } = useQuery<RoomUnreadCount[]>({
+    queryKey: ['/api/rooms/unread'],
+    staleTime: 30000, // Refresh when coming back to the list after a while
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add friends to start a direct conversation with them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {conversations.map((conversation) => {
+        const unreadCount = unreadCounts.find(c => c.roomId === conversation.roomId)?.unreadCount ?? 0;
+
+        return (
+          <Link key={conversation.id} href={`/rooms/${conversation.roomId}`}>
+            <div className="flex items-center gap-3 rounded-md p-2 hover:bg-gray-50 cursor-pointer">
+              <Avatar className="h-8 w-8">
+                {conversation.otherUser.profilePicture && (
+                  <AvatarImage src={conversation.otherUser.profilePicture} alt={conversation.otherUser.username} />
+                )}
+                <AvatarFallback className="bg-gray-300">
+                  {conversation.otherUser.username.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className={`text-sm truncate ${unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+                  {conversation.otherUser.username}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {conversation.lastMessageAt
+                    ? formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })
+                    : 'No messages yet'}
+                </div>
+              </div>
+              {unreadCount > 0 && (
+                <Badge className="rounded-full">{unreadCount > 99 ? '99+' : unreadCount}</Badge>
+              )}
+            </div>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { RoomInviteLinkWithCreator } from '@shared/schema';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy, Link2, Loader2, Trash2 } from 'lucide-react';
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires', hours: null },
+  { value: '1', label: 'Expires in 1 hour', hours: 1 },
+  { value: '24', label: 'Expires in 1 day', hours: 24 },
+  { value: '168', label: 'Expires in 7 days', hours: 168 },
+];
+
+const MAX_USES_OPTIONS = [
+  { value: 'unlimited', label: 'No limit', maxUses: null },
+  { value: '1', label: '1 use', maxUses: 1 },
+  { value: '5', label: '5 uses', maxUses: 5 },
+  { value: '10', label: '10 uses', maxUses: 10 },
+  { value: '25', label: '25 uses', maxUses: 25 },
+  { value: '100', label: '100 uses', maxUses: 100 },
+];
+
+function inviteUrl(code: string) {
+  return `${window.location.origin}/join/${code}`;
+}
+
+function linkStatus(link: RoomInviteLinkWithCreator) {
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) {
+    return 'Expired';
+  }
+  if (link.maxUses !== null && link.useCount >= link.maxUses) {
+    return 'Used up';
+  }
+  return link.expiresAt
+    ? `Expires ${format(new Date(link.expiresAt), "MMM d 'at' h:mm a")}`
+    : 'Never expires';
+}
+
+interface InviteLinksDialogProps {
+  roomId: number;
+}
+
+export function InviteLinksDialog({ roomId }: InviteLinksDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [expiry, setExpiry] = useState('24');
+  const [maxUses, setMaxUses] = useState('unlimited');
+
+  const { data: links = [], isLoading } = useQuery<RoomInviteLinkWithCreator[]>({
+    queryKey: [`/api/rooms/${roomId}/invite-links`],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/rooms/${roomId}/invite-links`, {
+        expiresInHours: EXPIRY_OPTIONS.find(option => option.value === expiry)?.hours ?? null,
+        maxUses: MAX_USES_OPTIONS.find(option => option.value === maxUses)?.maxUses ?? null,
+      });
+      return await res.json() as RoomInviteLinkWithCreator;
+    },
+    onSuccess: (link) => {
+      queryClient.setQueryData<RoomInviteLinkWithCreator[]>(
+        [`/api/rooms/${roomId}/invite-links`],
+        (current) => [link, ...(current ?? [])]
+      );
+      copyLink(link.code);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to create invite link',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: number) => {
+      const res = await apiRequest('DELETE', `/api/rooms/${roomId}/invite-links/${linkId}`);
+      return await res.json();
+    },
+    onSuccess: (_, linkId) => {
+      queryClient.setQueryData<RoomInviteLinkWithCreator[]>(
+        [`/api/rooms/${roomId}/invite-links`],
+        (current) => current?.filter(link => link.id !== linkId)
+      );
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to revoke invite link',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const copyLink = (code: string) => {
+    navigator.clipboard.writeText(inviteUrl(code))
+      .then(() => toast({ title: 'Invite link copied' }))
+      .catch(() => toast({ title: 'Could not copy the link', variant: 'destructive' }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Link2 className="h-4 w-4 mr-1" />
+          Invite link
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite links</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can join this room until it expires, runs out of uses or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={maxUses} onValueChange={setMaxUses}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_USES_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create'}
+          </Button>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">No active invite links.</p>
+          ) : (
+            <ul className="divide-y">
+              {links.map(link => (
+                <li key={link.id} className="py-3 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Input readOnly value={inviteUrl(link.code)} className="h-8 text-xs" />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link.code)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-500"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {link.useCount}{link.maxUses !== null ? ` / ${link.maxUses}` : ''} {link.useCount === 1 && link.maxUses === null ? 'use' : 'uses'}
+                    {' · '}{linkStatus(link)}
+                    {' · '}Created by {link.createdBy.username}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { RoomJoinRequestWithUser } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Check, Loader2, X } from 'lucide-react';
+
+interface JoinRequestsListProps {
+  roomId: number;
+  enabled: boolean;
+}
+
+export function JoinRequestsList({ roomId, enabled }: JoinRequestsListProps) {
+  const { toast } = useToast();
+
+  const { data: requests = [], isLoading } = useQuery<RoomJoinRequestWithUser[]>({
+    queryKey: [`/api/rooms/${roomId}/join-requests`],
+    enabled,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, status }: { requestId: number; status: 'approved' | 'denied' }) => {
+      const res = await apiRequest('PATCH', `/api/rooms/${roomId}/join-requests/${requestId}`, { status });
+      return await res.json();
+    },
+    onSuccess: (_, { requestId, status }) => {
+      queryClient.setQueryData<RoomJoinRequestWithUser[]>(
+        [`/api/rooms/${roomId}/join-requests`],
+        (current) => current?.filter(request => request.id !== requestId)
+      );
+      if (status === 'approved') {
+        queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/presence`] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to review request',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No pending join requests.</p>;
+  }
+
+  return (
+    <ul className="divide-y max-h-80 overflow-y-auto">
+      {requests.map(request => (
+        <li key={request.id} className="py-2 flex items-center gap-3">
+          <Avatar className="h-8 w-8">
+            {request.user.profilePicture && (
+              <AvatarImage src={request.user.profilePicture} alt={request.user.username} />
+            )}
+            <AvatarFallback className="bg-gray-300">
+              {request.user.username.substring(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">{request.user.username}</p>
+            {request.message && (
+              <p className="text-xs text-gray-600 truncate">{request.message}</p>
+            )}
+            <p className="text-xs text-gray-400">
+              {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-green-600"
+            onClick={() => reviewMutation.mutate({ requestId: request.id, status: 'approved' })}
+            disabled={reviewMutation.isPending}
+            title="Approve"
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-500"
+            onClick={() => reviewMutation.mutate({ requestId: request.id, status: 'denied' })}
+            disabled={reviewMutation.isPending}
+            title="Deny"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,61 @@
+import { useQuery } from '@tanstack/react-query';
+import { MessageEdit } from '@shared/schema';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface MessageHistoryDialogProps {
+  messageId: number;
+  currentContent: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MessageHistoryDialog({ messageId, currentContent, open, onOpenChange }: MessageHistoryDialogProps) {
+  // Only fetch the revisions once the dialog is opened
+  const { data: edits = [], isLoading } = useQuery<MessageEdit[]>({
+    queryKey: [`/api/messages/${messageId}/edits`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this message, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          <div className="rounded-md border border-primary/30 bg-primary/5 p-3">
+            <div className="text-xs text-gray-500 mb-1">Current</div>
+            <div className="text-sm whitespace-pre-wrap">{currentContent}</div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : (
+            edits.map((edit) => (
+              <div key={edit.id} className="rounded-md border p-3">
+                <div className="text-xs text-gray-500 mb-1">
+                  Replaced {format(new Date(edit.editedAt), 'MMM d, h:mm a')}
+                </div>
+                <div className="text-sm whitespace-pre-wrap">{edit.previousContent}</div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
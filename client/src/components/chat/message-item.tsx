@@ -1,25 +1,137 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { MessageWithUser } from '@shared/schema';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { MessageHistoryDialog } from './message-history-dialog';
+import { MessageReactions } from './message-reactions';
+import { ReportDialog } from '@/components/moderation/report-dialog';
 import { format } from 'date-fns';
 import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Link } from 'wouter';
+import { Flag, MessageSquare, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
 
 interface MessageItemProps {
   message: MessageWithUser;
+  canModerate?: boolean;
+  onReply?: (message: MessageWithUser) => void;
 }
 
-export function MessageItem({ message }: MessageItemProps) {
+export function MessageItem({ message, canModerate = false, onReply }: MessageItemProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
   const isCurrentUser = user?.id === message.user.id;
-  
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
   // Format date
   const formattedTime = message.createdAt instanceof Date
     ? format(message.createdAt, 'h:mm a')
     : 'Unknown time';
-  
+
+  // The server broadcasts the result to the room, which updates the list
+  const editMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest('PATCH', `/api/messages/${message.id}`, { content });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/messages/${message.id}/edits`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to edit message',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/messages/${message.id}`);
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete message',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const content = draft.trim();
+    if (!content || content === message.content) {
+      setIsEditing(false);
+      return;
+    }
+    editMutation.mutate(content);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  const isDeleted = !!message.deletedAt;
+  // Held by automated moderation until an admin reviews it
+  const isHeld = !isDeleted && !!message.heldAt;
+  const canEdit = isCurrentUser && !isDeleted && !isHeld;
+  const canDelete = (isCurrentUser || canModerate) && !isDeleted;
+  const canReply = !!onReply && !isDeleted && !isHeld;
+  const canReport = !isCurrentUser && !isDeleted && !isHeld;
+  const replyCount = message.replyCount ?? 0;
+
+  // Announcements such as room setting changes sit in the middle of the timeline
+  if (message.isSystem) {
+    if (isDeleted) return null;
+
+    return (
+      <div className="flex justify-center mb-4">
+        <span className="rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-500">
+          {message.content} · {formattedTime}
+        </span>
+      </div>
+    );
+  }
+
   return (
-    <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-4`}>
+    <div className={`group flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-4`}>
       <div className={`flex ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'} max-w-[80%]`}>
         <Link href={`/users/${message.user.id}`}>
           <Avatar className="h-8 w-8 mt-1 cursor-pointer">
@@ -31,31 +143,169 @@ export function MessageItem({ message }: MessageItemProps) {
             </AvatarFallback>
           </Avatar>
         </Link>
-        
+
         <div className={`mx-2 ${isCurrentUser ? 'text-right' : 'text-left'}`}>
-          <Card className={`p-3 inline-block ${isCurrentUser ? 'bg-primary text-white' : 'bg-gray-100'}`}>
-            <div className="text-sm mb-1">
-              {message.content}
+          {isDeleted ? (
+            <Card className="p-3 inline-block bg-gray-50 border-dashed">
+              <div className="text-sm italic text-gray-400">This message was deleted</div>
+            </Card>
+          ) : isHeld ? (
+            <Card className="p-3 inline-block bg-gray-50 border-dashed">
+              <div className="text-sm italic text-gray-400">This message is hidden while a moderator reviews it</div>
+            </Card>
+          ) : isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                className="min-h-[60px] resize-none"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveEdit} disabled={editMutation.isPending}>
+                  {editMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
             </div>
-            
-            {message.imageUrl && (
-              <div className="mt-2">
-                <img 
-                  src={message.imageUrl} 
-                  alt="Shared image" 
-                  className="max-w-full rounded-md max-h-64 object-contain"
-                />
+          ) : (
+            <Card className={`p-3 inline-block ${isCurrentUser ? 'bg-primary text-white' : 'bg-gray-100'}`}>
+              <div className="text-sm mb-1">
+                {message.content}
               </div>
-            )}
-          </Card>
-          
-          <div className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+
+              {message.imageUrl && (
+                <div className="mt-2">
+                  <img
+                    src={message.imageUrl}
+                    alt="Shared image"
+                    className="max-w-full rounded-md max-h-64 object-contain"
+                  />
+                </div>
+              )}
+            </Card>
+          )}
+
+          <div className={`text-xs text-gray-500 mt-1 flex items-center gap-1 ${isCurrentUser ? 'justify-end' : ''}`}>
             <span>{message.user.username}</span>
             <span>•</span>
             <span>{formattedTime}</span>
+            {message.editedAt && !isDeleted && (
+              <>
+                <span>•</span>
+                <button
+                  type="button"
+                  className="hover:underline"
+                  onClick={() => setIsHistoryOpen(true)}
+                >
+                  edited
+                </button>
+              </>
+            )}
+            {(canReply || canEdit || canDelete || canReport) && !isEditing && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  >
+                    <MoreHorizontal className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align={isCurrentUser ? 'end' : 'start'}>
+                  {canReply && (
+                    <DropdownMenuItem onClick={() => onReply!(message)}>
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Reply in thread
+                    </DropdownMenuItem>
+                  )}
+                  {canEdit && (
+                    <DropdownMenuItem onClick={startEditing}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  {canDelete && (
+                    <DropdownMenuItem
+                      className="text-red-500 focus:text-red-500"
+                      onClick={() => setIsDeleteDialogOpen(true)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
+                  {canReport && (
+                    <DropdownMenuItem onClick={() => setIsReportOpen(true)}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Report
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
+
+          {!isDeleted && !isHeld && (
+            <MessageReactions message={message} align={isCurrentUser ? 'end' : 'start'} />
+          )}
+
+          {onReply && replyCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-medium text-primary hover:underline mt-1"
+              onClick={() => onReply(message)}
+            >
+              {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </button>
+          )}
         </div>
       </div>
+
+      {message.editedAt && !isDeleted && (
+        <MessageHistoryDialog
+          messageId={message.id}
+          currentContent={message.content}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
+      {canReport && (
+        <ReportDialog
+          entityType="message"
+          entityId={message.id}
+          open={isReportOpen}
+          onOpenChange={setIsReportOpen}
+        />
+      )}
+
+      {/* Delete Message Confirmation Dialog */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isCurrentUser
+                ? 'The message will be removed for everyone in the room.'
+                : `This will remove ${message.user.username}'s message for everyone in the room.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -1,21 +1,76 @@
-import { MessageWithUser } from '@shared/schema';
+import { MessageWithUser, RoomReadState } from '@shared/schema';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { MessageItem } from './message-item';
-import { useEffect, useRef } from 'react';
+import { useEffect, useLayoutEffect, useRef } from 'react';
 import { Loader2 } from 'lucide-react';
 
+// Start loading older messages this close to the top of the list
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
 interface MessageListProps {
   messages: MessageWithUser[];
   isLoading: boolean;
+  canModerate?: boolean;
+  hasOlderMessages?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  onReply?: (message: MessageWithUser) => void;
+  seenBy?: RoomReadState[];
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+export function MessageList({
+  messages,
+  isLoading,
+  canModerate = false,
+  hasOlderMessages = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  onReply,
+  seenBy = []
+}: MessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const previousScrollHeightRef = useRef(0);
+  const previousFirstIdRef = useRef<number>();
+  const previousLastIdRef = useRef<number>();
+
+  // Keep the view anchored when older messages are prepended, and scroll to
+  // the bottom when a new message arrives. Edits and deletes leave it alone.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const firstId = messages[0]?.id;
+    const lastId = messages[messages.length - 1]?.id;
+
+    if (container) {
+      if (previousLastIdRef.current === undefined && lastId !== undefined) {
+        messagesEndRef.current?.scrollIntoView();
+      } else if (lastId !== previousLastIdRef.current) {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      } else if (firstId !== previousFirstIdRef.current) {
+        container.scrollTop += container.scrollHeight - previousScrollHeightRef.current;
+      }
+      previousScrollHeightRef.current = container.scrollHeight;
+    }
+
+    previousFirstIdRef.current = firstId;
+    previousLastIdRef.current = lastId;
   }, [messages]);
-  
+
+  // Keep loading while the history is too short to scroll
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && hasOlderMessages && !isLoadingOlder && container.scrollHeight <= container.clientHeight) {
+      onLoadOlder?.();
+    }
+  }, [messages, hasOlderMessages, isLoadingOlder, onLoadOlder]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (container && hasOlderMessages && !isLoadingOlder && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      onLoadOlder?.();
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -23,7 +78,7 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
       </div>
     );
   }
-  
+
   if (messages.length === 0) {
     return (
       <div className="text-center py-10 text-gray-500">
@@ -31,12 +86,39 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
       </div>
     );
   }
-  
+
   return (
-    <div className="flex-1 overflow-y-auto p-4">
+    <div ref={containerRef} className="flex-1 overflow-y-auto p-4" onScroll={handleScroll}>
+      {isLoadingOlder && (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      )}
       {messages.map((message) => (
-        <MessageItem key={message.id} message={message} />
+        <MessageItem 
+          key={message.id} 
+          message={message} 
+          canModerate={canModerate} 
+          onReply={onReply} 
+        />
       ))}
+      {seenBy.length > 0 && (
+        <div className="flex items-center justify-end gap-1 -mt-2 mb-2 text-xs text-gray-400">
+          <span>Seen by</span>
+          <div className="flex -space-x-1">
+            {seenBy.map((reader) => (
+              <Avatar key={reader.id} className="h-4 w-4 border border-white" title={reader.username}>
+                {reader.profilePicture && (
+                  <AvatarImage src={reader.profilePicture} alt={reader.username} />
+                )}
+                <AvatarFallback className="text-[8px] bg-gray-300">
+                  {reader.username.substring(0, 1).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            ))}
+          </div>
+        </div>
+      )}
       <div ref={messagesEndRef} />
     </div>
   );
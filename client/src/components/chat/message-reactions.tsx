@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { MessageWithUser } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { SmilePlus } from 'lucide-react';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉', '🔥', '👀'];
+
+interface MessageReactionsProps {
+  message: MessageWithUser;
+  align?: 'start' | 'end';
+}
+
+export function MessageReactions({ message, align = 'start' }: MessageReactionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const reactions = message.reactions ?? [];
+
+  // Counts are updated from the room's WebSocket once the server confirms
+  const toggleReactionMutation = useMutation({
+    mutationFn: async ({ emoji, remove }: { emoji: string; remove: boolean }) => {
+      const res = remove
+        ? await apiRequest('DELETE', `/api/messages/${message.id}/reactions/${encodeURIComponent(emoji)}`)
+        : await apiRequest('POST', `/api/messages/${message.id}/reactions`, { emoji });
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update reaction',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const hasReacted = (emoji: string) =>
+    !!user && !!reactions.find(r => r.emoji === emoji)?.userIds.includes(user.id);
+
+  const toggleReaction = (emoji: string) => {
+    toggleReactionMutation.mutate({ emoji, remove: hasReacted(emoji) });
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 ${align === 'end' ? 'justify-end' : ''}`}>
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          onClick={() => toggleReaction(reaction.emoji)}
+          className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+            hasReacted(reaction.emoji)
+              ? 'border-primary bg-primary/10 text-primary'
+              : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-6 w-6 text-gray-400 ${
+              reactions.length === 0 ? 'opacity-0 group-hover:opacity-100 focus:opacity-100' : ''
+            }`}
+          >
+            <SmilePlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align={align} className="w-auto p-1">
+          <div className="flex gap-1">
+            {QUICK_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => toggleReaction(emoji)}
+                className={`rounded-md p-1 text-lg hover:bg-gray-100 ${hasReacted(emoji) ? 'bg-primary/10' : ''}`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
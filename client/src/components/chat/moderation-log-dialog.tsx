@@ -0,0 +1,144 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { RoomBanWithUser, RoomModerationActionWithUsers } from '@shared/schema';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+const actionLabels: Record<string, string> = {
+  role_changed: 'changed the role of',
+  kicked: 'removed',
+  banned: 'banned',
+  unbanned: 'unbanned',
+  message_deleted: 'deleted a message from',
+  ownership_transferred: 'transferred ownership to',
+};
+
+interface ModerationLogDialogProps {
+  roomId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ModerationLogDialog({ roomId, open, onOpenChange }: ModerationLogDialogProps) {
+  const { toast } = useToast();
+
+  const { data: log = [], isLoading: isLogLoading } = useQuery<RoomModerationActionWithUsers[]>({
+    queryKey: [`/api/rooms/${roomId}/moderation-log`],
+    enabled: open,
+  });
+
+  const { data: bans = [], isLoading: isBansLoading } = useQuery<RoomBanWithUser[]>({
+    queryKey: [`/api/rooms/${roomId}/bans`],
+    enabled: open,
+  });
+
+  const unbanMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest('DELETE', `/api/rooms/${roomId}/bans/${userId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/bans`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/moderation-log`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to unban user',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Moderation</DialogTitle>
+          <DialogDescription>
+            Actions taken by this room's moderators, and the users currently banned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="log">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="log">Log</TabsTrigger>
+            <TabsTrigger value="bans">Bans ({bans.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="log" className="max-h-80 overflow-y-auto">
+            {isLogLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : log.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">No moderation actions yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {log.map((entry) => (
+                  <li key={entry.id} className="py-2">
+                    <p className="text-sm">
+                      <span className="font-medium">{entry.actor.username}</span>{' '}
+                      {actionLabels[entry.action] || entry.action}{' '}
+                      <span className="font-medium">{entry.targetUser?.username || 'a deleted user'}</span>
+                    </p>
+                    {entry.details && (
+                      <p className="text-xs text-gray-600">{entry.details}</p>
+                    )}
+                    <p className="text-xs text-gray-400">
+                      {format(new Date(entry.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="bans" className="max-h-80 overflow-y-auto">
+            {isBansLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : bans.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">Nobody is banned from this room.</p>
+            ) : (
+              <ul className="divide-y">
+                {bans.map((ban) => (
+                  <li key={ban.id} className="py-2 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{ban.user.username}</p>
+                      {ban.reason && (
+                        <p className="text-xs text-gray-600 truncate">{ban.reason}</p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        Banned {format(new Date(ban.createdAt), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unbanMutation.mutate(ban.userId)}
+                      disabled={unbanMutation.isPending}
+                    >
+                      Unban
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
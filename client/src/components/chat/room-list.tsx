@@ -1,4 +1,5 @@
-import { ChatRoom } from '@shared/schema';
+import { useQuery } from '@tanstack/react-query';
+import { ChatRoom, RoomUnreadCount } from '@shared/schema';
 import { 
   Card, 
   CardHeader, 
@@ -9,6 +10,7 @@ import {
 import { format } from 'date-fns';
 import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { PlusCircle, Loader2 } from 'lucide-react';
 
 interface RoomListProps {
@@ -17,6 +19,14 @@ interface RoomListProps {
 }
 
 export function RoomList({ rooms, isLoading }: RoomListProps) {
+  const { data: unreadCounts = [] } = useQuery<RoomUnreadCount[]>({
+    queryKey: ['/api/rooms/unread'],
+    staleTime: 30000, // Refresh when coming back to the list after a while
+  });
+  
+  const getUnreadCount = (roomId: number) =>
+    unreadCounts.find(c => c.roomId === roomId)?.unreadCount ?? 0;
+  
   if (isLoading) {
     return (
       <div className="flex justify-center py-10">
@@ -46,10 +56,15 @@ export function RoomList({ rooms, isLoading }: RoomListProps) {
       {rooms.map((room) => (
         <Card key={room.id} className="hover:shadow-md transition-shadow">
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">
+            <CardTitle className="text-lg flex items-center justify-between gap-2">
               <Link href={`/rooms/${room.id}`}>
                 <span className="text-primary hover:underline cursor-pointer">{room.name}</span>
               </Link>
+              {getUnreadCount(room.id) > 0 && (
+                <Badge className="rounded-full">
+                  {getUnreadCount(room.id) > 99 ? '99+' : getUnreadCount(room.id)} new
+                </Badge>
+              )}
             </CardTitle>
             <CardDescription>
               Created {room.createdAt instanceof Date
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { PresenceStatus, RoomParticipantWithPresence, RoomRole, roomRoleRank } from '@shared/schema';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ModerationLogDialog } from './moderation-log-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2, MoreVertical, ScrollText, Users } from 'lucide-react';
+import { Link } from 'wouter';
+
+interface RoomMembersProps {
+  roomId: number;
+  currentRole?: RoomRole;
+}
+
+const statusStyles: Record<PresenceStatus, { dot: string; label: string }> = {
+  online: { dot: 'bg-green-500', label: 'Online' },
+  away: { dot: 'bg-yellow-400', label: 'Away' },
+  offline: { dot: 'bg-gray-300', label: 'Offline' },
+};
+
+const roleLabels: Record<RoomRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
+type PendingRemoval = { member: RoomParticipantWithPresence; ban: boolean };
+
+export function RoomMembers({ roomId, currentRole }: RoomMembersProps) {
+  const { toast } = useToast();
+  const [pendingRemoval, setPendingRemoval] = useState<PendingRemoval | null>(null);
+  const [banReason, setBanReason] = useState('');
+  const [isLogOpen, setIsLogOpen] = useState(false);
+
+  // Live updates arrive as presence_update frames through useWebSocket
+  const { data: members = [], isLoading } = useQuery<RoomParticipantWithPresence[]>({
+    queryKey: [`/api/rooms/${roomId}/presence`],
+  });
+
+  const onlineCount = members.filter(m => m.status === 'online').length;
+  const myRank = currentRole ? roomRoleRank[currentRole] : -1;
+  const canModerate = myRank >= roomRoleRank.moderator;
+
+  // The roster itself is updated by the room's WebSocket
+  const onModerationError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update member',
+      variant: 'destructive',
+    });
+  };
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: RoomRole }) => {
+      const res = await apiRequest('PATCH', `/api/rooms/${roomId}/members/${userId}/role`, { role });
+      return await res.json();
+    },
+    onError: onModerationError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async ({ member, ban }: PendingRemoval) => {
+      const res = ban
+        ? await apiRequest('POST', `/api/rooms/${roomId}/bans`, { userId: member.id, reason: banReason })
+        : await apiRequest('POST', `/api/rooms/${roomId}/members/${member.id}/kick`);
+      return await res.json();
+    },
+    onSuccess: (_, { member, ban }) => {
+      toast({
+        title: ban ? 'User banned' : 'Member removed',
+        description: `${member.username} ${ban ? 'was banned from' : 'was removed from'} the room`,
+      });
+      setPendingRemoval(null);
+      setBanReason('');
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/bans`] });
+    },
+    onError: onModerationError,
+  });
+
+  // Roles that can be given to a member ranked below the current user
+  const assignableRoles = (['admin', 'moderator', 'member'] as RoomRole[])
+    .filter(role => roomRoleRank[role] < myRank);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members
+        </h3>
+        {canModerate && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsLogOpen(true)} title="Moderation">
+            <ScrollText className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        {onlineCount} of {members.length} online
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {members.map(member => {
+            const canActOn = canModerate && roomRoleRank[member.role] < myRank;
+
+            return (
+              <li key={member.id} className="flex items-center gap-3">
+                <div className="relative">
+                  <Avatar className="h-8 w-8">
+                    {member.profilePicture && (
+                      <AvatarImage src={member.profilePicture} alt={member.username} />
+                    )}
+                    <AvatarFallback className="bg-gray-300">
+                      {member.username.substring(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span
+                    className={`absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full border-2 border-white ${statusStyles[member.status].dot}`}
+                    title={statusStyles[member.status].label}
+                  />
+                </div>
+                <div className="min-w-0">
+                  <Link href={`/users/${member.id}`}>
+                    <span className="text-sm cursor-pointer hover:underline">{member.username}</span>
+                  </Link>
+                  {member.role !== 'member' && (
+                    <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-[10px]">
+                      {roleLabels[member.role]}
+                    </Badge>
+                  )}
+                </div>
+                <span className="ml-auto text-xs text-gray-400">
+                  {statusStyles[member.status].label}
+                </span>
+                {canActOn && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-6 w-6">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {myRank >= roomRoleRank.admin && assignableRoles
+                        .filter(role => role !== member.role)
+                        .map(role => (
+                          <DropdownMenuItem
+                            key={role}
+                            onClick={() => changeRoleMutation.mutate({ userId: member.id, role })}
+                          >
+                            {role === 'member' ? 'Remove role' : `Make ${roleLabels[role].toLowerCase()}`}
+                          </DropdownMenuItem>
+                        ))}
+                      {myRank >= roomRoleRank.admin && <DropdownMenuSeparator />}
+                      <DropdownMenuItem onClick={() => setPendingRemoval({ member, ban: false })}>
+                        Remove from room
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-red-600 focus:text-red-600"
+                        onClick={() => setPendingRemoval({ member, ban: true })}
+                      >
+                        Ban from room
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <AlertDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingRemoval(null);
+            setBanReason('');
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRemoval?.ban ? 'Ban' : 'Remove'} {pendingRemoval?.member.username}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoval?.ban
+                ? "They will be removed from the room and won't be able to rejoin or be invited back until unbanned."
+                : 'They will be removed from the room but can rejoin if it is public or they are invited again.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingRemoval?.ban && (
+            <Input
+              value={banReason}
+              onChange={(e) => setBanReason(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={500}
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingRemoval) removeMutation.mutate(pendingRemoval);
+              }}
+              disabled={removeMutation.isPending}
+            >
+              {removeMutation.isPending ? 'Working...' : pendingRemoval?.ban ? 'Ban' : 'Remove'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {canModerate && (
+        <ModerationLogDialog roomId={roomId} open={isLogOpen} onOpenChange={setIsLogOpen} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ChatRoom, RoomJoinPolicy, RoomParticipantWithPresence, insertChatRoomSchema, roomJoinPolicies } from '@shared/schema';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { JoinRequestsList } from './join-requests-list';
+import { Settings } from 'lucide-react';
+
+const joinPolicyLabels: Record<RoomJoinPolicy, string> = {
+  open: 'Anyone can join',
+  request: 'Admins approve join requests',
+  invite_only: 'Invitation or invite link only',
+};
+
+const roomSettingsSchema = insertChatRoomSchema.pick({
+  name: true,
+  description: true,
+  category: true,
+  tags: true,
+}).extend({
+  name: z.string().trim().min(1, 'Room name is required').max(100, 'Room name must be less than 100 characters'),
+  description: z.string().max(200, 'Description must be less than 200 characters'),
+  isPublic: z.boolean(),
+  joinPolicy: z.enum(roomJoinPolicies),
+  category: z.string(),
+  tags: z.string(),
+}).refine((values) => !values.isPublic || values.category.trim().length > 0, {
+  message: 'Public rooms require a category',
+  path: ['category'],
+});
+
+type RoomSettingsValues = z.infer<typeof roomSettingsSchema>;
+
+interface RoomSettingsDialogProps {
+  room: ChatRoom;
+}
+
+export function RoomSettingsDialog({ room }: RoomSettingsDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [newOwnerId, setNewOwnerId] = useState<string>('');
+  const [isTransferConfirmOpen, setIsTransferConfirmOpen] = useState(false);
+  const isOwner = user?.id === room.creatorId;
+
+  const form = useForm<RoomSettingsValues>({
+    resolver: zodResolver(roomSettingsSchema),
+    defaultValues: {
+      name: room.name,
+      description: room.description || '',
+      isPublic: !!room.isPublic,
+      joinPolicy: room.joinPolicy as RoomJoinPolicy,
+      category: room.category || '',
+      tags: room.tags || '',
+    },
+  });
+
+  // Start from the current settings each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: room.name,
+        description: room.description || '',
+        isPublic: !!room.isPublic,
+        joinPolicy: room.joinPolicy as RoomJoinPolicy,
+        category: room.category || '',
+        tags: room.tags || '',
+      });
+      setNewOwnerId('');
+    }
+  }, [open, room, form]);
+
+  // Candidates for ownership come from the member roster
+  const { data: members = [] } = useQuery<RoomParticipantWithPresence[]>({
+    queryKey: [`/api/rooms/${room.id}/presence`],
+    enabled: open && isOwner,
+  });
+  const ownerCandidates = members.filter(member => member.id !== user?.id);
+  const newOwner = ownerCandidates.find(member => member.id.toString() === newOwnerId);
+
+  const onRoomUpdated = (updatedRoom: ChatRoom) => {
+    queryClient.setQueryData([`/api/rooms/${room.id}`], updatedRoom);
+    queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/public-rooms'] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: RoomSettingsValues) => {
+      const res = await apiRequest('PATCH', `/api/rooms/${room.id}`, values);
+      return await res.json() as ChatRoom;
+    },
+    onSuccess: (updatedRoom) => {
+      onRoomUpdated(updatedRoom);
+      toast({
+        title: 'Room updated',
+        description: 'The room settings have been saved.',
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update room',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest('POST', `/api/rooms/${room.id}/transfer`, { userId });
+      return await res.json() as ChatRoom;
+    },
+    onSuccess: (updatedRoom) => {
+      onRoomUpdated(updatedRoom);
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${room.id}/membership`] });
+      toast({
+        title: 'Ownership transferred',
+        description: `${newOwner?.username || 'The new owner'} now owns this room.`,
+      });
+      setIsTransferConfirmOpen(false);
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to transfer ownership',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const isPublic = form.watch('isPublic');
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Settings className="h-4 w-4 mr-1" />
+            Settings
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Room settings</DialogTitle>
+            <DialogDescription>
+              Changes are announced to everyone in the room.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="general">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="general">General</TabsTrigger>
+              <TabsTrigger value="requests">Join requests</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="general" className="space-y-4">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((values) => updateMutation.mutate(values))} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Room Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea className="resize-none" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {!room.isSelfChat && (
+                    <FormField
+                      control={form.control}
+                      name="isPublic"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-md border p-3">
+                          <div>
+                            <FormLabel>Public room</FormLabel>
+                            <FormDescription>Anyone can find and join public rooms</FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {isPublic && (
+                    <FormField
+                      control={form.control}
+                      name="joinPolicy"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Who can join</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {roomJoinPolicies.map(policy => (
+                                <SelectItem key={policy} value={policy}>{joinPolicyLabels[policy]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category{isPublic ? '' : ' (optional)'}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. study, sports, music" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tags (optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Comma-separated, e.g. hiking, weekends" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <DialogFooter>
+                    <Button type="submit" disabled={updateMutation.isPending}>
+                      {updateMutation.isPending ? 'Saving...' : 'Save changes'}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+
+              {isOwner && !room.isSelfChat && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Transfer ownership</h4>
+                    <p className="text-sm text-muted-foreground">
+                      The new owner gets full control of the room. You will stay on as an admin.
+                    </p>
+                    <div className="flex gap-2">
+                      <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Choose a member" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ownerCandidates.map(member => (
+                            <SelectItem key={member.id} value={member.id.toString()}>
+                              {member.username}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        disabled={!newOwner}
+                        onClick={() => setIsTransferConfirmOpen(true)}
+                      >
+                        Transfer
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="requests">
+              <JoinRequestsList roomId={room.id} enabled={open} />
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isTransferConfirmOpen} onOpenChange={setIsTransferConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership to {newOwner?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You won't be able to delete the room or take ownership back unless they transfer it to you.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (newOwner) transferMutation.mutate(newOwner.id);
+              }}
+              disabled={transferMutation.isPending}
+            >
+              {transferMutation.isPending ? 'Transferring...' : 'Transfer'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MessageThread } from '@shared/schema';
+import { MessageItem } from './message-item';
+import { ChatInput } from './chat-input';
+import { Button } from '@/components/ui/button';
+import { Loader2, X } from 'lucide-react';
+
+interface ThreadPanelProps {
+  messageId: number;
+  canModerate?: boolean;
+  disabled?: boolean;
+  onSendReply: (content: string, imageUrl?: string) => boolean;
+  onClose: () => void;
+}
+
+export function ThreadPanel({ messageId, canModerate = false, disabled = false, onSendReply, onClose }: ThreadPanelProps) {
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  // New replies are added to this cache by the room's WebSocket
+  const { data: thread, isLoading } = useQuery<MessageThread>({
+    queryKey: [`/api/messages/${messageId}/thread`],
+  });
+
+  const replyCount = thread?.replies.length ?? 0;
+
+  // Scroll to the newest reply
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replyCount]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border flex flex-col h-[calc(100vh-200px)]">
+      <div className="border-b p-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Thread</h3>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {isLoading || !thread ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <MessageItem message={thread.parent} canModerate={canModerate} />
+
+            <div className="flex items-center gap-2 my-3 text-xs text-gray-500">
+              <span>{replyCount} {replyCount === 1 ? 'reply' : 'replies'}</span>
+              <div className="flex-1 border-t" />
+            </div>
+
+            {thread.replies.map((reply) => (
+              <MessageItem key={reply.id} message={reply} canModerate={canModerate} />
+            ))}
+            <div ref={repliesEndRef} />
+          </>
+        )}
+      </div>
+
+      <ChatInput
+        onSendMessage={onSendReply}
+        disabled={disabled || !thread || !!thread.parent.deletedAt}
+        placeholder="Reply in thread..."
+      />
+    </div>
+  );
+}
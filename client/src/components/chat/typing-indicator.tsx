@@ -0,0 +1,25 @@
+interface TypingIndicatorProps {
+  typingUsers: { id: number; username: string }[];
+}
+
+export function TypingIndicator({ typingUsers }: TypingIndicatorProps) {
+  if (typingUsers.length === 0) {
+    return null;
+  }
+  
+  const names = typingUsers.map(u => u.username);
+  let label: string;
+  if (names.length === 1) {
+    label = `${names[0]} is typing…`;
+  } else if (names.length === 2) {
+    label = `${names[0]} and ${names[1]} are typing…`;
+  } else {
+    label = 'Several people are typing…';
+  }
+  
+  return (
+    <div className="px-4 py-1 text-xs text-gray-500 italic">
+      {label}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
-import { MessageSquare, User, FileText, Menu, Home, LogOut } from 'lucide-react';
+import { MessageSquare, User, FileText, Menu, Home, LogOut, Shield } from 'lucide-react';
 import { Link, useLocation } from 'wouter';
 import { NotificationBell } from '@/components/notifications/notification-bell';
+import { SearchCommand } from './search-command';
 import { useState, useEffect } from 'react';
 import { 
   Sheet, 
@@ -28,6 +29,9 @@ export function Header() {
     { href: "/chat", icon: <MessageSquare className="h-5 w-5 mr-3" />, label: "Tribal Room", active: location === "/chat" },
     { href: "/public-rooms", icon: <MessageSquare className="h-5 w-5 mr-3" />, label: "Tribal Grounds", active: location === "/public-rooms" },
     { href: "/profile", icon: <User className="h-5 w-5 mr-3" />, label: "Profile", active: location === "/profile" },
+    ...(user.isAdmin
+      ? [{ href: "/admin", icon: <Shield className="h-5 w-5 mr-3" />, label: "Admin", active: location.startsWith("/admin") }]
+      : []),
   ] : [];
 
   return (
@@ -46,6 +50,7 @@ export function Header() {
           <>
             {isMobileView ? (
               <div className="flex items-center gap-3">
+                <SearchCommand />
                 <NotificationBell />
                 <Sheet>
                   <SheetTrigger asChild>
@@ -86,6 +91,7 @@ export function Header() {
               </div>
             ) : (
               <div className="flex items-center gap-4">
+                <SearchCommand />
                 <NotificationBell />
                 <Link href="/chat">
                   <div className="flex items-center text-sm text-neutral-600 cursor-pointer hover:text-primary">
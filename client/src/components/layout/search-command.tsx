@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { SearchResults } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { FileText, Hash, Loader2, MessageCircle, MessageSquare, Search } from 'lucide-react';
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+
+function snippet(content: string, length = 80) {
+  return content.length > length ? `${content.substring(0, length)}...` : content;
+}
+
+export function SearchCommand() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  // Open with Cmd/Ctrl+K from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30000,
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setQuery('');
+    }
+  };
+
+  const goTo = (href: string) => {
+    handleOpenChange(false);
+    navigate(href);
+  };
+
+  const hasResults = !!results && (
+    results.messages.length > 0 ||
+    results.posts.length > 0 ||
+    results.comments.length > 0 ||
+    results.rooms.length > 0
+  );
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(true)}
+        title="Search (Ctrl+K)"
+      >
+        <Search className="h-5 w-5 text-neutral-600" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          {/* Results are ranked by the server, so skip cmdk's own filtering */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search messages, posts and rooms..."
+            />
+            <CommandList>
+              {debouncedQuery.length < MIN_QUERY_LENGTH ? (
+                <div className="py-6 text-center text-sm text-gray-500">
+                  Type at least {MIN_QUERY_LENGTH} characters to search
+                </div>
+              ) : isFetching && !hasResults ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              ) : (
+                <CommandEmpty>No results found.</CommandEmpty>
+              )}
+
+              {results && results.rooms.length > 0 && (
+                <CommandGroup heading="Rooms">
+                  {results.rooms.map((room) => (
+                    <CommandItem
+                      key={`room-${room.id}`}
+                      value={`room-${room.id}`}
+                      onSelect={() => goTo(room.canAccess ? `/rooms/${room.id}` : '/public-rooms')}
+                    >
+                      <Hash className="mr-2" />
+                      <div className="min-w-0">
+                        <div className="truncate">{room.name}</div>
+                        {room.description && (
+                          <div className="truncate text-xs text-gray-500">{room.description}</div>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {results && results.messages.length > 0 && (
+                <CommandGroup heading="Messages">
+                  {results.messages.map((message) => (
+                    <CommandItem
+                      key={`message-${message.id}`}
+                      value={`message-${message.id}`}
+                      onSelect={() => goTo(`/rooms/${message.roomId}`)}
+                    >
+                      <MessageSquare className="mr-2" />
+                      <div className="min-w-0">
+                        <div className="truncate">{snippet(message.content)}</div>
+                        <div className="truncate text-xs text-gray-500">
+                          {message.user.username} in {message.roomName}
+                        </div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {results && results.posts.length > 0 && (
+                <CommandGroup heading="Posts">
+                  {results.posts.map((post) => (
+                    <CommandItem
+                      key={`post-${post.id}`}
+                      value={`post-${post.id}`}
+                      onSelect={() => goTo('/')}
+                    >
+                      <FileText className="mr-2" />
+                      <div className="min-w-0">
+                        <div className="truncate">{snippet(post.content)}</div>
+                        <div className="truncate text-xs text-gray-500">{post.user.username}</div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {results && results.comments.length > 0 && (
+                <CommandGroup heading="Comments">
+                  {results.comments.map((comment) => (
+                    <CommandItem
+                      key={`comment-${comment.id}`}
+                      value={`comment-${comment.id}`}
+                      onSelect={() => goTo('/')}
+                    >
+                      <MessageCircle className="mr-2" />
+                      <div className="min-w-0">
+                        <div className="truncate">{snippet(comment.content)}</div>
+                        <div className="truncate text-xs text-gray-500">{comment.user.username}</div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
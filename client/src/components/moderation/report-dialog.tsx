@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ReportEntityType, ReportReason, reportReasons } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: 'Spam or scams',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  violence: 'Violence or threats',
+  self_harm: 'Self-harm or suicide',
+  sexual_content: 'Sexual content',
+  other: 'Something else',
+};
+
+interface ReportDialogProps {
+  entityType: ReportEntityType;
+  entityId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportDialog({ entityType, entityId, open, onOpenChange }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setDetails('');
+    }
+  }, [open]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/reports', {
+        entityType,
+        entityId,
+        reason,
+        details: details.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Report sent',
+        description: "Thanks for letting us know. We'll notify you once it has been reviewed.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to send report',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const subject = entityType === 'user' ? 'this user' : `this ${entityType}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {subject}</DialogTitle>
+          <DialogDescription>
+            Reports are reviewed by the site admins. The person you report won't know who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="space-y-1">
+          {reportReasons.map(option => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`report-reason-${option}`} />
+              <Label htmlFor={`report-reason-${option}`} className="font-normal">
+                {reportReasonLabels[option]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder="Anything else we should know? (optional)"
+          className="resize-none"
+          maxLength={1000}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+          >
+            {reportMutation.isPending ? 'Sending...' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
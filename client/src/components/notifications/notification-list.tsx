@@ -36,6 +36,7 @@ export function NotificationList({ notifications, isLoading }: NotificationListP
       case "follow":
         return <User className="h-4 w-4 text-blue-500" />;
       case "message":
+      case "thread_reply":
         return <MessageSquare className="h-4 w-4 text-green-500" />;
       case "like":
         return <Heart className="h-4 w-4 text-red-500" />;
@@ -47,8 +48,13 @@ export function NotificationList({ notifications, isLoading }: NotificationListP
   const handleNotificationClick = (notification: Notification) => {
     markAsRead(notification.id);
     
-    // Navigate based on notification type
-    if (notification.entityType === "message" && notification.entityId) {
+    // Navigate based on notification type. Declined requesters can't open
+    // the room, so they go back to browsing rooms instead.
+    if (notification.type === "join_request_denied") {
+      setLocation("/public-rooms");
+    } else if (notification.entityType === "message" && notification.entityId) {
+      setLocation(`/rooms/${notification.entityId}`);
+    } else if (notification.entityType === "room" && notification.entityId) {
       setLocation(`/rooms/${notification.entityId}`);
     } else if (notification.entityType === "user" && notification.entityId) {
       setLocation(`/users/${notification.entityId}`);
@@ -0,0 +1,83 @@
+import { UserBlockWithUser } from "@shared/schema";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { Link } from "wouter";
+
+interface BlockedUserListProps {
+  blocks: UserBlockWithUser[];
+  isLoading: boolean;
+  isPending: boolean;
+  onUnblock: (userId: number) => void;
+}
+
+export function BlockedUserList({
+  blocks,
+  isLoading,
+  isPending,
+  onUnblock,
+}: BlockedUserListProps) {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center my-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Blocked and Muted</h3>
+        <p className="text-sm text-muted-foreground">
+          Blocked users can't follow you, send you friend requests or invite you to rooms.
+          Muted users' posts and comments are hidden from you.
+        </p>
+      </div>
+
+      {blocks.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          You haven't blocked or muted anyone
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {blocks.map((block) => (
+            <Card key={block.id} className="p-4">
+              <div className="flex items-center gap-3">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage
+                    src={block.user.profilePicture || undefined}
+                    alt={block.user.username}
+                  />
+                  <AvatarFallback>
+                    {block.user.username.substring(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <Link href={`/users/${block.user.id}`}>
+                    <span className="font-medium hover:underline cursor-pointer">
+                      {block.user.username}
+                    </span>
+                  </Link>
+                  <Badge variant={block.type === "block" ? "destructive" : "secondary"} className="ml-2">
+                    {block.type === "block" ? "Blocked" : "Muted"}
+                  </Badge>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onUnblock(block.blockedId)}
+                  disabled={isPending}
+                >
+                  {block.type === "block" ? "Unblock" : "Unmute"}
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,20 +5,24 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { getQueryFn, apiRequest, queryClient, parseRateLimitError } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Accounts with two-factor enabled get a second step instead of a session
+export type LoginResult = SelectUser | { twoFactorRequired: true };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -36,6 +40,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) {
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: parseRateLimitError(error)?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -45,8 +73,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
-        description: error.message,
+        title: "Verification failed",
+        description: parseRateLimitError(error)?.message ?? error.message,
         variant: "destructive",
       });
     },
@@ -67,7 +95,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Registration failed",
-        description: error.message,
+        description: parseRateLimitError(error)?.message ?? error.message,
         variant: "destructive",
       });
     },
@@ -100,6 +128,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { UserBlockType, UserBlockWithUser } from "@shared/schema";
+
+// Blocking and muting hide people from the feed and comments
+function invalidateBlockedContent() {
+  queryClient.invalidateQueries({ queryKey: ["/api/blocks"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+}
+
+export function useBlocks() {
+  const { toast } = useToast();
+
+  const {
+    data: blocks = [],
+    isLoading,
+    error,
+  } = useQuery<UserBlockWithUser[], Error>({
+    queryKey: ["/api/blocks"],
+  });
+
+  // Block or mute a user
+  const blockMutation = useMutation({
+    mutationFn: async ({ userId, type }: { userId: number; type: UserBlockType }) => {
+      const res = await apiRequest("POST", "/api/blocks", { userId, type });
+      return await res.json();
+    },
+    onSuccess: (_, { type }) => {
+      invalidateBlockedContent();
+      if (type === "block") {
+        // Blocking also ends friendships, follows and pending invitations
+        queryClient.invalidateQueries({ queryKey: ["/api/friend-requests/received"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/friend-requests/sent"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/follows/following"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/follows/followers"] });
+      }
+
+      toast({
+        title: type === "block" ? "User blocked" : "User muted",
+        description: type === "block"
+          ? "You won't see each other's content or be able to interact"
+          : "You won't see their posts or comments anymore",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Unblock or unmute a user
+  const unblockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("DELETE", `/api/blocks/${userId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateBlockedContent();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getBlockType = (userId: number): UserBlockType | undefined =>
+    blocks.find(block => block.blockedId === userId)?.type as UserBlockType | undefined;
+
+  return {
+    blocks,
+    isLoading,
+    error,
+    getBlockType,
+    blockUser: blockMutation.mutate,
+    unblockUser: unblockMutation.mutate,
+    isPending: blockMutation.isPending || unblockMutation.isPending,
+  };
+}
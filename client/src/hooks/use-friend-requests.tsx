@@ -56,6 +56,8 @@ export function useFriendRequests() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/friend-requests/received"] });
+      // Accepting creates a direct conversation with the new friend
+      queryClient.invalidateQueries({ queryKey: ["/api/direct-messages"] });
       toast({
         title: "Friend request accepted",
         description: "You are now friends!",
@@ -1,11 +1,27 @@
-import { useState } from "react";
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Notification } from "@shared/schema";
+import {
+  ACCOUNT_SUSPENDED_CLOSE_CODE, SESSION_REVOKED_CLOSE_CODE, Notification, NotificationWithActor
+} from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { reportPageVisibility } from "@/lib/presence";
 
-export function useNotifications() {
+type NotificationsContextType = {
+  notifications: Notification[];
+  unreadCount: number;
+  isLoading: boolean;
+  error: Error | null;
+  notificationsOpen: boolean;
+  toggleNotifications: () => void;
+  markAsRead: (notificationId: number) => void;
+  markAllAsRead: () => void;
+};
+
+const NotificationsContext = createContext<NotificationsContextType | null>(null);
+
+export function NotificationsProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const { user } = useAuth();
   const [notificationsOpen, setNotificationsOpen] = useState(false);
@@ -15,7 +31,7 @@ export function useNotifications() {
     data: notifications = [],
     isLoading,
     error,
-  } = useQuery<Notification[]>({
+  } = useQuery<Notification[], Error>({
     queryKey: ["/api/notifications"],
     enabled: !!userId,
   });
@@ -26,6 +42,79 @@ export function useNotifications() {
     select: (data) => data.count,
   });
 
+  // Listen for notifications the server pushes to this user
+  useEffect(() => {
+    if (!userId) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const stopReportingVisibility = reportPageVisibility(ws);
+
+    ws.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type !== 'notification' || !data.notification) return;
+
+        const notification: NotificationWithActor = data.notification;
+
+        // Prepend the notification instead of refetching the whole list
+        queryClient.setQueryData<Notification[]>(["/api/notifications"], (previous = []) =>
+          previous.some((n) => n.id === notification.id)
+            ? previous
+            : [notification, ...previous]
+        );
+        queryClient.setQueryData<{count: number}>(["/api/notifications/count"], (previous) => ({
+          count: (previous?.count ?? 0) + 1,
+        }));
+
+        // New chat activity changes the room list's unread badges
+        if (notification.type === "message") {
+          queryClient.invalidateQueries({ queryKey: ["/api/rooms/unread"] });
+        }
+
+        // Join requests change the reviewer's queue and the requester's room list
+        if (notification.type === "join_request" && notification.entityId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/rooms/${notification.entityId}/join-requests`] });
+        } else if (notification.type === "join_request_approved" || notification.type === "join_request_denied") {
+          queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/public-rooms"] });
+        }
+
+        toast({
+          title: notification.actor?.username ?? "New notification",
+          description: notification.message,
+        });
+      } catch (e) {
+        console.error('Error parsing notification:', e);
+      }
+    };
+
+    // The server drops the connection when a site admin suspends the account;
+    // the server signs the session out on its next request
+    ws.onclose = (event) => {
+      if (event.code === ACCOUNT_SUSPENDED_CLOSE_CODE) {
+        toast({
+          title: "Account suspended",
+          description: "A site admin has suspended your account, so you've been signed out.",
+          variant: "destructive",
+        });
+      } else if (event.code === SESSION_REVOKED_CLOSE_CODE) {
+        toast({
+          title: "Signed out",
+          description: "This session was logged out from another device.",
+        });
+      } else {
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], null);
+    };
+
+    return () => {
+      stopReportingVisibility();
+      ws.close();
+    };
+  }, [userId, toast]);
+
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: number) => {
       const res = await apiRequest("PATCH", `/api/notifications/${notificationId}`);
@@ -66,14 +155,28 @@ export function useNotifications() {
     setNotificationsOpen(!notificationsOpen);
   };
 
-  return {
-    notifications,
-    unreadCount,
-    isLoading,
-    error,
-    notificationsOpen,
-    toggleNotifications,
-    markAsRead: markAsReadMutation.mutate,
-    markAllAsRead: markAllAsReadMutation.mutate,
-  };
-}
\ No newline at end of file
+  return (
+    <NotificationsContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        isLoading,
+        error,
+        notificationsOpen,
+        toggleNotifications,
+        markAsRead: markAsReadMutation.mutate,
+        markAllAsRead: () => markAllAsReadMutation.mutate(),
+      }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return context;
+}
@@ -11,6 +11,7 @@ export interface Post {
   imageUrl: string | null;
   visibility: 'public' | 'followers' | 'friends';
   autoDeleteAt: string | null;
+  heldAt: string | null;
   createdAt: string;
 }
 
@@ -19,6 +20,7 @@ export interface PostComment {
   content: string;
   userId: number;
   postId: number;
+  heldAt: string | null;
   createdAt: string;
   user: {
     id: number;
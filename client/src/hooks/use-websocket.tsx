@@ -1,22 +1,72 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/use-auth';
-import { MessageWithUser } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { 
+  ChatRoom, MessageThread, MessageWithUser, PresenceStatus, ReactionSummary, RoomParticipantWithPresence, RoomReadState, RoomRole 
+} from '@shared/schema';
 import { queryClient } from '@/lib/queryClient';
+import { reportPageVisibility } from '@/lib/presence';
 
 type WebSocketMessage = {
-  type: 'auth' | 'message' | 'new_message' | 'refresh_notifications' | 'error';
+  type: 'auth_ok' | 'join_room' | 'leave_room' | 'joined_room' | 'message' | 'new_message' 
+    | 'message_updated' | 'message_deleted' | 'reaction_added' | 'reaction_removed' | 'read_receipt'
+    | 'typing_start' | 'typing_stop' | 'typing' | 'presence' | 'presence_update'
+    | 'member_role_updated' | 'member_removed' | 'room_removed' | 'room_updated' | 'error';
+  user?: MessageWithUser['user'];
   roomId?: number;
+  room?: ChatRoom;
+  userId?: number;
+  username?: string;
+  isTyping?: boolean;
+  status?: PresenceStatus;
   content?: string;
   imageUrl?: string;
   message?: MessageWithUser;
+  messageId?: number;
+  parentMessageId?: number | null;
+  deletedAt?: string;
+  emoji?: string;
+  lastReadMessageId?: number;
+  role?: RoomRole;
+  reason?: 'kicked' | 'banned';
   error?: string;
+  // Seconds to wait, on rate_limited errors
+  retryAfter?: number;
 };
 
+// Apply a change to a thread if it has been loaded
+function updateThread(threadId: number, update: (thread: MessageThread) => MessageThread) {
+  queryClient.setQueryData<MessageThread>(
+    [`/api/messages/${threadId}/thread`],
+    (thread) => thread && update(thread)
+  );
+}
+
+// Add or remove one user's reaction from a message's aggregated reactions
+function applyReaction(reactions: ReactionSummary[] = [], emoji: string, userId: number, added: boolean) {
+  const existing = reactions.find(r => r.emoji === emoji);
+  
+  if (added) {
+    if (existing?.userIds.includes(userId)) return reactions;
+    return existing
+      ? reactions.map(r => r === existing ? { ...r, count: r.count + 1, userIds: [...r.userIds, userId] } : r)
+      : [...reactions, { emoji, count: 1, userIds: [userId] }];
+  }
+  
+  if (!existing?.userIds.includes(userId)) return reactions;
+  return reactions
+    .map(r => r === existing ? { ...r, count: r.count - 1, userIds: r.userIds.filter(id => id !== userId) } : r)
+    .filter(r => r.count > 0);
+}
+
 export function useWebSocket(roomId?: number) {
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const [connected, setConnected] = useState(false);
   const [messages, setMessages] = useState<MessageWithUser[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [typingUsers, setTypingUsers] = useState<{ id: number; username: string }[]>([]);
+  const [removedReason, setRemovedReason] = useState<'kicked' | 'banned' | null>(null);
+  const { toast } = useToast();
   const { user } = useAuth();
 
   // Initialize WebSocket connection
@@ -26,17 +76,12 @@ export function useWebSocket(roomId?: number) {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${protocol}//${window.location.host}/ws`;
     const ws = new WebSocket(wsUrl);
+    const stopReportingVisibility = reportPageVisibility(ws);
 
+    // The server authenticates the socket from the session cookie and
+    // confirms with an auth_ok frame, so there is nothing to send on open
     ws.onopen = () => {
-      setConnected(true);
       setError(null);
-      
-      // Send authentication message
-      ws.send(JSON.stringify({
-        type: 'auth',
-        userId: user.id,
-        username: user.username
-      }));
     };
 
     ws.onclose = () => {
@@ -52,12 +97,135 @@ export function useWebSocket(roomId?: number) {
       try {
         const data: WebSocketMessage = JSON.parse(event.data);
         
-        if (data.type === 'new_message' && data.message && data.roomId === roomId) {
-          setMessages(prev => [...prev, data.message!]);
-        } else if (data.type === 'refresh_notifications') {
-          // Refresh notifications
-          queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
-          queryClient.invalidateQueries({ queryKey: ['/api/notifications/count'] });
+        if (data.type === 'auth_ok') {
+          setConnected(true);
+          
+          // Subscribe to the room so the server delivers its messages
+          if (roomId) {
+            ws.send(JSON.stringify({ type: 'join_room', roomId }));
+          }
+        } else if (data.type === 'new_message' && data.message && data.roomId === roomId) {
+          const newMessage = data.message;
+          
+          if (newMessage.parentMessageId) {
+            // Replies go to their thread; the timeline only shows the count
+            const threadId = newMessage.parentMessageId;
+            setMessages(prev => prev.map(m => 
+              m.id === threadId ? { ...m, replyCount: (m.replyCount ?? 0) + 1 } : m
+            ));
+            updateThread(threadId, thread => 
+              thread.replies.some(r => r.id === newMessage.id)
+                ? thread
+                : {
+                    parent: { ...thread.parent, replyCount: (thread.parent.replyCount ?? 0) + 1 },
+                    replies: [...thread.replies, newMessage]
+                  }
+            );
+          } else {
+            setMessages(prev => [...prev, newMessage]);
+          }
+          
+          // A new message means its author has stopped typing
+          setTypingUsers(prev => prev.filter(u => u.id !== data.message!.userId));
+        } else if (data.type === 'message_updated' && data.message && data.roomId === roomId) {
+          // Merge the new content into the message, keeping its author info
+          const updated = data.message;
+          const applyUpdate = (m: MessageWithUser) => 
+            m.id === updated.id ? { ...m, ...updated, user: m.user, replyCount: m.replyCount } : m;
+          
+          setMessages(prev => prev.map(applyUpdate));
+          updateThread(updated.parentMessageId ?? updated.id, thread => ({
+            parent: applyUpdate(thread.parent),
+            replies: thread.replies.map(applyUpdate)
+          }));
+        } else if (data.type === 'message_deleted' && data.messageId && data.roomId === roomId) {
+          const deletedId = data.messageId;
+          const threadId = data.parentMessageId;
+          const applyDelete = (m: MessageWithUser) => m.id === deletedId
+            ? { ...m, content: '', imageUrl: null, deletedAt: new Date(data.deletedAt || Date.now()) }
+            : m;
+          
+          // Deleted replies no longer count towards their thread
+          setMessages(prev => prev.map(m => 
+            threadId && m.id === threadId 
+              ? { ...m, replyCount: Math.max((m.replyCount ?? 1) - 1, 0) } 
+              : applyDelete(m)
+          ));
+          updateThread(threadId ?? deletedId, thread => ({
+            parent: threadId 
+              ? { ...thread.parent, replyCount: Math.max((thread.parent.replyCount ?? 1) - 1, 0) }
+              : applyDelete(thread.parent),
+            replies: thread.replies.map(applyDelete)
+          }));
+        } else if ((data.type === 'reaction_added' || data.type === 'reaction_removed') 
+          && data.messageId && data.userId && data.emoji && data.roomId === roomId) {
+          const { messageId, userId, emoji } = data;
+          const added = data.type === 'reaction_added';
+          const applyToMessage = (m: MessageWithUser) => m.id === messageId
+            ? { ...m, reactions: applyReaction(m.reactions, emoji, userId, added) }
+            : m;
+          
+          setMessages(prev => prev.map(applyToMessage));
+          updateThread(data.parentMessageId ?? messageId, thread => ({
+            parent: applyToMessage(thread.parent),
+            replies: thread.replies.map(applyToMessage)
+          }));
+        } else if (data.type === 'typing' && data.roomId === roomId && data.userId && data.userId !== user.id) {
+          const typingUser = { id: data.userId, username: data.username || 'Someone' };
+          setTypingUsers(prev => {
+            const others = prev.filter(u => u.id !== typingUser.id);
+            return data.isTyping ? [...others, typingUser] : others;
+          });
+        } else if (data.type === 'presence_update' && data.roomId === roomId && data.userId && data.status) {
+          // Update the member's status in the cached roster
+          queryClient.setQueryData<RoomParticipantWithPresence[]>(
+            [`/api/rooms/${roomId}/presence`],
+            (roster) => roster?.map(member => 
+              member.id === data.userId ? { ...member, status: data.status! } : member
+            )
+          );
+        } else if (data.type === 'read_receipt' && data.roomId === roomId && data.userId && data.lastReadMessageId) {
+          // Move the participant's read pointer for "seen by" indicators
+          queryClient.setQueryData<RoomReadState[]>(
+            [`/api/rooms/${roomId}/read-receipts`],
+            (readStates) => readStates?.map(state => 
+              state.id === data.userId 
+                ? { ...state, lastReadMessageId: Math.max(state.lastReadMessageId ?? 0, data.lastReadMessageId!) } 
+                : state
+            )
+          );
+        } else if (data.type === 'member_role_updated' && data.roomId === roomId && data.userId && data.role) {
+          queryClient.setQueryData<RoomParticipantWithPresence[]>(
+            [`/api/rooms/${roomId}/presence`],
+            (roster) => roster?.map(member => 
+              member.id === data.userId ? { ...member, role: data.role! } : member
+            )
+          );
+          if (data.userId === user.id) {
+            queryClient.invalidateQueries({ queryKey: [`/api/rooms/${roomId}/membership`] });
+          }
+        } else if (data.type === 'member_removed' && data.roomId === roomId && data.userId) {
+          queryClient.setQueryData<RoomParticipantWithPresence[]>(
+            [`/api/rooms/${roomId}/presence`],
+            (roster) => roster?.filter(member => member.id !== data.userId)
+          );
+          queryClient.setQueryData<RoomReadState[]>(
+            [`/api/rooms/${roomId}/read-receipts`],
+            (readStates) => readStates?.filter(state => state.id !== data.userId)
+          );
+        } else if (data.type === 'room_updated' && data.roomId === roomId && data.room) {
+          queryClient.setQueryData([`/api/rooms/${roomId}`], data.room);
+          queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+        } else if (data.type === 'room_removed' && data.roomId === roomId && data.reason) {
+          // Sent only to the removed user; the server stops delivering the room's traffic
+          setRemovedReason(data.reason);
+        } else if (data.type === 'error' && data.error === 'rate_limited') {
+          // The message was dropped, so tell the sender rather than failing silently
+          toast({
+            title: 'Message not sent',
+            description: `You're sending messages too quickly. Try again in ${data.retryAfter ?? 'a few'} seconds.`,
+            variant: 'destructive',
+          });
         } else if (data.type === 'error') {
           setError(data.error || 'An error occurred');
         }
@@ -70,12 +238,18 @@ export function useWebSocket(roomId?: number) {
 
     // Clean up on unmount
     return () => {
+      stopReportingVisibility();
+      setTypingUsers([]);
+      setRemovedReason(null);
+      if (roomId && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'leave_room', roomId }));
+      }
       ws.close();
     };
   }, [user, roomId]);
 
   // Function to send chat message
-  const sendMessage = useCallback((content: string, imageUrl?: string) => {
+  const sendMessage = useCallback((content: string, imageUrl?: string, parentMessageId?: number) => {
     if (!socket || !connected || !roomId) {
       setError('Cannot send message: not connected');
       return false;
@@ -86,7 +260,8 @@ export function useWebSocket(roomId?: number) {
         type: 'message',
         roomId,
         content,
-        imageUrl
+        imageUrl,
+        parentMessageId
       }));
       return true;
     } catch (e) {
@@ -95,10 +270,23 @@ export function useWebSocket(roomId?: number) {
     }
   }, [socket, connected, roomId]);
 
+  // Function to tell the room the user started or stopped typing
+  const sendTyping = useCallback((isTyping: boolean) => {
+    if (!socket || !connected || !roomId) return;
+
+    socket.send(JSON.stringify({
+      type: isTyping ? 'typing_start' : 'typing_stop',
+      roomId
+    }));
+  }, [socket, connected, roomId]);
+
   return { 
     connected, 
     messages, 
     sendMessage, 
+    sendTyping,
+    typingUsers, 
+    removedReason,
     error, 
     setMessages 
   };
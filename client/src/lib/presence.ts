@@ -0,0 +1,25 @@
+// Report this tab as away while it is hidden so the server can derive
+// online/away presence from the user's open sockets
+export function reportPageVisibility(ws: WebSocket): () => void {
+  const sendStatus = () => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type: 'presence',
+        status: document.hidden ? 'away' : 'online'
+      }));
+    }
+  };
+
+  // Sockets start out online, so only report if the tab opened hidden
+  const handleOpen = () => {
+    if (document.hidden) sendStatus();
+  };
+
+  ws.addEventListener('open', handleOpen);
+  document.addEventListener('visibilitychange', sendStatus);
+
+  return () => {
+    ws.removeEventListener('open', handleOpen);
+    document.removeEventListener('visibilitychange', sendStatus);
+  };
+}
@@ -7,6 +7,26 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/**
+ * The message and wait in seconds from a structured 429 response, or null
+ * if the error is something else
+ */
+export function parseRateLimitError(error: Error): { message: string; retryAfter: number } | null {
+  const prefix = "429: ";
+  if (!error.message.startsWith(prefix)) {
+    return null;
+  }
+
+  try {
+    const body = JSON.parse(error.message.slice(prefix.length));
+    return typeof body.retryAfter === "number"
+      ? { message: String(body.message), retryAfter: body.retryAfter }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
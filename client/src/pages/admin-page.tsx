@@ -0,0 +1,353 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { AdminUserSummary, PlatformStats } from "@shared/schema";
+import { Header } from "@/components/layout/header";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Flag, Loader2, Search } from "lucide-react";
+
+// Suspension lengths offered in the console, in days ("indefinite" has no end date)
+const suspensionDurations = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "indefinite", label: "Until reinstated" },
+];
+
+function invalidateAdminUsers() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/users"),
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+}
+
+function StatCard({ title, value, detail }: { title: string; value?: number; detail?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value ?? "–"}</CardTitle>
+      </CardHeader>
+      {detail && (
+        <CardContent className="pt-0 text-xs text-muted-foreground">{detail}</CardContent>
+      )}
+    </Card>
+  );
+}
+
+function SuspendUserDialog({
+  user,
+  onOpenChange,
+}: {
+  user: AdminUserSummary | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [duration, setDuration] = useState("7");
+
+  useEffect(() => {
+    if (user) {
+      setReason("");
+      setDuration("7");
+    }
+  }, [user]);
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${user!.id}/suspend`, {
+        reason: reason.trim(),
+        durationDays: duration === "indefinite" ? null : Number(duration),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers();
+      toast({ title: `${user!.username} suspended` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to suspend user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Suspend {user?.username}</DialogTitle>
+          <DialogDescription>
+            They are signed out everywhere and can't log in until the suspension ends. The reason is shown to them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Textarea
+              id="suspension-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="resize-none"
+              maxLength={500}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Length</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {suspensionDurations.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => suspendMutation.mutate()}
+            disabled={!reason.trim() || suspendMutation.isPending}
+          >
+            {suspendMutation.isPending ? "Suspending..." : "Suspend"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function UserLookup() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [draft, setDraft] = useState("");
+  const [query, setQuery] = useState("");
+  const [suspendTarget, setSuspendTarget] = useState<AdminUserSummary | null>(null);
+
+  const { data: users = [], isLoading } = useQuery<AdminUserSummary[]>({
+    queryKey: [`/api/admin/users?q=${encodeURIComponent(query)}`],
+  });
+
+  const reinstateMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/reinstate`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateAdminUsers();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reinstate user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery(draft.trim());
+        }}
+      >
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Username, email or user ID"
+        />
+        <Button type="submit" variant="outline">
+          <Search className="h-4 w-4 mr-2" />
+          Look up
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center my-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : users.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">No users found</Card>
+      ) : (
+        <div className="space-y-3">
+          {users.map((account) => (
+            <Card key={account.id} className="p-4">
+              <div className="flex items-start gap-3">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={account.profilePicture || undefined} alt={account.username} />
+                  <AvatarFallback>{account.username.substring(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={`/users/${account.id}`}>
+                      <span className="font-medium hover:underline cursor-pointer">{account.username}</span>
+                    </Link>
+                    <span className="text-xs text-muted-foreground">#{account.id}</span>
+                    {account.isAdmin && <Badge>Admin</Badge>}
+                    {account.status !== "active" && (
+                      <Badge variant="destructive" className="capitalize">{account.status}</Badge>
+                    )}
+                    {account.openReportCount > 0 && (
+                      <Badge variant="outline">
+                        {account.openReportCount} open {account.openReportCount === 1 ? "report" : "reports"}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {account.email || "No email"}
+                    {account.email && !account.emailVerified && " (unverified)"}
+                    {" · "}joined {format(new Date(account.createdAt), "MMM d, yyyy")}
+                    {" · "}{account.postCount} posts, {account.messageCount} messages
+                  </div>
+                  {account.status === "suspended" && (
+                    <div className="text-sm">
+                      Suspended {account.suspendedUntil
+                        ? `until ${format(new Date(account.suspendedUntil), "MMM d, yyyy 'at' h:mm a")}`
+                        : "indefinitely"}
+                      {account.suspensionReason && `: ${account.suspensionReason}`}
+                    </div>
+                  )}
+                </div>
+                {account.status === "suspended" ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => reinstateMutation.mutate(account.id)}
+                    disabled={reinstateMutation.isPending}
+                  >
+                    Reinstate
+                  </Button>
+                ) : account.status === "active" && !account.isAdmin && account.id !== currentUser?.id && (
+                  <Button variant="outline" size="sm" onClick={() => setSuspendTarget(account)}>
+                    Suspend
+                  </Button>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <SuspendUserDialog
+        user={suspendTarget}
+        onOpenChange={(open) => !open && setSuspendTarget(null)}
+      />
+    </div>
+  );
+}
+
+function PlatformOverview() {
+  const { data: stats } = useQuery<PlatformStats>({
+    queryKey: ["/api/admin/stats"],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard
+          title="Users"
+          value={stats?.users.total}
+          detail={stats && `${stats.users.newThisWeek} new this week`}
+        />
+        <StatCard
+          title="Suspended"
+          value={stats?.users.suspended}
+          detail={stats && `${stats.users.active} active`}
+        />
+        <StatCard
+          title="Messages"
+          value={stats?.content.messages}
+          detail={stats && `${stats.content.messagesToday} in the last day`}
+        />
+        <StatCard
+          title="Posts"
+          value={stats?.content.posts}
+          detail={stats && `${stats.content.comments} comments`}
+        />
+        <StatCard
+          title="Rooms"
+          value={stats?.rooms.total}
+          detail={stats && `${stats.rooms.public} public`}
+        />
+        <StatCard
+          title="Held by moderation"
+          value={stats?.moderation.heldItems}
+        />
+      </div>
+
+      <Link href="/admin/reports">
+        <Card className="p-4 flex items-center justify-between cursor-pointer hover:bg-gray-50">
+          <div className="flex items-center gap-2">
+            <Flag className="h-4 w-4" />
+            <span className="font-medium">Reports</span>
+          </div>
+          <Badge variant={stats?.moderation.pendingReports ? "destructive" : "secondary"}>
+            {stats?.moderation.pendingReports ?? 0} pending
+          </Badge>
+        </Card>
+      </Link>
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const { user } = useAuth();
+
+  return (
+    <div>
+      <Header />
+      <main className="container mx-auto py-10 px-4 md:px-6">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <h1 className="text-3xl font-bold">Admin</h1>
+
+          {!user?.isAdmin ? (
+            <Card className="p-6 text-center text-muted-foreground">
+              Only site admins can use the admin console.
+            </Card>
+          ) : (
+            <>
+              <PlatformOverview />
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold">Users</h2>
+                <UserLookup />
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { ReportReason, ReportWithUsers } from "@shared/schema";
+import { Header } from "@/components/layout/header";
+import { reportReasonLabels } from "@/components/moderation/report-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+type ReportStatusFilter = "pending" | "closed";
+type ResolveAction = "dismiss" | "delete_content" | "suspend_user";
+
+const resolutionLabels: Record<string, string> = {
+  content_deleted: "Content deleted",
+  user_suspended: "User suspended",
+};
+
+function ReportCard({ report }: { report: ReportWithUsers }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const isPending = report.status === "pending";
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: ResolveAction) => {
+      const res = await apiRequest("POST", `/api/admin/reports/${report.id}/resolve`, {
+        action,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Resolving closes every pending report about the same content
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports?status=pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports?status=closed"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to resolve report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base capitalize">
+              {report.entityType} report · {reportReasonLabels[report.reason as ReportReason] ?? report.reason}
+            </CardTitle>
+            <CardDescription>
+              {report.reporter ? (
+                <>
+                  Reported by{" "}
+                  <Link href={`/users/${report.reporter.id}`}>
+                    <span className="hover:underline cursor-pointer">{report.reporter.username}</span>
+                  </Link>
+                </>
+              ) : (
+                "Held by automated moderation"
+              )}{" "}
+              {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap justify-end gap-1">
+            {report.duplicateCount > 0 && (
+              <Badge variant="secondary">+{report.duplicateCount} more</Badge>
+            )}
+            {!isPending && (
+              <Badge variant={report.status === "resolved" ? "default" : "outline"}>
+                {report.resolution ? resolutionLabels[report.resolution] : "Dismissed"}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3 text-sm">
+        {report.reportedUser && (
+          <div>
+            <span className="text-muted-foreground">Author: </span>
+            <Link href={`/users/${report.reportedUser.id}`}>
+              <span className="font-medium hover:underline cursor-pointer">{report.reportedUser.username}</span>
+            </Link>
+            {report.reportedUser.status === "suspended" && (
+              <Badge variant="destructive" className="ml-2">Suspended</Badge>
+            )}
+          </div>
+        )}
+
+        {report.contentSnapshot && (
+          <blockquote className="border-l-2 pl-3 text-muted-foreground whitespace-pre-wrap break-words">
+            {report.contentSnapshot}
+          </blockquote>
+        )}
+
+        {report.details && (
+          <p>
+            <span className="text-muted-foreground">{report.reporter ? "Reporter's note: " : "Classifier: "}</span>
+            {report.details}
+          </p>
+        )}
+
+        {isPending && (
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the record (optional, used as the suspension reason)"
+            className="resize-none"
+            maxLength={500}
+          />
+        )}
+      </CardContent>
+
+      {isPending && (
+        <CardFooter className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => resolveMutation.mutate("dismiss")}
+            disabled={resolveMutation.isPending}
+          >
+            {report.reporter ? "Dismiss" : "Release"}
+          </Button>
+          {report.entityType !== "user" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => resolveMutation.mutate("delete_content")}
+              disabled={resolveMutation.isPending}
+            >
+              Delete {report.entityType}
+            </Button>
+          )}
+          {report.reportedUser && report.reportedUser.status !== "suspended" && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => resolveMutation.mutate("suspend_user")}
+              disabled={resolveMutation.isPending}
+            >
+              Suspend {report.reportedUser.username}
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+function ReportQueue({ status }: { status: ReportStatusFilter }) {
+  const { data: reports = [], isLoading } = useQuery<ReportWithUsers[]>({
+    queryKey: [`/api/admin/reports?status=${status}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center my-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (reports.length === 0) {
+    return (
+      <Card className="p-6 text-center text-muted-foreground">
+        {status === "pending" ? "No reports waiting for review" : "No closed reports yet"}
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {reports.map((report) => (
+        <ReportCard key={report.id} report={report} />
+      ))}
+    </div>
+  );
+}
+
+export default function AdminReportsPage() {
+  const { user } = useAuth();
+
+  return (
+    <div>
+      <Header />
+      <main className="container mx-auto py-10 px-4 md:px-6">
+        <div className="max-w-3xl mx-auto">
+          <Link href="/admin">
+            <span className="text-sm text-muted-foreground hover:underline cursor-pointer">← Admin</span>
+          </Link>
+          <h1 className="text-3xl font-bold mb-6">Reports</h1>
+
+          {!user?.isAdmin ? (
+            <Card className="p-6 text-center text-muted-foreground">
+              Only site admins can review reports.
+            </Card>
+          ) : (
+            <Tabs defaultValue="pending">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="closed">Closed</TabsTrigger>
+              </TabsList>
+              <TabsContent value="pending">
+                <ReportQueue status="pending" />
+              </TabsContent>
+              <TabsContent value="closed">
+                <ReportQueue status="closed" />
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
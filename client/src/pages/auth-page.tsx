@@ -22,12 +22,16 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { z } from 'zod';
-import { insertUserSchema } from '@shared/schema';
+import { AuthProviders, insertUserSchema, forgotPasswordSchema, resetPasswordSchema } from '@shared/schema';
 import { Footer } from '@/components/layout/footer';
+import { apiRequest, parseRateLimitError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 
 // Login schema
 const loginSchema = insertUserSchema.pick({
@@ -52,9 +56,77 @@ const registerSchema = insertUserSchema.pick({
   path: ["confirmPassword"],
 });
 
+// Choose-a-new-password schema; the token comes from the emailed link
+// "m:ss" for the wait shown after too many attempts
+function formatWait(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const newPasswordSchema = resetPasswordSchema.omit({ token: true }).extend({
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState<string>("signin");
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
+  const { toast } = useToast();
+  // Password reset emails link to /auth?reset=<token>
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get("reset"));
+  // Single sign-on comes back to /auth?two_factor=1 or /auth?sso_error=<message>
+  const [ssoResult] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    return { twoFactor: params.has("two_factor"), error: params.get("sso_error") };
+  });
+  const [activeTab, setActiveTab] = useState<string>(
+    resetToken ? "reset" : ssoResult.twoFactor ? "two-factor" : "signin"
+  );
+
+  const { data: providers } = useQuery<AuthProviders>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  useEffect(() => {
+    if (!ssoResult.twoFactor && !ssoResult.error) return;
+
+    // Drop the result from the address bar so a refresh doesn't repeat it
+    window.history.replaceState(null, "", "/auth");
+    if (ssoResult.error) {
+      toast({
+        title: "Login failed",
+        description: ssoResult.error,
+        variant: "destructive",
+      });
+    }
+  }, [ssoResult, toast]);
+  const [resetEmailSentTo, setResetEmailSentTo] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  // Sign-in and sign-up are throttled separately; this is when the one that
+  // got a 429 opens up again
+  const [retry, setRetry] = useState<{ action: "login" | "register"; at: number } | null>(null);
+  const [retrySecondsLeft, setRetrySecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!retry) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((retry.at - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setRetry(null);
+        setRetrySecondsLeft(0);
+      } else {
+        setRetrySecondsLeft(remaining);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retry]);
+
+  const isLoginWaiting = retry?.action === "login" && retrySecondsLeft > 0;
+  const isRegisterWaiting = retry?.action === "register" && retrySecondsLeft > 0;
 
   // Form hooks for login
   const loginForm = useForm<z.infer<typeof loginSchema>>({
@@ -76,15 +148,93 @@ export default function AuthPage() {
     },
   });
 
+  // Form hooks for requesting a password reset link
+  const forgotForm = useForm<z.infer<typeof forgotPasswordSchema>>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  // Form hooks for choosing a new password
+  const resetForm = useForm<z.infer<typeof newPasswordSchema>>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof forgotPasswordSchema>) => {
+      await apiRequest("POST", "/api/forgot-password", values);
+    },
+    onSuccess: (_, values) => {
+      setResetEmailSentTo(values.email);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reset link",
+        description: parseRateLimitError(error)?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (password: string) => {
+      await apiRequest("POST", "/api/reset-password", { token: resetToken, password });
+    },
+    onSuccess: () => {
+      // Drop the used token from the address bar
+      window.history.replaceState(null, "", "/auth");
+      setActiveTab("signin");
+      toast({
+        title: "Password updated",
+        description: "Sign in with your new password. You've been signed out on other devices.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start the countdown when the server says to slow down
+  const onRateLimited = (action: "login" | "register") => (error: Error) => {
+    const rateLimit = parseRateLimitError(error);
+    if (rateLimit) {
+      setRetry({ action, at: Date.now() + rateLimit.retryAfter * 1000 });
+    }
+  };
+
   // Handle login form submission
   const onLoginSubmit = (values: z.infer<typeof loginSchema>) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setTwoFactorCode("");
+          setUseBackupCode(false);
+          setActiveTab("two-factor");
+        }
+      },
+      onError: onRateLimited("login"),
+    });
+  };
+
+  // Handle the second login step
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate(twoFactorCode.trim(), { onError: onRateLimited("login") });
   };
 
   // Handle registration form submission
   const onRegisterSubmit = (values: z.infer<typeof registerSchema>) => {
     const { confirmPassword, ...userData } = values;
-    registerMutation.mutate(userData);
+    registerMutation.mutate(userData, { onError: onRateLimited("register") });
   };
 
   // If user is already logged in, redirect to home page
@@ -155,9 +305,13 @@ export default function AuthPage() {
                             <FormItem>
                               <div className="flex items-center justify-between">
                                 <FormLabel>Password</FormLabel>
-                                <WouterLink href="#" className="text-sm text-primary hover:text-blue-700">
+                                <button
+                                  type="button"
+                                  className="text-sm text-primary hover:text-blue-700"
+                                  onClick={() => setActiveTab("forgot")}
+                                >
                                   Forgot password?
-                                </WouterLink>
+                                </button>
                               </div>
                               <FormControl>
                                 <Input type="password" placeholder="Enter your password" {...field} />
@@ -180,19 +334,35 @@ export default function AuthPage() {
                         <Button 
                           type="submit" 
                           className="w-full" 
-                          disabled={loginMutation.isPending}
+                          disabled={loginMutation.isPending || isLoginWaiting}
                         >
                           {loginMutation.isPending ? (
                             <>
                               <span>Signing in</span>
                               <span className="ml-2 inline-block h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
                             </>
+                          ) : isLoginWaiting ? (
+                            `Try again in ${formatWait(retrySecondsLeft)}`
                           ) : (
                             "Sign in"
                           )}
                         </Button>
                       </form>
                     </Form>
+
+                    {providers?.oidc.enabled && (
+                      <>
+                        <div className="my-4 flex items-center gap-2 text-xs uppercase text-neutral-500">
+                          <span className="h-px flex-1 bg-neutral-200" />
+                          or
+                          <span className="h-px flex-1 bg-neutral-200" />
+                        </div>
+                        {/* A full page navigation, since the provider redirects back */}
+                        <Button variant="outline" className="w-full" asChild>
+                          <a href="/api/auth/oidc">Sign in with {providers.oidc.name}</a>
+                        </Button>
+                      </>
+                    )}
                   </CardContent>
                   <CardFooter className="flex justify-center">
                     <p className="text-sm text-neutral-600">
@@ -209,6 +379,84 @@ export default function AuthPage() {
                 </Card>
               </TabsContent>
               
+              <TabsContent value="two-factor">
+                <Card className="border shadow-sm">
+                  <CardHeader className="text-center">
+                    <CardTitle className="text-2xl font-bold text-neutral-800">
+                      Two-factor authentication
+                    </CardTitle>
+                    <CardDescription>
+                      {useBackupCode
+                        ? "Enter one of your backup codes"
+                        : "Enter the 6-digit code from your authenticator app"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                      {useBackupCode ? (
+                        <Input
+                          value={twoFactorCode}
+                          onChange={(e) => setTwoFactorCode(e.target.value)}
+                          placeholder="xxxxx-xxxxx"
+                          autoComplete="one-time-code"
+                          autoFocus
+                        />
+                      ) : (
+                        <div className="flex justify-center">
+                          <InputOTP
+                            maxLength={6}
+                            value={twoFactorCode}
+                            onChange={setTwoFactorCode}
+                            autoFocus
+                          >
+                            <InputOTPGroup>
+                              {Array.from({ length: 6 }, (_, index) => (
+                                <InputOTPSlot key={index} index={index} />
+                              ))}
+                            </InputOTPGroup>
+                          </InputOTP>
+                        </div>
+                      )}
+
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={
+                          verifyTwoFactorMutation.isPending ||
+                          isLoginWaiting ||
+                          (useBackupCode ? !twoFactorCode.trim() : twoFactorCode.length < 6)
+                        }
+                      >
+                        {verifyTwoFactorMutation.isPending
+                          ? "Verifying..."
+                          : isLoginWaiting
+                            ? `Try again in ${formatWait(retrySecondsLeft)}`
+                            : "Verify"}
+                      </Button>
+                    </form>
+                  </CardContent>
+                  <CardFooter className="flex justify-between">
+                    <button
+                      type="button"
+                      className="text-sm text-primary hover:text-blue-700"
+                      onClick={() => {
+                        setUseBackupCode(!useBackupCode);
+                        setTwoFactorCode("");
+                      }}
+                    >
+                      {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+                    </button>
+                    <button
+                      type="button"
+                      className="text-sm text-neutral-600 hover:text-neutral-800"
+                      onClick={() => setActiveTab("signin")}
+                    >
+                      Back to sign in
+                    </button>
+                  </CardFooter>
+                </Card>
+              </TabsContent>
+              
               <TabsContent value="signup">
                 <Card className="border shadow-sm">
                   <CardHeader className="text-center">
@@ -288,13 +536,15 @@ export default function AuthPage() {
                         <Button 
                           type="submit" 
                           className="w-full" 
-                          disabled={registerMutation.isPending}
+                          disabled={registerMutation.isPending || isRegisterWaiting}
                         >
                           {registerMutation.isPending ? (
                             <>
                               <span>Creating account</span>
                               <span className="ml-2 inline-block h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
                             </>
+                          ) : isRegisterWaiting ? (
+                            `Try again in ${formatWait(retrySecondsLeft)}`
                           ) : (
                             "Sign up"
                           )}
@@ -316,6 +566,124 @@ export default function AuthPage() {
                   </CardFooter>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="forgot">
+                <Card className="border shadow-sm">
+                  <CardHeader className="text-center">
+                    <CardTitle className="text-2xl font-bold text-neutral-800">
+                      Forgot your password?
+                    </CardTitle>
+                    <CardDescription>
+                      We'll email you a link to choose a new one
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {resetEmailSentTo ? (
+                      <p className="text-sm text-neutral-600 text-center">
+                        If an account uses {resetEmailSentTo}, a reset link is on its way. It expires in 1 hour.
+                      </p>
+                    ) : (
+                      <Form {...forgotForm}>
+                        <form
+                          onSubmit={forgotForm.handleSubmit((values) => forgotPasswordMutation.mutate(values))}
+                          className="space-y-4"
+                        >
+                          <FormField
+                            control={forgotForm.control}
+                            name="email"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Email Address</FormLabel>
+                                <FormControl>
+                                  <Input type="email" placeholder="Enter your account's email address" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={forgotPasswordMutation.isPending}
+                          >
+                            {forgotPasswordMutation.isPending ? "Sending..." : "Send reset link"}
+                          </Button>
+                        </form>
+                      </Form>
+                    )}
+                  </CardContent>
+                  <CardFooter className="flex justify-center">
+                    <button
+                      type="button"
+                      className="text-sm font-medium text-primary hover:text-blue-700"
+                      onClick={() => {
+                        setResetEmailSentTo(null);
+                        setActiveTab("signin");
+                      }}
+                    >
+                      Back to sign in
+                    </button>
+                  </CardFooter>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="reset">
+                <Card className="border shadow-sm">
+                  <CardHeader className="text-center">
+                    <CardTitle className="text-2xl font-bold text-neutral-800">
+                      Choose a new password
+                    </CardTitle>
+                    <CardDescription>
+                      You'll be signed out everywhere else once it's changed
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...resetForm}>
+                      <form
+                        onSubmit={resetForm.handleSubmit((values) => resetPasswordMutation.mutate(values.password))}
+                        className="space-y-4"
+                      >
+                        <FormField
+                          control={resetForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>New Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="At least 8 characters" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={resetForm.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Confirm Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="Confirm your new password" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={!resetToken || resetPasswordMutation.isPending}
+                        >
+                          {resetPasswordMutation.isPending ? "Saving..." : "Update password"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         </div>
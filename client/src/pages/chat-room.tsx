@@ -1,12 +1,19 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useRoute, useLocation } from 'wouter';
-import { ChatRoom, MessageWithUser } from '@shared/schema';
+import { 
+  ChatRoom, DirectConversationWithUser, MessageWithUser, RoomReadState, RoomRole, RoomUnreadCount 
+} from '@shared/schema';
 import { Header } from '@/components/layout/header';
 import { Footer } from '@/components/layout/footer';
 import { MessageList } from '@/components/chat/message-list';
 import { ChatInput } from '@/components/chat/chat-input';
+import { TypingIndicator } from '@/components/chat/typing-indicator';
+import { RoomMembers } from '@/components/chat/room-members';
+import { ThreadPanel } from '@/components/chat/thread-panel';
 import { InviteUsersDialog } from '@/components/chat/invite-users-dialog';
+import { RoomSettingsDialog } from '@/components/chat/room-settings-dialog';
+import { InviteLinksDialog } from '@/components/chat/invite-links-dialog';
 import { useWebSocket } from '@/hooks/use-websocket';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
@@ -27,6 +34,12 @@ import { Link } from 'wouter';
 import { RestaurantRecommendationsDialog } from '@/components/ai/restaurant-recommendations-dialog';
 import { SimilarUsersCard } from '@/components/ai/similar-users-card';
 
+// Matches the server's default page size for room messages
+const MESSAGE_PAGE_SIZE = 50;
+
+// "Seen by" is only shown in rooms small enough for it to stay readable
+const SEEN_BY_MAX_PARTICIPANTS = 10;
+
 export default function ChatRoomPage() {
   // Get room id from URL
   const [match, params] = useRoute('/rooms/:id');
@@ -56,21 +69,133 @@ export default function ChatRoomPage() {
     enabled: !!roomId,
   });
   
+  // Room moderators can remove other people's messages and members
+  const { data: membership } = useQuery<{ 
+    isMember: boolean; 
+    isAdmin: boolean; 
+    canModerate: boolean; 
+    role?: RoomRole 
+  }>({
+    queryKey: [`/api/rooms/${roomId}/membership`],
+    enabled: !!roomId,
+  });
+  
   // WebSocket connection for real-time messaging
-  const { connected, messages, sendMessage, setMessages } = useWebSocket(roomId);
+  const { 
+    connected, messages, sendMessage, sendTyping, typingUsers, removedReason, setMessages 
+  } = useWebSocket(roomId);
+  
+  // Leave the room when a moderator removes the current user from it
+  useEffect(() => {
+    if (!removedReason) return;
+    
+    toast({
+      title: removedReason === 'banned' ? 'You were banned' : 'You were removed',
+      description: removedReason === 'banned'
+        ? 'A moderator banned you from this room.'
+        : 'A moderator removed you from this room.',
+      variant: 'destructive',
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    navigate('/');
+  }, [removedReason, toast, navigate]);
+  
+  const [activeThreadId, setActiveThreadId] = useState<number | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   
   // Initialize messages from fetched data
   useEffect(() => {
     if (initialMessages) {
       setMessages(initialMessages);
+      setHasOlderMessages(initialMessages.length >= MESSAGE_PAGE_SIZE);
     }
   }, [initialMessages, setMessages]);
   
+  // Load the page of messages before the oldest one shown
+  const oldestMessageId = messages[0]?.id;
+  const loadOlderMessages = useCallback(async () => {
+    if (!roomId || !oldestMessageId || isLoadingOlder) return;
+    
+    setIsLoadingOlder(true);
+    try {
+      const res = await apiRequest(
+        'GET', 
+        `/api/rooms/${roomId}/messages?before=${oldestMessageId}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      const olderMessages: MessageWithUser[] = await res.json();
+      
+      setMessages(prev => [
+        ...olderMessages.filter(older => !prev.some(m => m.id === older.id)),
+        ...prev
+      ]);
+      setHasOlderMessages(olderMessages.length >= MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load older messages',
+        variant: 'destructive',
+      });
+      setHasOlderMessages(false);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [roomId, oldestMessageId, isLoadingOlder, setMessages, toast]);
+  
+  // Close any open thread when switching rooms
+  const lastMarkedReadRef = useRef(0);
+  useEffect(() => {
+    setActiveThreadId(null);
+    lastMarkedReadRef.current = 0;
+  }, [roomId]);
+  
+  // Mark the newest message as read whenever the room is in view
+  const lastMessage = messages.length > 0 ? messages[messages.length - 1] : undefined;
+  const latestMessageId = lastMessage?.id;
+  useEffect(() => {
+    if (!roomId || !latestMessageId) return;
+    
+    const markRead = () => {
+      if (document.hidden || latestMessageId <= lastMarkedReadRef.current) return;
+      lastMarkedReadRef.current = latestMessageId;
+      
+      apiRequest('POST', `/api/rooms/${roomId}/read`, { messageId: latestMessageId })
+        .then(() => {
+          queryClient.setQueryData<RoomUnreadCount[]>(['/api/rooms/unread'], (counts) =>
+            counts?.map(c => c.roomId === roomId ? { ...c, unreadCount: 0 } : c)
+          );
+        })
+        .catch((error) => console.error('Error marking room as read:', error));
+    };
+    
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [roomId, latestMessageId]);
+  
+  // Read pointers of everyone in the room, kept current by the WebSocket
+  const { data: readStates = [] } = useQuery<RoomReadState[]>({
+    queryKey: [`/api/rooms/${roomId}/read-receipts`],
+    enabled: !!roomId && !!room && !room.isSelfChat,
+  });
+  
+  const seenBy = lastMessage && readStates.length <= SEEN_BY_MAX_PARTICIPANTS
+    ? readStates.filter(state => 
+        state.id !== user?.id && 
+        state.id !== lastMessage.userId && 
+        (state.lastReadMessageId ?? 0) >= lastMessage.id
+      )
+    : [];
+  
   // Handle sending message
   const handleSendMessage = (content: string, imageUrl?: string) => {
     return sendMessage(content, imageUrl);
   };
   
+  const handleSendReply = (content: string, imageUrl?: string) => {
+    return activeThreadId ? sendMessage(content, imageUrl, activeThreadId) : false;
+  };
+  
   // Delete Room Mutation
   const deleteRoomMutation = useMutation({
     mutationFn: async () => {
@@ -98,6 +223,15 @@ export default function ChatRoomPage() {
     }
   });
   
+  // Direct conversations are titled after the other person
+  const { data: directConversations = [] } = useQuery<DirectConversationWithUser[]>({
+    queryKey: ['/api/direct-messages'],
+    enabled: !!room?.isDirect,
+  });
+  const directPartner = room?.isDirect
+    ? directConversations.find(c => c.roomId === roomId)?.otherUser
+    : undefined;
+  
   // Check if current user is the room creator
   const isRoomCreator = room && user && room.creatorId === user.id;
   
@@ -163,9 +297,9 @@ export default function ChatRoomPage() {
               </Link>
               
               <div>
-                <h2 className="text-lg font-semibold">{room?.name || 'Loading...'}</h2>
+                <h2 className="text-lg font-semibold">{directPartner?.username || room?.name || 'Loading...'}</h2>
                 <p className="text-sm text-gray-500">{room?.description || ''}</p>
-                <p className="text-xs text-gray-400">Tribal Room</p>
+                <p className="text-xs text-gray-400">{room?.isDirect ? 'Direct message' : 'Tribal Room'}</p>
               </div>
             </div>
             
@@ -181,12 +315,22 @@ export default function ChatRoomPage() {
               </div>
               
               {/* Invite users button (shown to all users) */}
-              {room && !room.isSelfChat && (
+              {room && !room.isSelfChat && !room.isDirect && (
                 <InviteUsersDialog roomId={roomId} roomName={room?.name || "Tribal Room"} />
               )}
               
+              {/* Shareable invite links (managed by room admins) */}
+              {room && !room.isSelfChat && !room.isDirect && membership?.isAdmin && (
+                <InviteLinksDialog roomId={roomId} />
+              )}
+              
+              {/* Room settings (shown to room admins) */}
+              {room && !room.isDirect && membership?.isAdmin && (
+                <RoomSettingsDialog room={room} />
+              )}
+              
               {/* Delete room button (only shown to room creator) */}
-              {isRoomCreator && (
+              {isRoomCreator && !room.isDirect && (
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -204,17 +348,43 @@ export default function ChatRoomPage() {
           <MessageList 
             messages={messages} 
             isLoading={isLoading} 
+            canModerate={!!membership?.canModerate}
+            hasOlderMessages={hasOlderMessages}
+            isLoadingOlder={isLoadingOlder}
+            onLoadOlder={loadOlderMessages}
+            onReply={(message) => setActiveThreadId(message.id)}
+            seenBy={seenBy}
           />
           
+          {/* Who is typing right now */}
+          <TypingIndicator typingUsers={typingUsers} />
+          
           {/* Chat input */}
           <ChatInput 
             onSendMessage={handleSendMessage}
+            onTyping={sendTyping}
             disabled={!connected}
           />
           </div>
           
-          {/* AI Recommendations Sidebar */}
+          {/* Thread panel replaces the AI recommendations sidebar while a thread is open */}
+          {activeThreadId ? (
+            <div className="md:col-span-1">
+              <ThreadPanel
+                messageId={activeThreadId}
+                canModerate={!!membership?.canModerate}
+                disabled={!connected}
+                onSendReply={handleSendReply}
+                onClose={() => setActiveThreadId(null)}
+              />
+            </div>
+          ) : (
           <div className="hidden md:block md:col-span-1 space-y-4">
+            {/* Room members with live presence */}
+            {room && !room.isSelfChat && (
+              <RoomMembers roomId={roomId} currentRole={room.isDirect ? undefined : membership?.role} />
+            )}
+            
             {/* Similar Users Recommendations */}
             <SimilarUsersCard />
             
@@ -229,6 +399,7 @@ export default function ChatRoomPage() {
               </div>
             )}
           </div>
+          )}
         </div>
       </main>
       
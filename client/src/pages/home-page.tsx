@@ -3,9 +3,10 @@ import { ChatRoom } from '@shared/schema';
 import { Header } from '@/components/layout/header';
 import { Footer } from '@/components/layout/footer';
 import { RoomList } from '@/components/chat/room-list';
+import { DirectMessageList } from '@/components/chat/direct-message-list';
 import { Button } from '@/components/ui/button';
 import { Link } from 'wouter';
-import { PlusCircle, Mail, FileText, Users } from 'lucide-react';
+import { PlusCircle, Mail, FileText, Users, MessageCircle } from 'lucide-react';
 import { RoomInvitations, AcceptedRooms } from '@/components/social/room-invitations';
 import { useRoomInvitations } from '@/hooks/use-room-invitations';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -134,6 +135,19 @@ export default function HomePage() {
           </div>
 
           <div className="space-y-6">
+            {/* Direct Messages */}
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center">
+                  <MessageCircle className="h-5 w-5 mr-2 text-primary" />
+                  <CardTitle className="text-lg">Direct Messages</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <DirectMessageList />
+              </CardContent>
+            </Card>
+            
             {/* Room Invitations */}
             <Card>
               <CardHeader className="pb-3">
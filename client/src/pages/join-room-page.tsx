@@ -0,0 +1,103 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link, useLocation, useRoute } from 'wouter';
+import { RoomInviteLinkPreview } from '@shared/schema';
+import { Header } from '@/components/layout/header';
+import { Footer } from '@/components/layout/footer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ArrowLeft, Loader2, Users } from 'lucide-react';
+
+export default function JoinRoomPage() {
+  const [, params] = useRoute('/join/:code');
+  const code = params?.code;
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<RoomInviteLinkPreview>({
+    queryKey: [`/api/invite-links/${code}`],
+    enabled: !!code,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invite-links/${code}/accept`);
+      return await res.json() as { roomId: number };
+    },
+    onSuccess: ({ roomId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      navigate(`/rooms/${roomId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to join room',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const memberCount = invite?.room.totalMembers || 1;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow flex items-center justify-center px-4 py-8">
+        {isLoading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        ) : error || !invite ? (
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-4">Invite not found</h2>
+            <p className="mb-6">This invite link doesn't exist or has been removed.</p>
+            <Link href="/">
+              <Button>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Home
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardDescription>You've been invited to join</CardDescription>
+              <CardTitle className="text-2xl">{invite.room.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invite.room.description && (
+                <p className="text-sm text-gray-600">{invite.room.description}</p>
+              )}
+              <p className="flex items-center gap-2 text-sm text-gray-500">
+                <Users className="h-4 w-4" />
+                {memberCount} {memberCount === 1 ? 'member' : 'members'}
+              </p>
+              {!invite.isValid && !invite.isMember && (
+                <p className="text-sm text-destructive">
+                  This invite link has expired or can no longer be used.
+                </p>
+              )}
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+              <Link href="/">
+                <Button variant="outline">Cancel</Button>
+              </Link>
+              {invite.isMember ? (
+                <Button onClick={() => navigate(`/rooms/${invite.room.id}`)}>Open room</Button>
+              ) : (
+                <Button
+                  onClick={() => joinMutation.mutate()}
+                  disabled={!invite.isValid || joinMutation.isPending}
+                >
+                  {joinMutation.isPending ? 'Joining...' : 'Join room'}
+                </Button>
+              )}
+            </CardFooter>
+          </Card>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, Image, Trash2, Globe, Users, UserRound, Clock, PlusCircle, Heart, MessageCircle, Send, X } from "lucide-react";
+import { Loader2, Image, Trash2, Globe, Users, UserRound, Clock, PlusCircle, Heart, MessageCircle, Send, X, Flag } from "lucide-react";
 import { format } from "date-fns";
 import {
   AlertDialog,
@@ -25,6 +25,7 @@ import {
 import { Link } from "wouter";
 import { Header } from '@/components/layout/header';
 import { Footer } from '@/components/layout/footer';
+import { ReportDialog } from '@/components/moderation/report-dialog';
 
 function CreatePostForm() {
   const [content, setContent] = useState("");
@@ -264,6 +265,7 @@ function PostCard({ post }: { post: PostWithUser }) {
   const [commentContent, setCommentContent] = useState("");
   const [likeCount, setLikeCount] = useState(post.likeCount || 0);
   const [isLiked, setIsLiked] = useState(post.isLikedByCurrentUser || false);
+  const [reportTarget, setReportTarget] = useState<{ entityType: "post" | "comment"; entityId: number } | null>(null);
   
   const isCurrentUserPost = user?.id === post.userId;
   
@@ -388,6 +390,9 @@ function PostCard({ post }: { post: PostWithUser }) {
                     {post.visibility === "followers" ? "• Followers only" : "• Friends only"}
                   </span>
                 )}
+                {post.heldAt && (
+                  <span className="ml-2 text-amber-600">• Hidden while a moderator reviews it</span>
+                )}
                 {autoDeleteInfo && (
                   <span className="ml-2 flex items-center text-amber-500">
                     <Clock className="h-3 w-3 mr-1" />
@@ -398,6 +403,17 @@ function PostCard({ post }: { post: PostWithUser }) {
             </div>
           </div>
           
+          {!isCurrentUserPost && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Report post"
+              onClick={() => setReportTarget({ entityType: "post", entityId: post.id })}
+            >
+              <Flag className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          )}
+
           {isCurrentUserPost && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
@@ -490,6 +506,9 @@ function PostCard({ post }: { post: PostWithUser }) {
                           <span className="ml-2 text-xs text-muted-foreground">
                             {format(new Date(comment.createdAt), "MMM d, 'at' h:mm a")}
                           </span>
+                          {comment.heldAt && (
+                            <span className="ml-2 text-xs text-amber-600">Hidden while a moderator reviews it</span>
+                          )}
                         </div>
                         <p>{comment.content}</p>
                         
@@ -503,6 +522,17 @@ function PostCard({ post }: { post: PostWithUser }) {
                             <X className="h-3 w-3" />
                           </Button>
                         )}
+                        {user?.id !== comment.userId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Report comment"
+                            className={`absolute ${isCurrentUserPost ? "right-8" : "right-1"} top-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity`}
+                            onClick={() => setReportTarget({ entityType: "comment", entityId: comment.id })}
+                          >
+                            <Flag className="h-3 w-3" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -543,6 +573,15 @@ function PostCard({ post }: { post: PostWithUser }) {
           </div>
         )}
       </div>
+
+      {reportTarget && (
+        <ReportDialog
+          entityType={reportTarget.entityType}
+          entityId={reportTarget.entityId}
+          open={!!reportTarget}
+          onOpenChange={(open) => !open && setReportTarget(null)}
+        />
+      )}
     </Card>
   );
 }
@@ -9,17 +9,20 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import React, { useState, useEffect } from "react";
-import { Loader2, Save, Edit, Mail, CheckCircle, XCircle, SendHorizontal, AlertCircle, Users, UserCheck, Heart, Bot } from "lucide-react";
-import { useLocation, useRoute } from "wouter";
+import { Loader2, Save, Edit, Mail, CheckCircle, XCircle, SendHorizontal, AlertCircle, Users, UserCheck, Heart, Bot, Ban, ShieldCheck, MonitorSmartphone } from "lucide-react";
+import { Link, useLocation, useRoute } from "wouter";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useFollows } from "@/hooks/use-follows";
 import { useFriendRequests } from "@/hooks/use-friend-requests";
+import { useBlocks } from "@/hooks/use-blocks";
 import { FriendRequestList } from "@/components/social/friend-request-list";
 import { FollowList } from "@/components/social/follow-list";
+import { BlockedUserList } from "@/components/social/blocked-user-list";
 import { Header } from "@/components/layout/header";
 import { ProfileSetupDialog } from "@/components/ai/profile-setup-dialog";
+import { TwoFactorSettings } from "@/components/account/two-factor-settings";
 
 // Social components for the different tabs
 function SocialFriendRequests({ userId }: { userId?: number }) {
@@ -64,6 +67,19 @@ function SocialFollowing({ userId }: { userId?: number }) {
   );
 }
 
+function SocialBlocked() {
+  const { blocks, isLoading, isPending, unblockUser } = useBlocks();
+  
+  return (
+    <BlockedUserList
+      blocks={blocks}
+      isLoading={isLoading}
+      isPending={isPending}
+      onUnblock={unblockUser}
+    />
+  );
+}
+
 interface ProfileData {
   id: number;
   username: string;
@@ -400,13 +416,13 @@ export default function ProfilePage() {
                 Social Connections
               </CardTitle>
               <CardDescription>
-                Your followers, friends, and friend requests
+                Your followers, friends, friend requests and blocked users
               </CardDescription>
             </CardHeader>
             
             <CardContent>
               <Tabs defaultValue="requests">
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className="grid w-full grid-cols-4">
                   <TabsTrigger value="requests" className="flex items-center gap-1">
                     <UserCheck className="h-4 w-4" />
                     Requests
@@ -419,6 +435,10 @@ export default function ProfilePage() {
                     <Users className="h-4 w-4" />
                     Following
                   </TabsTrigger>
+                  <TabsTrigger value="blocked" className="flex items-center gap-1">
+                    <Ban className="h-4 w-4" />
+                    Blocked
+                  </TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="requests" className="mt-4">
@@ -432,6 +452,10 @@ export default function ProfilePage() {
                 <TabsContent value="following" className="mt-4">
                   <SocialFollowing userId={profile?.id} />
                 </TabsContent>
+                
+                <TabsContent value="blocked" className="mt-4">
+                  <SocialBlocked />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -575,6 +599,40 @@ export default function ProfilePage() {
               )}
             </CardFooter>
           </Card>
+          
+          {/* Security Card */}
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+              </CardTitle>
+              <CardDescription>
+                Require a code from your phone when you sign in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+          
+          {/* Sessions Card */}
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <MonitorSmartphone className="h-5 w-5" />
+                Sessions and Devices
+              </CardTitle>
+              <CardDescription>
+                See where you're signed in and log out devices you don't recognize
+              </CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Link href="/sessions">
+                <Button variant="outline">Manage sessions</Button>
+              </Link>
+            </CardFooter>
+          </Card>
         </div>
       </main>
     </div>
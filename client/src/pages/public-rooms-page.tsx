@@ -17,6 +17,7 @@ import { useEffect, useState } from 'react';
 
 type PublicRoomWithMemberStatus = ChatRoom & {
   isMember: boolean;
+  joinRequestPending?: boolean;
 }
 
 type RoomRecommendation = ChatRoom & {
@@ -29,20 +30,49 @@ type RoomRecommendationsResponse = {
   message: string;
 }
 
+// Join open rooms directly; rooms that need approval get a join request instead
+async function joinPublicRoom(room: ChatRoom) {
+  const response = room.joinPolicy === 'request'
+    ? await apiRequest('POST', `/api/public-rooms/${room.id}/join-requests`)
+    : await apiRequest('POST', `/api/public-rooms/${room.id}/join`);
+  return response.json();
+}
+
+function joinedToast(room: ChatRoom) {
+  toast(room.joinPolicy === 'request'
+    ? { title: "Request sent", description: "The room's admins will review your request" }
+    : { title: "Success!", description: "You've joined the room" });
+}
+
+function roomBadgeLabel(room: PublicRoomWithMemberStatus) {
+  if (room.isMember) return "Joined";
+  if (room.joinPolicy === 'request') return "Approval required";
+  if (room.joinPolicy === 'invite_only') return "Invite only";
+  return "Open";
+}
+
+function roomActionLabel(room: PublicRoomWithMemberStatus) {
+  if (room.isMember) return 'Enter Room';
+  if (room.joinPolicy === 'request') return room.joinRequestPending ? 'Requested' : 'Request to Join';
+  if (room.joinPolicy === 'invite_only') return 'Invite Only';
+  return 'Join Room';
+}
+
 // Component to display a single public room card
 function PublicRoomCard({ room, onJoin }: { 
   room: PublicRoomWithMemberStatus, 
-  onJoin: (roomId: number) => void 
+  onJoin: (room: PublicRoomWithMemberStatus) => void 
 }) {
   const [, navigate] = useLocation();
   const categoryTags = room.tags?.split(',').filter(Boolean) || [];
+  const canJoin = room.joinPolicy !== 'invite_only' && !room.joinRequestPending;
   
   // View room if already a member, join if not
   const handleRoomAction = () => {
     if (room.isMember) {
       navigate(`/rooms/${room.id}`);
     } else {
-      onJoin(room.id);
+      onJoin(room);
     }
   };
   
@@ -52,7 +82,7 @@ function PublicRoomCard({ room, onJoin }: {
         <div className="flex justify-between items-start">
           <CardTitle className="text-lg">{room.name}</CardTitle>
           <Badge variant={room.isMember ? "secondary" : "outline"}>
-            {room.isMember ? "Joined" : "Open"}
+            {roomBadgeLabel(room)}
           </Badge>
         </div>
         <CardDescription>
@@ -88,8 +118,9 @@ function PublicRoomCard({ room, onJoin }: {
           onClick={handleRoomAction} 
           className="w-full"
           variant={room.isMember ? "secondary" : "default"}
+          disabled={!room.isMember && !canJoin}
         >
-          {room.isMember ? 'Enter Room' : 'Join Room'}
+          {roomActionLabel(room)}
         </Button>
       </CardFooter>
     </Card>
@@ -107,17 +138,11 @@ function RecommendedRooms() {
   });
 
   const joinRoomMutation = useMutation({
-    mutationFn: async (roomId: number) => {
-      const response = await apiRequest('POST', `/api/public-rooms/${roomId}/join`);
-      return response.json();
-    },
-    onSuccess: () => {
+    mutationFn: joinPublicRoom,
+    onSuccess: (_, room) => {
       queryClient.invalidateQueries({ queryKey: ['/api/public-rooms/recommendations'] });
       queryClient.invalidateQueries({ queryKey: ['/api/public-rooms'] });
-      toast({
-        title: "Success!",
-        description: "You've joined the room",
-      });
+      joinedToast(room);
     },
     onError: (error: Error) => {
       toast({
@@ -128,8 +153,8 @@ function RecommendedRooms() {
     },
   });
 
-  const handleJoinRoom = (roomId: number) => {
-    joinRoomMutation.mutate(roomId);
+  const handleJoinRoom = (room: PublicRoomWithMemberStatus) => {
+    joinRoomMutation.mutate(room);
   };
 
   if (isLoading) {
@@ -233,16 +258,10 @@ export default function PublicRoomsPage() {
   }, [searchTerm, rooms]);
   
   const joinRoomMutation = useMutation({
-    mutationFn: async (roomId: number) => {
-      const response = await apiRequest('POST', `/api/public-rooms/${roomId}/join`);
-      return response.json();
-    },
-    onSuccess: () => {
+    mutationFn: joinPublicRoom,
+    onSuccess: (_, room) => {
       queryClient.invalidateQueries({ queryKey: ['/api/public-rooms'] });
-      toast({
-        title: "Success!",
-        description: "You've joined the room",
-      });
+      joinedToast(room);
     },
     onError: (error: Error) => {
       toast({
@@ -253,8 +272,8 @@ export default function PublicRoomsPage() {
     },
   });
   
-  const handleJoinRoom = (roomId: number) => {
-    joinRoomMutation.mutate(roomId);
+  const handleJoinRoom = (room: PublicRoomWithMemberStatus) => {
+    joinRoomMutation.mutate(room);
   };
   
   return (
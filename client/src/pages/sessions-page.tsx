@@ -0,0 +1,153 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { UserSession } from "@shared/schema";
+import { Header } from "@/components/layout/header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const platforms: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// A short "Chrome on Windows" style label for a user agent string
+function describeDevice(userAgent?: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Unknown browser";
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+function isMobile(userAgent?: string | null) {
+  return !!userAgent && /Mobi|Android|iPhone|iPad/.test(userAgent);
+}
+
+export default function SessionsPage() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/sessions/${id}`);
+      return (await res.json()) as { success: boolean; current: boolean };
+    },
+    onSuccess: (result) => {
+      if (result.current) {
+        queryClient.setQueryData(["/api/user"], null);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to log out session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Logged out everywhere else",
+        description: `${revoked} other ${revoked === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to log out other sessions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div>
+      <Header />
+      <main className="container mx-auto py-10 px-4 md:px-6">
+        <div className="max-w-3xl mx-auto">
+          <Link href="/profile">
+            <span className="text-sm text-muted-foreground hover:underline cursor-pointer">← Profile</span>
+          </Link>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h1 className="text-3xl font-bold">Sessions and Devices</h1>
+            <Button
+              variant="outline"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+            >
+              {revokeOthersMutation.isPending ? "Logging out..." : "Log out everywhere else"}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center my-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sessions.map((session) => {
+                const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+                return (
+                  <Card key={session.id} className="p-4">
+                    <div className="flex items-center gap-3">
+                      <DeviceIcon className="h-6 w-6 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{describeDevice(session.userAgent)}</span>
+                          {session.current && <Badge>This device</Badge>}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {session.ip || "Unknown location"}
+                          {session.lastSeenAt &&
+                            ` · active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(session.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        Log out
+                      </Button>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
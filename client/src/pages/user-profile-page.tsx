@@ -10,7 +10,25 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useFriendRequests } from "@/hooks/use-friend-requests";
-import { Loader2, UserPlus, UserMinus, ArrowLeft, UserCheck, UserX } from "lucide-react";
+import { useBlocks } from "@/hooks/use-blocks";
+import { ReportDialog } from "@/components/moderation/report-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, UserPlus, UserMinus, ArrowLeft, UserCheck, UserX, MessageCircle, MoreVertical } from "lucide-react";
 
 interface UserProfile {
   id: number;
@@ -28,7 +46,11 @@ export default function UserProfilePage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
-  const { sentRequests, sendRequest } = useFriendRequests();
+  const { sentRequests, receivedRequests, sendRequest } = useFriendRequests();
+  const { getBlockType, blockUser, unblockUser, isPending: isBlockPending } = useBlocks();
+  const [isBlockConfirmOpen, setIsBlockConfirmOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const blockType = getBlockType(userId);
   
   // Check if we've already sent a friend request to this user
   const [hasPendingFriendRequest, setHasPendingFriendRequest] = useState(false);
@@ -43,6 +65,11 @@ export default function UserProfilePage() {
     }
   }, [sentRequests, userId]);
   
+  // Friends can message each other directly
+  const isFriend = [...sentRequests, ...receivedRequests].some(
+    req => req.status === 'accepted' && (req.senderId === userId || req.receiverId === userId)
+  );
+  
   // Fetch user profile
   const { 
     data: profile, 
@@ -53,6 +80,25 @@ export default function UserProfilePage() {
     enabled: !isNaN(userId),
   });
 
+  // Open (or create) the direct conversation with this user
+  const directMessageMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/direct-messages", { userId });
+      return res.json();
+    },
+    onSuccess: (conversation: { roomId: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/direct-messages"] });
+      navigate(`/rooms/${conversation.roomId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to open conversation: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Follow user mutation
   const followMutation = useMutation({
     mutationFn: async () => {
@@ -203,34 +249,96 @@ export default function UserProfilePage() {
               </div>
               
               <div className="flex space-x-2">
-                <Button
-                  onClick={handleSendFriendRequest}
-                  variant="outline"
-                  disabled={hasPendingFriendRequest}
-                  title={hasPendingFriendRequest ? "Friend request pending" : "Send friend request"}
-                >
-                  {hasPendingFriendRequest ? (
-                    <UserCheck className="h-4 w-4 mr-2" />
-                  ) : (
-                    <UserX className="h-4 w-4 mr-2" />
-                  )}
-                  {hasPendingFriendRequest ? "Request Sent" : "Add Friend"}
-                </Button>
+                {blockType === "block" ? (
+                  <Button
+                    onClick={() => unblockUser(userId)}
+                    variant="outline"
+                    disabled={isBlockPending}
+                  >
+                    Unblock
+                  </Button>
+                ) : (
+                  <>
+                    {isFriend ? (
+                      <Button
+                        onClick={() => directMessageMutation.mutate()}
+                        variant="outline"
+                        disabled={directMessageMutation.isPending}
+                      >
+                        {directMessageMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        ) : (
+                          <MessageCircle className="h-4 w-4 mr-2" />
+                        )}
+                        Message
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={handleSendFriendRequest}
+                        variant="outline"
+                        disabled={hasPendingFriendRequest}
+                        title={hasPendingFriendRequest ? "Friend request pending" : "Send friend request"}
+                      >
+                        {hasPendingFriendRequest ? (
+                          <UserCheck className="h-4 w-4 mr-2" />
+                        ) : (
+                          <UserX className="h-4 w-4 mr-2" />
+                        )}
+                        {hasPendingFriendRequest ? "Request Sent" : "Add Friend"}
+                      </Button>
+                    )}
+                    
+                    <Button
+                      onClick={handleFollowToggle}
+                      variant={profile.isFollowing ? "outline" : "default"}
+                      disabled={followMutation.isPending || unfollowMutation.isPending}
+                    >
+                      {(followMutation.isPending || unfollowMutation.isPending) ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : profile.isFollowing ? (
+                        <UserMinus className="h-4 w-4 mr-2" />
+                      ) : (
+                        <UserPlus className="h-4 w-4 mr-2" />
+                      )}
+                      {profile.isFollowing ? "Unfollow" : "Follow"}
+                    </Button>
+                  </>
+                )}
                 
-                <Button
-                  onClick={handleFollowToggle}
-                  variant={profile.isFollowing ? "outline" : "default"}
-                  disabled={followMutation.isPending || unfollowMutation.isPending}
-                >
-                  {(followMutation.isPending || unfollowMutation.isPending) ? (
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  ) : profile.isFollowing ? (
-                    <UserMinus className="h-4 w-4 mr-2" />
-                  ) : (
-                    <UserPlus className="h-4 w-4 mr-2" />
-                  )}
-                  {profile.isFollowing ? "Unfollow" : "Follow"}
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon">
+                      <MoreVertical className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {blockType === "mute" ? (
+                      <DropdownMenuItem onClick={() => unblockUser(userId)} disabled={isBlockPending}>
+                        Unmute
+                      </DropdownMenuItem>
+                    ) : !blockType && (
+                      <DropdownMenuItem onClick={() => blockUser({ userId, type: "mute" })} disabled={isBlockPending}>
+                        Mute
+                      </DropdownMenuItem>
+                    )}
+                    {blockType !== "block" && (
+                      <DropdownMenuItem
+                        className="text-red-600 focus:text-red-600"
+                        onClick={() => setIsBlockConfirmOpen(true)}
+                      >
+                        Block
+                      </DropdownMenuItem>
+                    )}
+                    {blockType === "block" && (
+                      <DropdownMenuItem onClick={() => unblockUser(userId)} disabled={isBlockPending}>
+                        Unblock
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => setIsReportOpen(true)}>
+                      Report
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           </CardHeader>
@@ -271,6 +379,38 @@ export default function UserProfilePage() {
           </CardContent>
         </Card>
       </div>
+      
+      <AlertDialog open={isBlockConfirmOpen} onOpenChange={setIsBlockConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {profile.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will no longer be friends or follow each other, and neither of you will be able to
+              send friend requests, follow, invite or message the other. Pending room invitations
+              between you are withdrawn.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={() => blockUser({ userId, type: "block" }, {
+                // Blocking removes follows in both directions
+                onSuccess: () => queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}`] }),
+              })}
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportDialog
+        entityType="user"
+        entityId={userId}
+        open={isReportOpen}
+        onOpenChange={setIsReportOpen}
+      />
     </div>
   );
 }
\ No newline at end of file
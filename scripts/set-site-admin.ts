@@ -0,0 +1,41 @@
+import { db } from '../server/db';
+import { users } from '../shared/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Grants or revokes site admin access for a user.
+ *
+ * Usage: tsx scripts/set-site-admin.ts <username> [--revoke]
+ */
+async function setSiteAdmin() {
+  const username = process.argv[2];
+  const revoke = process.argv.includes('--revoke');
+  
+  if (!username) {
+    console.error('Usage: tsx scripts/set-site-admin.ts <username> [--revoke]');
+    process.exit(1);
+  }
+  
+  try {
+    const [user] = await db.update(users)
+      .set({ isAdmin: !revoke })
+      .where(eq(users.username, username))
+      .returning();
+    
+    if (!user) {
+      console.error(`No user named "${username}" was found`);
+      process.exit(1);
+    }
+    
+    console.log(revoke
+      ? `${user.username} is no longer a site admin`
+      : `${user.username} is now a site admin`);
+  } catch (error) {
+    console.error('Error updating site admin access:', error);
+  } finally {
+    process.exit(0);
+  }
+}
+
+// Run the function
+setSiteAdmin();
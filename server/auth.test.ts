@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, it, mock, type Mock } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import type { OidcClaims, OidcConfig } from "./oidc";
+
+// The storage module connects lazily, but refuses to load without a URL.
+// Lookups and writes are replaced below, so nothing here reaches a database.
+process.env.DATABASE_URL ??= "postgres://auth-test@localhost:5432/unused";
+
+// The sign-in throttles and rate limiter schedule cleanups when loaded;
+// faked timers keep them from holding the test process open
+mock.timers.enable({ apis: ["setInterval"] });
+const { verifyOidcUser } = await import("./auth");
+const { storage } = await import("./storage");
+mock.timers.reset();
+
+const config: OidcConfig = {
+  issuer: "https://sso.uni.edu",
+  clientId: "tribalverse",
+  clientSecret: "s3cret",
+  redirectUri: "http://localhost:5000/api/auth/oidc/callback",
+  scopes: "openid email profile",
+  displayName: "State University",
+};
+
+function localUser(overrides: Partial<User> = {}): User {
+  return {
+    id: 9,
+    username: "student",
+    email: "student@uni.edu",
+    emailVerified: true,
+    verificationToken: null,
+    status: "active",
+    suspendedUntil: null,
+    suspensionReason: null,
+    ...overrides,
+  } as User;
+}
+
+type Outcome = { err?: unknown; user?: Express.User | false; info?: { message: string } };
+
+// Run the verify step the way the strategy does, resolving with its result
+function verify(claims: OidcClaims) {
+  return new Promise<Outcome>((resolve) => {
+    verifyOidcUser(config)(claims, (err, user, info) => resolve({ err, user, info }));
+  });
+}
+
+describe("verifyOidcUser", () => {
+  const claims: OidcClaims = {
+    sub: "student-42",
+    email: "student@uni.edu",
+    email_verified: true,
+    preferred_username: "student",
+  };
+  const account = { provider: config.issuer, subject: "student-42", email: "student@uni.edu" };
+
+  let getUserByOauthAccount: Mock<typeof storage.getUserByOauthAccount>;
+  let getUserByEmail: Mock<typeof storage.getUserByEmail>;
+  let linkOauthAccount: Mock<typeof storage.linkOauthAccount>;
+  let createOauthUser: Mock<typeof storage.createOauthUser>;
+
+  beforeEach(() => {
+    getUserByOauthAccount = mock.method(storage, "getUserByOauthAccount", async () => undefined);
+    getUserByEmail = mock.method(storage, "getUserByEmail", async () => undefined);
+    linkOauthAccount = mock.method(storage, "linkOauthAccount", async () => true);
+    createOauthUser = mock.method(storage, "createOauthUser", async (user) => localUser({ ...user, id: 10 }));
+    mock.method(storage, "getUserByUsername", async () => undefined);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("signs in the account already linked to the identity", async () => {
+    const linked = localUser();
+    getUserByOauthAccount.mock.mockImplementation(async () => linked);
+
+    const { user } = await verify({ ...claims, email: undefined, email_verified: undefined });
+
+    assert.equal(user, linked);
+    assert.deepEqual(getUserByOauthAccount.mock.calls[0].arguments, [config.issuer, "student-42"]);
+    assert.equal(linkOauthAccount.mock.callCount(), 0);
+    assert.equal(createOauthUser.mock.callCount(), 0);
+  });
+
+  it("links an existing account whose email has been verified", async () => {
+    const existing = localUser();
+    getUserByEmail.mock.mockImplementation(async () => existing);
+
+    const { user } = await verify(claims);
+
+    assert.equal(user, existing);
+    assert.deepEqual(linkOauthAccount.mock.calls[0].arguments, [9, account]);
+  });
+
+  it("accepts email_verified sent as a string", async () => {
+    getUserByEmail.mock.mockImplementation(async () => localUser());
+
+    const { user } = await verify({ ...claims, email_verified: "true" });
+
+    assert.ok(user);
+    assert.equal(linkOauthAccount.mock.callCount(), 1);
+  });
+
+  it("refuses an identity whose email the provider hasn't verified", async () => {
+    getUserByEmail.mock.mockImplementation(async () => localUser());
+
+    const { user, info } = await verify({ ...claims, email_verified: false });
+
+    assert.equal(user, false);
+    assert.match(info!.message, /didn't share a verified email/);
+    assert.equal(getUserByEmail.mock.callCount(), 0);
+  });
+
+  it("doesn't link an account that hasn't verified its email", async () => {
+    getUserByEmail.mock.mockImplementation(async () => localUser({ emailVerified: false, verificationToken: "pending" }));
+
+    const { user, info } = await verify(claims);
+
+    assert.equal(user, false);
+    assert.match(info!.message, /verify your email first/);
+    assert.equal(linkOauthAccount.mock.callCount(), 0);
+  });
+
+  it("doesn't link an account marked verified without completing the emailed link", async () => {
+    getUserByEmail.mock.mockImplementation(async () => localUser({ emailVerified: true, verificationToken: "never-used" }));
+
+    const { user } = await verify(claims);
+
+    assert.equal(user, false);
+    assert.equal(linkOauthAccount.mock.callCount(), 0);
+  });
+
+  it("creates a verified account for a new .edu address", async () => {
+    const { user } = await verify(claims);
+
+    assert.equal((user as User).id, 10);
+    const [created, linkedAccount] = createOauthUser.mock.calls[0].arguments;
+    assert.equal(created.username, "student");
+    assert.equal(created.email, "student@uni.edu");
+    assert.equal(created.emailVerified, true);
+    assert.deepEqual(linkedAccount, account);
+  });
+
+  it("refuses to create an account for an address outside .edu", async () => {
+    const { user, info } = await verify({ ...claims, email: "student@gmail.com" });
+
+    assert.equal(user, false);
+    assert.match(info!.message, /Only \.edu email addresses/);
+    assert.equal(createOauthUser.mock.callCount(), 0);
+  });
+
+  it("refuses a linked account that is suspended", async () => {
+    getUserByOauthAccount.mock.mockImplementation(async () => localUser({ status: "suspended" }));
+
+    const { user, info } = await verify(claims);
+
+    assert.equal(user, false);
+    assert.match(info!.message, /suspended/);
+  });
+});
@@ -1,12 +1,24 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
-import { sendVerificationEmail } from "./email";
+import { z } from "zod";
+import {
+  User as SelectUser, SessionClientInfo, AuthProviders, insertUserSchema, forgotPasswordSchema, resetPasswordSchema, twoFactorCodeSchema,
+  SESSION_REVOKED_CLOSE_CODE
+} from "@shared/schema";
+import { sendVerificationEmail, sendPasswordResetEmail, sendAccountLockedEmail } from "./email";
+import { closeUserSockets } from "./notifications";
+import { getOidcConfig, OidcConfig, OidcClaims, OidcStrategy, OidcVerifyFunction } from "./oidc";
+import {
+  clearLoginFailures, getLoginRetryAfterMs, getRegistrationRetryAfterMs, recordLoginFailure,
+  recordRegistrationAttempt
+} from "./login-throttle";
+import { consumeRateLimit, rateLimit, rateLimitPolicies } from "./rate-limit";
+import { buildTotpUri, generateBackupCodes, generateTotpSecret, hashBackupCode, verifyTotp } from "./totp";
 
 declare global {
   namespace Express {
@@ -14,8 +26,42 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password checks out for an account with two-factor enabled
+    pendingTwoFactor?: {
+      userId: number;
+      expiresAt: number;
+      attempts: number;
+    };
+    // Shown on the sessions page so users can recognize their devices
+    client?: SessionClientInfo;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
+// How often a session's last-seen time is written back, to avoid a store
+// write on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// How long a password reset link stays valid
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// How long the second login step stays open after the password is accepted,
+// and how many wrong codes it takes before the password has to be entered again
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+// Reset tokens are looked up by hash so a leaked database can't be used to reset passwords
+function hashResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -46,6 +92,159 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
+function clientIp(req: Request) {
+  return req.ip ?? "unknown";
+}
+
+/**
+ * Reply 429 with how long to wait, in seconds, both as a Retry-After header
+ * and in the body for the sign-in form's countdown
+ */
+function sendTooManyAttempts(res: Response, retryAfterMs: number, message: string) {
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message, retryAfter });
+}
+
+/**
+ * Count a failed sign-in, emailing the account owner if it locked them out
+ */
+async function handleLoginFailure(req: Request, username: string) {
+  const { lockedUntil } = recordLoginFailure(clientIp(req), username);
+  if (!lockedUntil) {
+    return;
+  }
+  
+  try {
+    const user = await storage.getUserByUsername(username);
+    if (user?.email) {
+      await sendAccountLockedEmail(user.email, user.username, lockedUntil);
+    }
+  } catch (error) {
+    console.error("Error sending account locked email:", error);
+  }
+}
+
+/**
+ * A free username for a new single sign-on account, based on what the
+ * provider calls the user
+ */
+async function generateOidcUsername(claims: OidcClaims): Promise<string> {
+  const base = (claims.preferred_username || claims.email?.split("@")[0] || "user")
+    .replace(/[^a-zA-Z0-9_.-]/g, "")
+    .slice(0, 24) || "user";
+  
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}${Math.floor(1000 + Math.random() * 9000)}`;
+    if (!(await storage.getUserByUsername(candidate))) {
+      return candidate;
+    }
+  }
+  return `${base}${randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * Find the local account for a provider identity, linking it to an existing
+ * account with the same verified email or creating a new one
+ */
+export function verifyOidcUser(config: OidcConfig): OidcVerifyFunction {
+  return async (claims, done) => {
+    try {
+      const account = { provider: config.issuer, subject: claims.sub, email: claims.email ?? null };
+      let user = await storage.getUserByOauthAccount(account.provider, account.subject);
+      
+      if (!user) {
+        const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+        const email = emailVerified ? claims.email : undefined;
+        if (!email) {
+          return done(null, false, { message: "Your identity provider didn't share a verified email address" });
+        }
+        
+        const existing = await storage.getUserByEmail(email);
+        if (existing) {
+          // Only link accounts that have proven they own the address through
+          // the emailed verification link (which clears the token), so nobody
+          // can register someone else's email and inherit their sign-in
+          if (!existing.emailVerified || existing.verificationToken) {
+            return done(null, false, {
+              message: "An account with this email already exists. Sign in with your password and verify your email first"
+            });
+          }
+          if (!(await storage.linkOauthAccount(existing.id, account))) {
+            return done(new Error("Error linking external account"));
+          }
+          user = existing;
+        } else {
+          if (!email.toLowerCase().endsWith('.edu')) {
+            return done(null, false, { message: "Only .edu email addresses are allowed" });
+          }
+          
+          // Single sign-on accounts get an unguessable password; the owner can
+          // set a real one with "Forgot password?" if they want to use it
+          user = await storage.createOauthUser({
+            username: await generateOidcUsername(claims),
+            password: await hashPassword(randomBytes(32).toString("hex")),
+            email,
+            emailVerified: true,
+          }, account);
+        }
+      }
+      
+      const blockReason = getAccountBlockReason(await refreshAccountStatus(user));
+      if (blockReason) {
+        return done(null, false, { message: blockReason });
+      }
+      
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  };
+}
+
+/**
+ * Check a second-factor code for an account with two-factor enabled. Accepts
+ * a code from the authenticator app (each one only once) or an unused backup code.
+ */
+async function verifySecondFactor(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+  
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    return storage.recordTwoFactorStep(user.id, step);
+  }
+  
+  return storage.consumeBackupCode(user.id, hashBackupCode(code));
+}
+
+/**
+ * Lift a suspension once its end date has passed, returning the user as
+ * they now stand
+ */
+export async function refreshAccountStatus(user: SelectUser): Promise<SelectUser> {
+  if (user.status === 'suspended' && user.suspendedUntil && user.suspendedUntil <= new Date()) {
+    return (await storage.reinstateUser(user.id)) ?? user;
+  }
+  return user;
+}
+
+/**
+ * Why an account can't be used right now, or null if it is active
+ */
+export function getAccountBlockReason(user: SelectUser): string | null {
+  if (user.status === 'deleted') {
+    return "This account has been deleted";
+  }
+  if (user.status === 'suspended') {
+    const until = user.suspendedUntil ? ` until ${user.suspendedUntil.toUTCString()}` : "";
+    const reason = user.suspensionReason ? `. Reason: ${user.suspensionReason}` : "";
+    return `Your account has been suspended${until}${reason}`;
+  }
+  return null;
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "chat-app-secret-key",
@@ -57,10 +256,48 @@ export function setupAuth(app: Express) {
     }
   };
 
+  // Keep a handle on the session middleware so WebSocket upgrades can
+  // resolve the logged-in user from the same cookie
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  
+  // Sign out suspended and deleted accounts so every API request after a
+  // suspension is rejected, including the auth routes below
+  app.use("/api", (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return next();
+    }
+    
+    const blockReason = getAccountBlockReason(req.user);
+    if (!blockReason) {
+      return next();
+    }
+    
+    const accountStatus = req.user.status;
+    req.logout((err) => {
+      if (err) return next(err);
+      res.status(403).json({ message: blockReason, accountStatus });
+    });
+  });
+  
+  // Record the device and last activity of logged-in sessions
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) {
+      const lastSeenAt = req.session.client?.lastSeenAt;
+      if (!lastSeenAt || Date.now() - new Date(lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        req.session.client = {
+          userAgent: req.get("user-agent") ?? null,
+          ip: req.ip ?? null,
+          lastSeenAt: new Date().toISOString(),
+        };
+      }
+    }
+    next();
+  });
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -68,40 +305,67 @@ export function setupAuth(app: Express) {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+        
+        // Only tell the owner why, once they've proven it's their account
+        const blockReason = getAccountBlockReason(await refreshAccountStatus(user));
+        if (blockReason) {
+          return done(null, false, { message: blockReason });
+        }
+        
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
     }),
   );
 
+  // Single sign-on is only offered when a provider is configured
+  const oidcConfig = getOidcConfig();
+  if (oidcConfig) {
+    passport.use(new OidcStrategy(oidcConfig, verifyOidcUser(oidcConfig)));
+  }
+
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user ? await refreshAccountStatus(user) : user);
     } catch (error) {
       done(error);
     }
   });
 
   app.post("/api/register", async (req, res, next) => {
+    const retryAfterMs = getRegistrationRetryAfterMs(clientIp(req));
+    if (retryAfterMs > 0) {
+      return sendTooManyAttempts(res, retryAfterMs, "Too many sign-up attempts. Please try again later");
+    }
+    recordRegistrationAttempt(clientIp(req));
+    
+    // Only accept the sign-up fields; anything else in the body (isAdmin,
+    // emailVerified, status...) is dropped rather than written to the account
+    const result = insertUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid registration");
+    }
+    const { password, ...profile } = result.data;
+    const email = profile.email || null;
+    
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(profile.username);
       if (existingUser) {
         return res.status(400).send("Username already exists");
       }
 
       // Check if email is already in use and if it's an .edu email
-      if (req.body.email) {
+      if (email) {
         // Validate that it's an .edu email
-        if (!req.body.email.toLowerCase().endsWith('.edu')) {
+        if (!email.toLowerCase().endsWith('.edu')) {
           return res.status(400).send("Only .edu email addresses are allowed");
         }
         
-        const existingEmail = await storage.getUserByEmail(req.body.email);
+        const existingEmail = await storage.getUserByEmail(email);
         if (existingEmail) {
           return res.status(400).send("Email is already in use");
         }
@@ -109,21 +373,22 @@ export function setupAuth(app: Express) {
 
       // Create a verification token if email is provided
       let verificationToken = null;
-      if (req.body.email) {
+      if (email) {
         verificationToken = randomBytes(32).toString('hex');
       }
 
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...profile,
+        email,
+        password: await hashPassword(password),
         verificationToken
       });
 
       // Send verification email if email was provided
-      if (req.body.email && verificationToken) {
+      if (email && verificationToken) {
         await sendVerificationEmail(
-          req.body.email, 
-          req.body.username, 
+          email, 
+          user.username, 
           verificationToken
         );
       }
@@ -144,10 +409,147 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    // Don't return the password hash
-    const { id, username } = req.user as SelectUser;
-    res.status(200).json({ id, username });
+  app.post("/api/login", (req, res, next) => {
+    const username = typeof req.body.username === "string" ? req.body.username : "";
+    const retryAfterMs = getLoginRetryAfterMs(clientIp(req), username);
+    if (retryAfterMs > 0) {
+      return sendTooManyAttempts(res, retryAfterMs, "Too many failed sign-in attempts. Please wait before trying again");
+    }
+    
+    passport.authenticate("local", async (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        // Suspended and deleted accounts get an explanation; bad credentials don't
+        if (info?.message) {
+          return res.status(403).send(info.message);
+        }
+        await handleLoginFailure(req, username);
+        return res.status(401).send("Unauthorized");
+      }
+      
+      // The session isn't logged in until the second factor is checked too,
+      // and failures are only forgotten once it has been
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      clearLoginFailures(username);
+      
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        // Don't return the password hash
+        const { id, username } = user;
+        res.status(200).json({ id, username });
+      });
+    })(req, res, next);
+  });
+
+  // Second login step for accounts with two-factor authentication
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt <= Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).send("Your sign-in has expired. Please enter your password again");
+    }
+    
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid verification code");
+    }
+    
+    try {
+      const storedUser = await storage.getUser(pending.userId);
+      if (!storedUser) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).send("Unauthorized");
+      }
+      
+      const user = await refreshAccountStatus(storedUser);
+      const blockReason = getAccountBlockReason(user);
+      if (blockReason) {
+        delete req.session.pendingTwoFactor;
+        return res.status(403).send(blockReason);
+      }
+      
+      const retryAfterMs = getLoginRetryAfterMs(clientIp(req), user.username);
+      if (retryAfterMs > 0) {
+        return sendTooManyAttempts(res, retryAfterMs, "Too many failed sign-in attempts. Please wait before trying again");
+      }
+      
+      if (!(await verifySecondFactor(user, result.data.code))) {
+        // Wrong codes count toward the same lockout as wrong passwords
+        await handleLoginFailure(req, user.username);
+        pending.attempts += 1;
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).send("Too many incorrect codes. Please enter your password again");
+        }
+        return res.status(401).send("Invalid verification code");
+      }
+      
+      delete req.session.pendingTwoFactor;
+      clearLoginFailures(user.username);
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        // Don't return the password hash
+        const { id, username } = user;
+        res.status(200).json({ id, username });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/providers", (req, res) => {
+    const providers: AuthProviders = {
+      oidc: { enabled: !!oidcConfig, name: oidcConfig?.displayName ?? "" },
+    };
+    res.json(providers);
+  });
+
+  // Single sign-on. The browser is sent to the provider and back to the
+  // callback, which always ends by redirecting to a page.
+  app.get("/api/auth/oidc", (req, res, next) => {
+    if (!oidcConfig) {
+      return res.status(404).send("Single sign-on is not configured");
+    }
+    passport.authenticate("oidc")(req, res, next);
+  });
+
+  app.get("/api/auth/oidc/callback", (req, res, next) => {
+    if (!oidcConfig) {
+      return res.status(404).send("Single sign-on is not configured");
+    }
+    
+    passport.authenticate("oidc", (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) {
+        console.error("Error completing single sign-on:", err);
+        return res.redirect(`/auth?sso_error=${encodeURIComponent("Sign-in with your identity provider failed")}`);
+      }
+      if (!user) {
+        return res.redirect(`/auth?sso_error=${encodeURIComponent(info?.message || "Sign-in failed")}`);
+      }
+      
+      // Two-factor still applies to accounts that have it turned on
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.redirect("/auth?two_factor=1");
+      }
+      
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.redirect("/");
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -234,11 +636,229 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Email a password reset link. The response is the same whether or not the
+  // address belongs to an account, so it can't be used to discover accounts.
+  app.post("/api/forgot-password", rateLimit(rateLimitPolicies.passwordResets), async (req, res) => {
+    const result = forgotPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid email address");
+    }
+    
+    try {
+      // Past the per-address limit nothing more is sent, but the response
+      // stays the same so it can't be used to find accounts
+      const { allowed } = await consumeRateLimit(
+        rateLimitPolicies.passwordResetEmails,
+        result.data.email.trim().toLowerCase()
+      );
+      const user = allowed ? await storage.getUserByEmail(result.data.email) : undefined;
+      
+      if (user?.email && user.status !== 'deleted') {
+        const token = randomBytes(32).toString('hex');
+        const resetToken = await storage.createPasswordResetToken(
+          user.id,
+          hashResetToken(token),
+          new Date(Date.now() + PASSWORD_RESET_TTL_MS)
+        );
+        
+        if (resetToken) {
+          await sendPasswordResetEmail(user.email, user.username, token);
+        }
+      }
+      
+      res.status(200).send("If an account uses that email address, a reset link is on its way");
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).send("Error requesting password reset");
+    }
+  });
+  
+  app.post("/api/reset-password", async (req, res) => {
+    const result = resetPasswordSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid password reset");
+    }
+    
+    try {
+      const resetToken = await storage.consumePasswordResetToken(hashResetToken(result.data.token));
+      if (!resetToken) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+      
+      const updated = await storage.updateUserPassword(resetToken.userId, await hashPassword(result.data.password));
+      if (!updated) {
+        return res.status(500).send("Error resetting password");
+      }
+      
+      // Sign the account out everywhere else, in case the old password was compromised
+      await storage.deleteUserSessions(resetToken.userId, req.sessionID);
+      closeUserSockets(resetToken.userId, SESSION_REVOKED_CLOSE_CODE, 'session_revoked', req.sessionID);
+      
+      // Failures against the old password shouldn't keep the owner locked out
+      const user = await storage.getUser(resetToken.userId);
+      if (user) {
+        clearLoginFailures(user.username);
+      }
+      
+      res.status(200).send("Password updated");
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).send("Error resetting password");
+    }
+  });
+
+  // Two-factor enrollment and management for the logged-in user
+  app.get("/api/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    
+    try {
+      res.json(await storage.getTwoFactorStatus(req.user.id));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).send("Error fetching two-factor status");
+    }
+  });
+  
+  // Start enrollment with a fresh secret. Nothing changes at login until the
+  // user proves their app has it via /api/2fa/enable.
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    
+    const user = req.user as SelectUser;
+    if (user.twoFactorEnabled) {
+      return res.status(400).send("Two-factor authentication is already enabled");
+    }
+    
+    try {
+      const secret = generateTotpSecret();
+      const saved = await storage.setTwoFactorSecret(user.id, secret);
+      if (!saved) {
+        return res.status(500).send("Error starting two-factor setup");
+      }
+      
+      res.json({ secret, otpauthUri: buildTotpUri(secret, user.username) });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).send("Error starting two-factor setup");
+    }
+  });
+  
+  app.post("/api/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid verification code");
+    }
+    
+    const user = req.user as SelectUser;
+    if (user.twoFactorEnabled) {
+      return res.status(400).send("Two-factor authentication is already enabled");
+    }
+    if (!user.twoFactorSecret) {
+      return res.status(400).send("Start two-factor setup first");
+    }
+    
+    try {
+      const step = verifyTotp(user.twoFactorSecret, result.data.code);
+      if (step === null) {
+        return res.status(400).send("Invalid verification code");
+      }
+      
+      // Backup codes are only ever shown in this response
+      const backupCodes = generateBackupCodes();
+      const enabled = await storage.enableTwoFactor(user.id, step, backupCodes.map(hashBackupCode));
+      if (!enabled) {
+        return res.status(500).send("Error enabling two-factor authentication");
+      }
+      
+      res.json({ backupCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).send("Error enabling two-factor authentication");
+    }
+  });
+  
+  app.post("/api/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    
+    const result = disableTwoFactorSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid request");
+    }
+    
+    const user = req.user as SelectUser;
+    if (!user.twoFactorEnabled) {
+      return res.status(400).send("Two-factor authentication is not enabled");
+    }
+    
+    try {
+      if (!(await comparePasswords(result.data.password, user.password))) {
+        return res.status(401).send("Incorrect password");
+      }
+      if (!(await verifySecondFactor(user, result.data.code))) {
+        return res.status(401).send("Invalid verification code");
+      }
+      
+      const disabled = await storage.disableTwoFactor(user.id);
+      if (!disabled) {
+        return res.status(500).send("Error disabling two-factor authentication");
+      }
+      
+      res.status(200).send("Two-factor authentication disabled");
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).send("Error disabling two-factor authentication");
+    }
+  });
+  
+  // Replace all backup codes, invalidating any the user still has
+  app.post("/api/2fa/backup-codes", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    
+    const result = twoFactorCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).send(result.error.errors[0]?.message || "Invalid verification code");
+    }
+    
+    const user = req.user as SelectUser;
+    if (!user.twoFactorEnabled) {
+      return res.status(400).send("Two-factor authentication is not enabled");
+    }
+    
+    try {
+      if (!(await verifySecondFactor(user, result.data.code))) {
+        return res.status(401).send("Invalid verification code");
+      }
+      
+      const backupCodes = generateBackupCodes();
+      const replaced = await storage.replaceBackupCodes(user.id, backupCodes.map(hashBackupCode));
+      if (!replaced) {
+        return res.status(500).send("Error generating backup codes");
+      }
+      
+      res.json({ backupCodes });
+    } catch (error) {
+      console.error("Error generating backup codes:", error);
+      res.status(500).send("Error generating backup codes");
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     // Don't return the password hash but include email and verification status
-    const { id, username, email, emailVerified, hobbies, interests, currentActivities } = req.user as SelectUser;
+    const { id, username, email, emailVerified, hobbies, interests, currentActivities, isAdmin } = req.user as SelectUser;
     res.json({ 
       id, 
       username, 
@@ -246,7 +866,10 @@ export function setupAuth(app: Express) {
       emailVerified, 
       hobbies, 
       interests, 
-      currentActivities 
+      currentActivities,
+      isAdmin
     });
   });
+
+  return sessionMiddleware;
 }
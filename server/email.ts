@@ -107,4 +107,62 @@ export async function sendVerificationEmail(email: string, username: string, tok
   };
 
   return sendEmail(emailOptions);
-}
\ No newline at end of file
+}
+/**
+ * Send a password reset link to a user
+ */
+export async function sendPasswordResetEmail(email: string, username: string, token: string): Promise<boolean> {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+  const resetUrl = `${baseUrl}/auth?reset=${token}`;
+  
+  const emailOptions: EmailOptions = {
+    to: email,
+    subject: 'Reset your password - TribalVerse',
+    text: `Hi ${username},\n\nWe received a request to reset your TribalVerse password. Use the link below to choose a new one:\n\n${resetUrl}\n\nThis link will expire in 1 hour and can only be used once. If you didn't ask to reset your password, you can ignore this email.\n\nThank you,\nThe TribalVerse Team`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4a5568;">Reset your TribalVerse password</h2>
+        <p>Hi ${username},</p>
+        <p>We received a request to reset your password. Click the button below to choose a new one:</p>
+        <p style="margin: 20px 0;">
+          <a href="${resetUrl}" style="background-color: #6366f1; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Reset Password</a>
+        </p>
+        <p>Or copy and paste this link in your browser:</p>
+        <p style="color: #718096; word-break: break-all;">
+          ${resetUrl}
+        </p>
+        <p>This link will expire in 1 hour and can only be used once. If you didn't ask to reset your password, you can ignore this email.</p>
+        <p>Thank you,<br>The TribalVerse Team</p>
+      </div>
+    `,
+  };
+
+  return sendEmail(emailOptions);
+}
+
+/**
+ * Let a user know their account was locked after repeated failed sign-ins
+ */
+export async function sendAccountLockedEmail(email: string, username: string, lockedUntil: Date): Promise<boolean> {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+  const resetUrl = `${baseUrl}/auth`;
+  const until = lockedUntil.toUTCString();
+  
+  const emailOptions: EmailOptions = {
+    to: email,
+    subject: 'Sign-in temporarily locked - TribalVerse',
+    text: `Hi ${username},\n\nThere were several failed attempts to sign in to your TribalVerse account, so we've paused sign-ins until ${until}.\n\nIf this was you, you can try again after that time or reset your password at ${resetUrl}. If it wasn't you, your password is still safe, but we recommend choosing a stronger one and turning on two-factor authentication.\n\nThank you,\nThe TribalVerse Team`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4a5568;">Sign-in temporarily locked</h2>
+        <p>Hi ${username},</p>
+        <p>There were several failed attempts to sign in to your TribalVerse account, so we've paused sign-ins until <strong>${until}</strong>.</p>
+        <p>If this was you, you can try again after that time or <a href="${resetUrl}">reset your password</a>.</p>
+        <p>If it wasn't you, your password is still safe, but we recommend choosing a stronger one and turning on two-factor authentication.</p>
+        <p>Thank you,<br>The TribalVerse Team</p>
+      </div>
+    `,
+  };
+
+  return sendEmail(emailOptions);
+}
@@ -0,0 +1,147 @@
+type ThrottleRule = {
+  // Failures allowed within the window before the key is locked out
+  maxFailures: number;
+  windowMs: number;
+  // From this many failures on, each further attempt waits 1s, 2s, 4s...
+  backoffAfter: number;
+  // Lockouts double in length each time, up to the maximum
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+};
+
+type ThrottleState = {
+  // Timestamps of recent failures, oldest first
+  failures: number[];
+  lockouts: number;
+  lastLockoutAt: number;
+  blockedUntil: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Lockouts are forgotten after a quiet day, so the next one starts short again
+const LOCKOUT_MEMORY_MS = 24 * HOUR_MS;
+
+// Failed sign-ins for one username, from anywhere
+const USERNAME_RULE: ThrottleRule = {
+  maxFailures: 5,
+  windowMs: 15 * MINUTE_MS,
+  backoffAfter: 3,
+  baseLockoutMs: 15 * MINUTE_MS,
+  maxLockoutMs: 24 * HOUR_MS,
+};
+
+// Failed sign-ins from one IP, across usernames. Looser, since many people
+// can share an address.
+const IP_RULE: ThrottleRule = {
+  maxFailures: 50,
+  windowMs: 15 * MINUTE_MS,
+  backoffAfter: 20,
+  baseLockoutMs: 15 * MINUTE_MS,
+  maxLockoutMs: 24 * HOUR_MS,
+};
+
+// Every sign-up attempt from one IP counts, successful or not
+const REGISTRATION_RULE: ThrottleRule = {
+  maxFailures: 10,
+  windowMs: HOUR_MS,
+  backoffAfter: 10,
+  baseLockoutMs: HOUR_MS,
+  maxLockoutMs: 24 * HOUR_MS,
+};
+
+const throttles = new Map<string, ThrottleState>();
+
+function getRetryAfterMs(key: string, now: number): number {
+  const state = throttles.get(key);
+  return state ? Math.max(0, state.blockedUntil - now) : 0;
+}
+
+/**
+ * Count a failure against a key. Returns true if it locked the key out.
+ */
+function recordFailure(rule: ThrottleRule, key: string, now: number): boolean {
+  const state = throttles.get(key) ?? { failures: [], lockouts: 0, lastLockoutAt: 0, blockedUntil: 0 };
+  throttles.set(key, state);
+
+  state.failures = state.failures.filter((time) => now - time < rule.windowMs);
+  state.failures.push(now);
+
+  if (state.lockouts > 0 && now - state.lastLockoutAt > LOCKOUT_MEMORY_MS) {
+    state.lockouts = 0;
+  }
+
+  if (state.failures.length >= rule.maxFailures) {
+    state.lockouts += 1;
+    state.lastLockoutAt = now;
+    state.blockedUntil = now + Math.min(rule.baseLockoutMs * 2 ** (state.lockouts - 1), rule.maxLockoutMs);
+    state.failures = [];
+    return true;
+  }
+
+  if (state.failures.length >= rule.backoffAfter) {
+    state.blockedUntil = now + 1000 * 2 ** (state.failures.length - rule.backoffAfter);
+  }
+  return false;
+}
+
+function usernameKey(username: string) {
+  return `login:user:${username.trim().toLowerCase()}`;
+}
+
+/**
+ * How long until a sign-in for this username from this IP may be tried,
+ * or 0 if it can be tried now
+ */
+export function getLoginRetryAfterMs(ip: string, username: string, now = Date.now()): number {
+  return Math.max(
+    getRetryAfterMs(`login:ip:${ip}`, now),
+    getRetryAfterMs(usernameKey(username), now)
+  );
+}
+
+/**
+ * Count a failed sign-in. Returns when the username's lockout ends if this
+ * failure started one, so the account owner can be told.
+ */
+export function recordLoginFailure(ip: string, username: string, now = Date.now()): { lockedUntil: Date | null } {
+  recordFailure(IP_RULE, `login:ip:${ip}`, now);
+  const locked = recordFailure(USERNAME_RULE, usernameKey(username), now);
+
+  return { lockedUntil: locked ? new Date(getRetryAfterMs(usernameKey(username), now) + now) : null };
+}
+
+/**
+ * Forget a username's failures after a successful sign-in. Failures from the
+ * IP are kept, so one working account can't be used to reset them.
+ */
+export function clearLoginFailures(username: string) {
+  throttles.delete(usernameKey(username));
+}
+
+/**
+ * How long until this IP may try to sign up again, or 0 if it can now
+ */
+export function getRegistrationRetryAfterMs(ip: string, now = Date.now()): number {
+  return getRetryAfterMs(`register:ip:${ip}`, now);
+}
+
+export function recordRegistrationAttempt(ip: string, now = Date.now()) {
+  recordFailure(REGISTRATION_RULE, `register:ip:${ip}`, now);
+}
+
+// Drop entries that are neither blocked nor holding recent failures or lockouts
+setInterval(() => {
+  const now = Date.now();
+  throttles.forEach((state, key) => {
+    const lastFailure = state.failures[state.failures.length - 1] ?? 0;
+    if (
+      state.blockedUntil <= now &&
+      now - lastFailure > REGISTRATION_RULE.windowMs &&
+      now - state.lastLockoutAt > LOCKOUT_MEMORY_MS
+    ) {
+      throttles.delete(key);
+    }
+  });
+}, 10 * MINUTE_MS);
@@ -0,0 +1,107 @@
+import { afterEach, before, describe, it, mock, type Mock } from "node:test";
+import assert from "node:assert/strict";
+import type { ModerationScores, ModerationVerdict, Report } from "@shared/schema";
+
+// The storage module connects lazily, but refuses to load without a URL.
+// Writes are replaced below, so nothing here reaches a database.
+process.env.DATABASE_URL ??= "postgres://moderation-test@localhost:5432/unused";
+
+const { stubClassifier, assessRisk, moderateContent } = await import("./moderation");
+const { storage } = await import("./storage");
+
+const clean: ModerationScores = { toxicity: 0, harassment: 0, spam: 0, self_harm: 0 };
+
+describe("stubClassifier", () => {
+  it("scores content without any signals as clean", async () => {
+    assert.deepEqual(await stubClassifier.classify("Anyone up for the study group tonight?"), clean);
+  });
+
+  it("scores one matching phrase as medium and two as high", async () => {
+    assert.equal((await stubClassifier.classify("Click here for the notes")).spam, 0.6);
+    assert.equal((await stubClassifier.classify("Shut up, you idiot")).toxicity, 0.9);
+  });
+
+  it("scores each category on its own", async () => {
+    const scores = await stubClassifier.classify("I know where you live. Buy now!");
+
+    assert.deepEqual(scores, { toxicity: 0, harassment: 0.6, spam: 0.6, self_harm: 0 });
+  });
+
+  it("gives the same scores for the same text", async () => {
+    const text = "nobody likes you, loser";
+
+    assert.deepEqual(await stubClassifier.classify(text), await stubClassifier.classify(text));
+  });
+});
+
+describe("assessRisk", () => {
+  it("rates content by its highest-scoring category", () => {
+    assert.deepEqual(assessRisk({ ...clean, spam: 0.3, self_harm: 0.7 }), { riskLevel: "medium", category: "self_harm" });
+  });
+
+  it("uses the medium and high thresholds inclusively", () => {
+    assert.equal(assessRisk({ ...clean, toxicity: 0.49 }).riskLevel, "low");
+    assert.equal(assessRisk({ ...clean, toxicity: 0.5 }).riskLevel, "medium");
+    assert.equal(assessRisk({ ...clean, toxicity: 0.85 }).riskLevel, "high");
+  });
+});
+
+describe("moderateContent with the stub classifier", () => {
+  const target = { entityType: "post" as const, entityId: 12, authorId: 3 };
+  let setContentHeld: Mock<typeof storage.setContentHeld>;
+  let createModerationVerdict: Mock<typeof storage.createModerationVerdict>;
+  let createReport: Mock<typeof storage.createReport>;
+
+  before(() => {
+    setContentHeld = mock.method(storage, "setContentHeld", async () => true);
+    createModerationVerdict = mock.method(storage, "createModerationVerdict", async (verdict) => ({ ...verdict, id: 1 }) as ModerationVerdict);
+    createReport = mock.method(storage, "createReport", async () => ({ id: 1 }) as Report);
+  });
+
+  afterEach(() => {
+    setContentHeld.mock.resetCalls();
+    createModerationVerdict.mock.resetCalls();
+    createReport.mock.resetCalls();
+  });
+
+  it("holds high-risk content and queues it for review", async () => {
+    const verdict = await moderateContent({ ...target, content: "I want to die, I'll hurt myself" }, stubClassifier);
+
+    assert.equal(verdict?.action, "held");
+    assert.equal(verdict?.riskLevel, "high");
+    assert.deepEqual(setContentHeld.mock.calls[0].arguments, ["post", 12, true]);
+
+    const [reporterId, report, reported] = createReport.mock.calls[0].arguments;
+    assert.equal(reporterId, null);
+    assert.equal(report.reason, "self_harm");
+    assert.match(report.details ?? "", /^Held by automated moderation \(stub\): self harm scored 0\.90/);
+    assert.deepEqual(reported, { userId: 3, content: "I want to die, I'll hurt myself" });
+  });
+
+  it("records medium-risk content without holding it", async () => {
+    const verdict = await moderateContent({ ...target, content: "Free money for everyone" }, stubClassifier);
+
+    assert.equal(verdict?.action, "none");
+    assert.equal(verdict?.riskLevel, "medium");
+    assert.equal(verdict?.classifier, "stub");
+    assert.equal(setContentHeld.mock.callCount(), 0);
+    assert.equal(createReport.mock.callCount(), 0);
+  });
+
+  it("does nothing when moderation is off or the content is blank", async () => {
+    assert.equal(await moderateContent({ ...target, content: "you idiot" }, null), undefined);
+    assert.equal(await moderateContent({ ...target, content: "   " }, stubClassifier), undefined);
+    assert.equal(createModerationVerdict.mock.callCount(), 0);
+  });
+
+  it("leaves content alone when the classifier fails", async () => {
+    const failing = { name: "failing", classify: async () => { throw new Error("classifier down"); } };
+    const consoleError = mock.method(console, "error", () => {});
+    try {
+      assert.equal(await moderateContent({ ...target, content: "hello" }, failing), undefined);
+    } finally {
+      consoleError.mock.restore();
+    }
+    assert.equal(createModerationVerdict.mock.callCount(), 0);
+  });
+});
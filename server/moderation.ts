@@ -0,0 +1,136 @@
+import { moderationCategories } from "@shared/schema";
+import type {
+  ModerationCategory, ModerationScores, ModerationRiskLevel, ModeratedEntityType,
+  ModerationVerdict, ReportReason
+} from "@shared/schema";
+import { classifyContent } from "./anthropic";
+import { storage } from "./storage";
+
+export interface ContentClassifier {
+  name: string;
+  classify(content: string): Promise<ModerationScores>;
+}
+
+export type ModerationTarget = {
+  entityType: ModeratedEntityType;
+  entityId: number;
+  authorId: number;
+  content: string;
+};
+
+// A category score at or above these marks content as medium or high risk
+const MEDIUM_RISK_SCORE = 0.5;
+const HIGH_RISK_SCORE = 0.85;
+
+// Held content is queued for review as a report with the closest reason
+const CATEGORY_REPORT_REASONS: Record<ModerationCategory, ReportReason> = {
+  toxicity: "hate_speech",
+  harassment: "harassment",
+  spam: "spam",
+  self_harm: "self_harm",
+};
+
+// Phrases the offline classifier treats as signals for each category
+const STUB_PATTERNS: Record<ModerationCategory, RegExp[]> = {
+  toxicity: [/\b(idiot|moron|loser|scum)\b/i, /\bshut up\b/i],
+  harassment: [/\b(kill|hurt|find) you\b/i, /\bi know where you live\b/i, /\bnobody (likes|wants) you\b/i],
+  spam: [/\b(buy now|click here|free money|limited offer)\b/i, /(https?:\/\/\S+[\s\S]*){3}/i],
+  self_harm: [/\b(kill|hurt|cut) myself\b/i, /\bwant to die\b/i],
+};
+
+/**
+ * Deterministic classifier for running moderation offline. One matching
+ * phrase scores a category 0.6 (medium risk) and two or more score it 0.9
+ * (high risk), so results only depend on the text.
+ */
+export const stubClassifier: ContentClassifier = {
+  name: "stub",
+  async classify(content) {
+    const scores = {} as ModerationScores;
+    for (const category of moderationCategories) {
+      const matches = STUB_PATTERNS[category].filter((pattern) => pattern.test(content)).length;
+      scores[category] = matches === 0 ? 0 : matches === 1 ? 0.6 : 0.9;
+    }
+    return scores;
+  },
+};
+
+export const anthropicClassifier: ContentClassifier = {
+  name: "anthropic",
+  classify: classifyContent,
+};
+
+/**
+ * The classifier picked by MODERATION_CLASSIFIER ("anthropic" or "stub"), or
+ * null when moderation is switched off
+ */
+export function getContentClassifier(): ContentClassifier | null {
+  switch (process.env.MODERATION_CLASSIFIER) {
+    case "anthropic":
+      return anthropicClassifier;
+    case "stub":
+      return stubClassifier;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rate content by its highest-scoring category
+ */
+export function assessRisk(scores: ModerationScores): { riskLevel: ModerationRiskLevel; category: ModerationCategory } {
+  const category = moderationCategories.reduce((top, current) =>
+    scores[current] > scores[top] ? current : top
+  );
+  const score = scores[category];
+  const riskLevel = score >= HIGH_RISK_SCORE ? "high" : score >= MEDIUM_RISK_SCORE ? "medium" : "low";
+
+  return { riskLevel, category };
+}
+
+/**
+ * Classify a post, comment or message and record the verdict. High-risk
+ * content is held and queued for admin review. Classifier failures are
+ * logged and leave the content as it is.
+ */
+export async function moderateContent(
+  target: ModerationTarget,
+  classifier: ContentClassifier | null = getContentClassifier()
+): Promise<ModerationVerdict | undefined> {
+  if (!classifier || !target.content.trim()) {
+    return undefined;
+  }
+
+  let scores: ModerationScores;
+  try {
+    scores = await classifier.classify(target.content);
+  } catch (error) {
+    console.error("Error classifying content for moderation:", error);
+    return undefined;
+  }
+
+  const { riskLevel, category } = assessRisk(scores);
+  const held = riskLevel === "high"
+    && await storage.setContentHeld(target.entityType, target.entityId, true);
+
+  const verdict = await storage.createModerationVerdict({
+    entityType: target.entityType,
+    entityId: target.entityId,
+    authorId: target.authorId,
+    classifier: classifier.name,
+    scores,
+    riskLevel,
+    action: held ? "held" : "none",
+  });
+
+  if (held) {
+    await storage.createReport(null, {
+      entityType: target.entityType,
+      entityId: target.entityId,
+      reason: CATEGORY_REPORT_REASONS[category],
+      details: `Held by automated moderation (${classifier.name}): ${category.replace("_", " ")} scored ${scores[category].toFixed(2)}`,
+    }, { userId: target.authorId, content: target.content });
+  }
+
+  return verdict;
+}
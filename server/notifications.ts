@@ -0,0 +1,108 @@
+import WebSocket from "ws";
+import { eq } from "drizzle-orm";
+import { users } from "@shared/schema";
+import type { Notification, NotificationWithActor } from "@shared/schema";
+import { db } from "./db";
+
+// Map user IDs to their open WebSocket connections
+const userSockets = new Map<number, Set<WebSocket>>();
+// The login session each socket was opened from
+const socketSessions = new Map<WebSocket, string>();
+
+export function registerUserSocket(userId: number, ws: WebSocket, sessionId: string) {
+  if (!userSockets.has(userId)) {
+    userSockets.set(userId, new Set());
+  }
+  userSockets.get(userId)!.add(ws);
+  socketSessions.set(ws, sessionId);
+}
+
+export function unregisterUserSocket(userId: number, ws: WebSocket) {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return;
+
+  sockets.delete(ws);
+  socketSessions.delete(ws);
+  if (sockets.size === 0) {
+    userSockets.delete(userId);
+  }
+}
+
+/**
+ * Send a payload to every open socket belonging to a user
+ */
+export function sendToUser(userId: number, payload: Record<string, unknown>) {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return;
+
+  const serialized = JSON.stringify(payload);
+  sockets.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(serialized);
+    }
+  });
+}
+
+/**
+ * Close every open socket belonging to a user, e.g. when their account is
+ * suspended, optionally sparing those opened from one session. Each socket's
+ * close handler cleans up its registrations.
+ */
+export function closeUserSockets(userId: number, code: number, reason: string, keepSessionId?: string) {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return;
+
+  Array.from(sockets)
+    .filter((ws) => !keepSessionId || socketSessions.get(ws) !== keepSessionId)
+    .forEach((ws) => ws.close(code, reason));
+}
+
+/**
+ * Close the sockets a user opened from one login session, once it is revoked
+ */
+export function closeSessionSockets(userId: number, sessionId: string, code: number, reason: string) {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return;
+
+  Array.from(sockets)
+    .filter((ws) => socketSessions.get(ws) === sessionId)
+    .forEach((ws) => ws.close(code, reason));
+}
+
+/**
+ * Push a newly created notification to its recipient, including a summary
+ * of the user who triggered it
+ */
+export async function dispatchNotification(notification: Notification): Promise<void> {
+  // Skip the actor lookup when the recipient has no open sockets
+  if (!userSockets.has(notification.userId)) {
+    return;
+  }
+
+  try {
+    let actor: NotificationWithActor["actor"] = null;
+    if (notification.actorId) {
+      const [actorUser] = await db
+        .select({
+          id: users.id,
+          username: users.username,
+          profilePicture: users.profilePicture
+        })
+        .from(users)
+        .where(eq(users.id, notification.actorId));
+      actor = actorUser || null;
+    }
+
+    const notificationWithActor: NotificationWithActor = {
+      ...notification,
+      actor
+    };
+
+    sendToUser(notification.userId, {
+      type: 'notification',
+      notification: notificationWithActor
+    });
+  } catch (error) {
+    console.error("Error dispatching notification:", error);
+  }
+}
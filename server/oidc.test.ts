@@ -0,0 +1,351 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { createHash, createSign, generateKeyPairSync, type KeyObject } from "crypto";
+import type { Request } from "express";
+import type { SessionData } from "express-session";
+import { OidcClient, OidcStrategy, type OidcClaims, type OidcConfig } from "./oidc";
+
+type SigningKey = { kid: string; alg: string; privateKey: KeyObject; jwk: Record<string, unknown> };
+
+function createSigningKey(kid: string, alg: "ES256" | "RS256"): SigningKey {
+  const { privateKey, publicKey } = alg === "ES256"
+    ? generateKeyPairSync("ec", { namedCurve: "P-256" })
+    : generateKeyPairSync("rsa", { modulusLength: 2048 });
+  return { kid, alg, privateKey, jwk: { ...publicKey.export({ format: "jwk" }), kid, use: "sig" } };
+}
+
+function signToken(key: SigningKey, payload: Record<string, unknown>) {
+  const header = Buffer.from(JSON.stringify({ alg: key.alg, kid: key.kid })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createSign("sha256")
+    .update(`${header}.${body}`)
+    .sign(key.alg === "ES256" ? { key: key.privateKey, dsaEncoding: "ieee-p1363" } : key.privateKey)
+    .toString("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * A local OpenID Connect issuer. Each test sets what the next token response
+ * contains; the issuer records the token requests it receives.
+ */
+class MockIssuer {
+  issuer = "";
+  keys: SigningKey[] = [createSigningKey("es-key", "ES256")];
+  signingKey = this.keys[0];
+  idTokenClaims: (nonce: string) => Record<string, unknown> = () => ({});
+  userinfo: Record<string, unknown> | null = null;
+  advertisedIssuer: string | null = null;
+  tokenRequests: { authorization?: string; body: URLSearchParams }[] = [];
+  jwksRequests = 0;
+  // The nonce the client sent with its latest authorization request
+  nonce = "";
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (body: unknown, status = 200) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    switch (req.url) {
+      case "/.well-known/openid-configuration":
+        return send({
+          issuer: this.advertisedIssuer ?? this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize?prompt=login`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+          userinfo_endpoint: `${this.issuer}/userinfo`,
+        });
+      case "/jwks":
+        this.jwksRequests += 1;
+        return send({ keys: this.keys.map((key) => key.jwk) });
+      case "/userinfo":
+        return this.userinfo && req.headers.authorization === "Bearer access-token"
+          ? send(this.userinfo)
+          : send({ error: "invalid_token" }, 401);
+      case "/token": {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          this.tokenRequests.push({ authorization: req.headers.authorization, body: new URLSearchParams(body) });
+          send({
+            access_token: "access-token",
+            token_type: "Bearer",
+            id_token: signToken(this.signingKey, this.idTokenClaims(this.nonce)),
+          });
+        });
+        return;
+      }
+      default:
+        return send({ error: "not_found" }, 404);
+    }
+  }
+}
+
+function validClaims(issuer: MockIssuer, overrides: Record<string, unknown> = {}) {
+  return (nonce: string) => ({
+    iss: issuer.issuer,
+    aud: "tribalverse",
+    sub: "student-42",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    iat: Math.floor(Date.now() / 1000),
+    nonce,
+    email: "student@uni.edu",
+    email_verified: true,
+    preferred_username: "student",
+    ...overrides,
+  });
+}
+
+describe("OIDC sign-in against a local issuer", () => {
+  const issuer = new MockIssuer();
+  let config: OidcConfig;
+
+  // Start a sign-in the way the strategy does and return what the session keeps
+  async function authorize(client: OidcClient) {
+    const request = await client.createAuthorizationRequest();
+    issuer.nonce = request.pending.nonce;
+    return request;
+  }
+
+  before(async () => {
+    await issuer.start();
+    config = {
+      issuer: issuer.issuer,
+      clientId: "tribalverse",
+      clientSecret: "s3cret",
+      redirectUri: "http://localhost:5000/api/auth/oidc/callback",
+      scopes: "openid email profile",
+      displayName: "State University",
+    };
+  });
+
+  after(() => issuer.stop());
+
+  it("builds an authorization URL with state, nonce and a PKCE challenge", async () => {
+    const { url, pending } = await authorize(new OidcClient(config));
+    const params = new URL(url).searchParams;
+
+    assert.equal(params.get("prompt"), "login");
+    assert.equal(params.get("response_type"), "code");
+    assert.equal(params.get("client_id"), "tribalverse");
+    assert.equal(params.get("redirect_uri"), config.redirectUri);
+    assert.equal(params.get("state"), pending.state);
+    assert.equal(params.get("nonce"), pending.nonce);
+    assert.equal(params.get("code_challenge_method"), "S256");
+    assert.equal(
+      params.get("code_challenge"),
+      createHash("sha256").update(pending.codeVerifier).digest("base64url")
+    );
+  });
+
+  it("exchanges the code and returns the verified claims", async () => {
+    issuer.idTokenClaims = validClaims(issuer);
+    const client = new OidcClient(config);
+    const { pending } = await authorize(client);
+
+    const claims = await client.completeAuthorization("the-code", pending.nonce, pending.codeVerifier);
+
+    assert.deepEqual(claims, {
+      sub: "student-42",
+      email: "student@uni.edu",
+      email_verified: true,
+      preferred_username: "student",
+      name: undefined,
+    });
+
+    const tokenRequest = issuer.tokenRequests[issuer.tokenRequests.length - 1];
+    assert.equal(tokenRequest.authorization, `Basic ${Buffer.from("tribalverse:s3cret").toString("base64")}`);
+    assert.equal(tokenRequest.body.get("grant_type"), "authorization_code");
+    assert.equal(tokenRequest.body.get("code"), "the-code");
+    assert.equal(tokenRequest.body.get("code_verifier"), pending.codeVerifier);
+  });
+
+  it("accepts RS256 tokens and refetches keys after the issuer rotates them", async () => {
+    const client = new OidcClient(config);
+    issuer.idTokenClaims = validClaims(issuer);
+    const first = await authorize(client);
+    await client.completeAuthorization("code", first.pending.nonce, first.pending.codeVerifier);
+    const jwksRequests = issuer.jwksRequests;
+
+    const rotated = createSigningKey("rsa-key", "RS256");
+    issuer.keys = [...issuer.keys, rotated];
+    issuer.signingKey = rotated;
+    try {
+      const second = await authorize(client);
+      const claims = await client.completeAuthorization("code", second.pending.nonce, second.pending.codeVerifier);
+
+      assert.equal(claims.sub, "student-42");
+      assert.equal(issuer.jwksRequests, jwksRequests + 1);
+    } finally {
+      issuer.keys = issuer.keys.slice(0, 1);
+      issuer.signingKey = issuer.keys[0];
+    }
+  });
+
+  it("reads the email from userinfo when the ID token leaves it out", async () => {
+    issuer.idTokenClaims = validClaims(issuer, { email: undefined, email_verified: undefined });
+    issuer.userinfo = { sub: "student-42", email: "student@uni.edu", email_verified: true };
+    try {
+      const client = new OidcClient(config);
+      const { pending } = await authorize(client);
+      const claims = await client.completeAuthorization("code", pending.nonce, pending.codeVerifier);
+
+      assert.equal(claims.email, "student@uni.edu");
+      assert.equal(claims.email_verified, true);
+    } finally {
+      issuer.userinfo = null;
+    }
+  });
+
+  it("ignores userinfo that describes a different user", async () => {
+    issuer.idTokenClaims = validClaims(issuer, { email: undefined, email_verified: undefined });
+    issuer.userinfo = { sub: "someone-else", email: "other@uni.edu", email_verified: true };
+    try {
+      const client = new OidcClient(config);
+      const { pending } = await authorize(client);
+      const claims = await client.completeAuthorization("code", pending.nonce, pending.codeVerifier);
+
+      assert.equal(claims.email, undefined);
+    } finally {
+      issuer.userinfo = null;
+    }
+  });
+
+  const rejected: [string, Record<string, unknown>, RegExp][] = [
+    ["a different issuer", { iss: "https://evil.example" }, /wrong issuer/],
+    ["a different client", { aud: "someone-else" }, /different client/],
+    ["several audiences without us as azp", { aud: ["tribalverse", "other"], azp: "other" }, /different client/],
+    ["an expired token", { exp: Math.floor(Date.now() / 1000) - 3600 }, /expired/],
+    ["a replayed nonce", { nonce: "stale-nonce" }, /nonce/],
+  ];
+
+  for (const [description, overrides, error] of rejected) {
+    it(`rejects an ID token with ${description}`, async () => {
+      issuer.idTokenClaims = validClaims(issuer, overrides);
+      const client = new OidcClient(config);
+      const { pending } = await authorize(client);
+
+      await assert.rejects(
+        client.completeAuthorization("code", pending.nonce, pending.codeVerifier),
+        error
+      );
+    });
+  }
+
+  it("rejects an ID token signed with a key the issuer doesn't publish", async () => {
+    issuer.idTokenClaims = validClaims(issuer);
+    const published = issuer.signingKey;
+    // Same kid, different private key
+    issuer.signingKey = { ...createSigningKey("es-key", "ES256"), jwk: published.jwk };
+    try {
+      const client = new OidcClient(config);
+      const { pending } = await authorize(client);
+
+      await assert.rejects(
+        client.completeAuthorization("code", pending.nonce, pending.codeVerifier),
+        /signature/
+      );
+    } finally {
+      issuer.signingKey = published;
+    }
+  });
+
+  it("refuses a provider whose discovery document names another issuer", async () => {
+    issuer.advertisedIssuer = "https://evil.example";
+    try {
+      await assert.rejects(new OidcClient(config).createAuthorizationRequest(), /issuer mismatch/);
+    } finally {
+      issuer.advertisedIssuer = null;
+    }
+  });
+
+  describe("OidcStrategy", () => {
+    type Outcome = { redirect?: string; fail?: unknown; success?: Express.User; error?: unknown };
+
+    // Reports how each authentication attempt finished instead of handing
+    // the result to passport
+    class RecordingStrategy extends OidcStrategy {
+      onOutcome: (outcome: Outcome) => void = () => {};
+
+      redirect(url: string) {
+        this.onOutcome({ redirect: url });
+      }
+
+      fail(info?: unknown) {
+        this.onOutcome({ fail: info });
+      }
+
+      success(user: Express.User) {
+        this.onOutcome({ success: user });
+      }
+
+      error(err: unknown) {
+        this.onOutcome({ error: err });
+      }
+    }
+
+    // A request carrying just what the strategy reads
+    function fakeRequest(query: Request["query"], session: Partial<SessionData> = {}): Partial<Request> {
+      return { query, session: session as Request["session"] };
+    }
+
+    // Run the strategy the way passport does, resolving with how it finished
+    function run(strategy: RecordingStrategy, req: Partial<Request>) {
+      return new Promise<Outcome>((resolve) => {
+        strategy.onOutcome = resolve;
+        strategy.authenticate(req as Request);
+      });
+    }
+
+    it("redirects to the issuer, then signs in the user it comes back with", async () => {
+      issuer.idTokenClaims = validClaims(issuer);
+      const verified: OidcClaims[] = [];
+      const strategy = new RecordingStrategy(config, (claims, done) => {
+        verified.push(claims);
+        done(null, { id: 7 } as Express.User);
+      });
+      const session: Partial<SessionData> = {};
+
+      const start = await run(strategy, fakeRequest({}, session));
+      const state = new URL(start.redirect!).searchParams.get("state") ?? "";
+      issuer.nonce = session.oidc!.nonce;
+
+      const finish = await run(strategy, fakeRequest({ code: "code", state }, session));
+
+      assert.deepEqual(finish, { success: { id: 7 } });
+      assert.equal(verified[0].sub, "student-42");
+      assert.equal(session.oidc, undefined);
+    });
+
+    it("fails a callback whose state doesn't match the session", async () => {
+      const strategy = new RecordingStrategy(config, () => assert.fail("verify should not run"));
+      const session: Partial<SessionData> = {};
+
+      await run(strategy, fakeRequest({}, session));
+      const finish = await run(strategy, fakeRequest({ code: "code", state: "forged" }, session));
+
+      assert.ok(finish.fail);
+      assert.equal(session.oidc, undefined);
+    });
+
+    it("fails when the provider reports an error", async () => {
+      const strategy = new RecordingStrategy(config, () => assert.fail("verify should not run"));
+
+      const finish = await run(strategy, fakeRequest({ error: "access_denied" }));
+
+      assert.ok(finish.fail);
+    });
+  });
+});
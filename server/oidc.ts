@@ -0,0 +1,320 @@
+import passport from "passport";
+import type { Request } from "express";
+import { createHash, createPublicKey, randomBytes, timingSafeEqual, verify, type JsonWebKey } from "crypto";
+
+declare module "express-session" {
+  interface SessionData {
+    // Set when a sign-in is sent to the identity provider, checked on the way back
+    oidc?: {
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+    };
+  }
+}
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  // Shown on the sign-in button
+  displayName: string;
+};
+
+// The ID token and userinfo claims we use
+export type OidcClaims = {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  preferred_username?: string;
+  name?: string;
+};
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+type VerifyDone = (err: any, user?: Express.User | false, info?: { message: string }) => void;
+export type OidcVerifyFunction = (claims: OidcClaims, done: VerifyDone) => void;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Allowed difference between our clock and the provider's
+const CLOCK_SKEW_SECONDS = 60;
+
+// JWS algorithms accepted for ID token signatures
+const SIGNING_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", dsaEncoding: "ieee-p1363" },
+};
+
+/**
+ * The provider configured by OIDC_ISSUER, OIDC_CLIENT_ID and
+ * OIDC_CLIENT_SECRET, or null when single sign-on is switched off
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env;
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) {
+    return null;
+  }
+
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+  return {
+    issuer: OIDC_ISSUER,
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: OIDC_CLIENT_SECRET,
+    redirectUri: `${baseUrl}/api/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    displayName: process.env.OIDC_DISPLAY_NAME || "University sign-in",
+  };
+}
+
+function randomToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+function safeEqual(a: string, b: string) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!res.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+/**
+ * Talks to one OpenID Connect provider using the authorization code flow
+ * with PKCE. Discovery and signing keys are fetched on first use and cached.
+ */
+export class OidcClient {
+  private metadata: Promise<ProviderMetadata> | null = null;
+  private signingKeys: JsonWebKey[] = [];
+
+  constructor(readonly config: OidcConfig) {}
+
+  private discover(): Promise<ProviderMetadata> {
+    if (!this.metadata) {
+      const url = `${this.config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      this.metadata = fetchJson<ProviderMetadata>(url).then((metadata) => {
+        if (metadata.issuer !== this.config.issuer) {
+          throw new Error(`OIDC issuer mismatch: expected ${this.config.issuer}, got ${metadata.issuer}`);
+        }
+        return metadata;
+      });
+      // Try again on the next sign-in rather than caching a failure
+      this.metadata.catch(() => {
+        this.metadata = null;
+      });
+    }
+    return this.metadata;
+  }
+
+  private async getSigningKey(metadata: ProviderMetadata, kid?: string): Promise<JsonWebKey> {
+    const find = () => this.signingKeys.find((key) => !kid || key.kid === kid);
+
+    // Providers rotate keys, so refetch once when the key isn't known yet
+    if (!find()) {
+      const { keys } = await fetchJson<{ keys: JsonWebKey[] }>(metadata.jwks_uri);
+      this.signingKeys = keys.filter((key) => !key.use || key.use === "sig");
+    }
+
+    const key = find();
+    if (!key) {
+      throw new Error(`No OIDC signing key found for kid ${kid}`);
+    }
+    return key;
+  }
+
+  /**
+   * Where to send the browser to sign in, with the values to keep in the
+   * session for checking the response
+   */
+  async createAuthorizationRequest() {
+    const metadata = await this.discover();
+    const pending = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+    const codeChallenge = createHash("sha256").update(pending.codeVerifier).digest("base64url");
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("redirect_uri", this.config.redirectUri);
+    url.searchParams.set("scope", this.config.scopes);
+    url.searchParams.set("state", pending.state);
+    url.searchParams.set("nonce", pending.nonce);
+    url.searchParams.set("code_challenge", codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+
+    return { url: url.toString(), pending };
+  }
+
+  /**
+   * Exchange the authorization code for tokens and return the verified
+   * claims about the user
+   */
+  async completeAuthorization(code: string, nonce: string, codeVerifier: string): Promise<OidcClaims> {
+    const metadata = await this.discover();
+    const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+
+    const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(metadata.token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(credentials).toString("base64")}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: this.config.redirectUri,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+
+    if (!tokens.id_token) {
+      throw new Error("OIDC token response did not include an ID token");
+    }
+
+    const claims = await this.verifyIdToken(metadata, tokens.id_token, nonce);
+
+    // Some providers only return the email from the userinfo endpoint
+    if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+      const userinfo = await fetchJson<OidcClaims>(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userinfo.sub === claims.sub) {
+        claims.email = userinfo.email;
+        claims.email_verified = userinfo.email_verified;
+        claims.preferred_username = claims.preferred_username ?? userinfo.preferred_username;
+      }
+    }
+
+    return claims;
+  }
+
+  private async verifyIdToken(metadata: ProviderMetadata, idToken: string, nonce: string): Promise<OidcClaims> {
+    const [encodedHeader, encodedPayload, signature] = idToken.split(".");
+    if (!encodedHeader || !encodedPayload || !signature) {
+      throw new Error("Malformed OIDC ID token");
+    }
+
+    const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+    const algorithm = SIGNING_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new Error(`Unsupported OIDC ID token algorithm ${header.alg}`);
+    }
+
+    const key = createPublicKey({ key: await this.getSigningKey(metadata, header.kid), format: "jwk" });
+    const valid = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      Buffer.from(signature, "base64url")
+    );
+    if (!valid) {
+      throw new Error("Invalid OIDC ID token signature");
+    }
+
+    const claims = decodeSegment<OidcClaims & {
+      iss: string;
+      aud: string | string[];
+      azp?: string;
+      exp: number;
+      nonce?: string;
+    }>(encodedPayload);
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== metadata.issuer) {
+      throw new Error("OIDC ID token has the wrong issuer");
+    }
+    if (!audiences.includes(this.config.clientId) || (audiences.length > 1 && claims.azp !== this.config.clientId)) {
+      throw new Error("OIDC ID token was issued to a different client");
+    }
+    if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new Error("OIDC ID token has expired");
+    }
+    if (!claims.nonce || !safeEqual(claims.nonce, nonce)) {
+      throw new Error("OIDC ID token nonce does not match");
+    }
+    if (!claims.sub) {
+      throw new Error("OIDC ID token has no subject");
+    }
+
+    return {
+      sub: claims.sub,
+      email: claims.email,
+      email_verified: claims.email_verified,
+      preferred_username: claims.preferred_username,
+      name: claims.name,
+    };
+  }
+}
+
+/**
+ * Passport strategy for a generic OpenID Connect provider. The same route
+ * starts the sign-in (redirecting to the provider) and, when the provider
+ * sends the browser back with a code, finishes it.
+ */
+export class OidcStrategy extends passport.Strategy {
+  name = "oidc";
+  private client: OidcClient;
+
+  constructor(config: OidcConfig, private verifyClaims: OidcVerifyFunction) {
+    super();
+    this.client = new OidcClient(config);
+  }
+
+  authenticate(req: Request) {
+    const { code, state, error } = req.query;
+
+    if (typeof error === "string") {
+      return this.fail({ message: "Sign-in was cancelled or denied by your identity provider" });
+    }
+
+    const step = typeof code === "string"
+      ? this.finishSignIn(req, code, typeof state === "string" ? state : "")
+      : this.startSignIn(req);
+    step.catch((err) => this.error(err));
+  }
+
+  private async startSignIn(req: Request) {
+    const { url, pending } = await this.client.createAuthorizationRequest();
+    req.session.oidc = pending;
+    this.redirect(url);
+  }
+
+  private async finishSignIn(req: Request, code: string, state: string) {
+    // Each sign-in attempt can only be completed once
+    const pending = req.session.oidc;
+    delete req.session.oidc;
+
+    if (!pending || !safeEqual(pending.state, state)) {
+      return this.fail({ message: "Your sign-in attempt expired. Please try again" });
+    }
+
+    const claims = await this.client.completeAuthorization(code, pending.nonce, pending.codeVerifier);
+    this.verifyClaims(claims, (err, user, info) => {
+      if (err) return this.error(err);
+      if (!user) return this.fail(info ?? { message: "Sign-in failed" });
+      this.success(user);
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import WebSocket from "ws";
+import type { PresenceStatus } from "@shared/schema";
+
+// Map each open socket to its user and whether the client reported it idle
+const socketPresence = new Map<WebSocket, { userId: number; away: boolean }>();
+
+/**
+ * Derive a user's presence from their open sockets: online if any socket is
+ * active, away if every socket is idle, offline if there are none
+ */
+export function getPresence(userId: number): PresenceStatus {
+  let hasSocket = false;
+
+  for (const entry of Array.from(socketPresence.values())) {
+    if (entry.userId !== userId) continue;
+    if (!entry.away) return 'online';
+    hasSocket = true;
+  }
+
+  return hasSocket ? 'away' : 'offline';
+}
+
+/**
+ * Start tracking a socket. Returns true if the user's presence changed.
+ */
+export function trackSocket(userId: number, ws: WebSocket): boolean {
+  const before = getPresence(userId);
+  socketPresence.set(ws, { userId, away: false });
+  return getPresence(userId) !== before;
+}
+
+/**
+ * Stop tracking a closed socket. Returns true if the user's presence changed.
+ */
+export function untrackSocket(ws: WebSocket): boolean {
+  const entry = socketPresence.get(ws);
+  if (!entry) return false;
+
+  const before = getPresence(entry.userId);
+  socketPresence.delete(ws);
+  return getPresence(entry.userId) !== before;
+}
+
+/**
+ * Mark a socket as idle or active. Returns true if the user's presence changed.
+ */
+export function setSocketAway(ws: WebSocket, away: boolean): boolean {
+  const entry = socketPresence.get(ws);
+  if (!entry) return false;
+
+  const before = getPresence(entry.userId);
+  entry.away = away;
+  return getPresence(entry.userId) !== before;
+}
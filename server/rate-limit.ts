@@ -0,0 +1,182 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+export type RateLimitPolicy = {
+  // Counters are kept per policy, so routes sharing a policy share a budget
+  name: string;
+  limit: number;
+  windowMs: number;
+  message: string;
+};
+
+export interface RateLimitStore {
+  name: string;
+  // Count one hit against the key in the current window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  clearExpired(): Promise<void>;
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const rateLimitPolicies = {
+  // Endpoints that call the language model
+  ai: {
+    name: "ai",
+    limit: 20,
+    windowMs: MINUTE_MS,
+    message: "You're sending requests to the assistant too quickly. Please wait a moment",
+  },
+  recommendations: {
+    name: "recommendations",
+    limit: 30,
+    windowMs: MINUTE_MS,
+    message: "Too many recommendation requests. Please wait a moment",
+  },
+  posts: {
+    name: "posts",
+    limit: 10,
+    windowMs: 10 * MINUTE_MS,
+    message: "You're posting too often. Please wait before posting again",
+  },
+  comments: {
+    name: "comments",
+    limit: 30,
+    windowMs: 10 * MINUTE_MS,
+    message: "You're commenting too often. Please wait before commenting again",
+  },
+  uploads: {
+    name: "uploads",
+    limit: 30,
+    windowMs: HOUR_MS,
+    message: "Too many uploads. Please try again later",
+  },
+  // Password reset emails requested from one client
+  passwordResets: {
+    name: "password-resets",
+    limit: 5,
+    windowMs: HOUR_MS,
+    message: "Too many password reset requests. Please try again later",
+  },
+  // Password reset emails sent to one address, from anywhere
+  passwordResetEmails: {
+    name: "password-reset-emails",
+    limit: 3,
+    windowMs: HOUR_MS,
+    message: "Too many password reset emails for this address",
+  },
+  // Chat messages sent over the socket
+  messages: {
+    name: "messages",
+    limit: 20,
+    windowMs: 10 * SECOND_MS,
+    message: "You're sending messages too quickly. Please slow down",
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+/**
+ * Fixed-window counters held in this process. Counts reset on restart and
+ * aren't shared between server instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = "memory";
+  private counters = new Map<string, { count: number; resetAt: number }>();
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.counters.set(key, fresh);
+      return { ...fresh };
+    }
+
+    counter.count += 1;
+    return { ...counter };
+  }
+
+  async clearExpired() {
+    const now = Date.now();
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Fixed-window counters in the rate_limits table, shared by every server
+ * instance using the same database
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  name = "postgres";
+
+  async increment(key: string, windowMs: number) {
+    const { count, resetAt } = await storage.incrementRateLimit(key, windowMs);
+    return { count, resetAt: resetAt.getTime() };
+  }
+
+  async clearExpired() {
+    await storage.clearExpiredRateLimits();
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === "postgres"
+    ? new PostgresRateLimitStore()
+    : new MemoryRateLimitStore();
+}
+
+// Picked by RATE_LIMIT_STORE ("postgres", or in-memory by default)
+const rateLimitStore = createRateLimitStore();
+
+setInterval(() => {
+  rateLimitStore.clearExpired().catch((error) => {
+    console.error("Error clearing expired rate limits:", error);
+  });
+}, 10 * MINUTE_MS);
+
+/**
+ * Count a request from a client (a user ID or IP) against a policy. If the
+ * store fails the request is let through, so an outage doesn't block the site.
+ */
+export async function consumeRateLimit(
+  policy: RateLimitPolicy,
+  client: string | number,
+  store: RateLimitStore = rateLimitStore
+): Promise<RateLimitResult> {
+  try {
+    const { count, resetAt } = await store.increment(`${policy.name}:${client}`, policy.windowMs);
+    return count > policy.limit
+      ? { allowed: false, retryAfterMs: Math.max(0, resetAt - Date.now()) }
+      : { allowed: true, retryAfterMs: 0 };
+  } catch (error) {
+    console.error(`Error checking rate limit (${store.name}):`, error);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+}
+
+/**
+ * Middleware that rejects requests over the policy's limit with 429 and a
+ * Retry-After header. Counts per logged-in user, or per IP otherwise.
+ */
+export function rateLimit(policy: RateLimitPolicy, store: RateLimitStore = rateLimitStore) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const client = req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+    const { allowed, retryAfterMs } = await consumeRateLimit(policy, client, store);
+    if (allowed) {
+      return next();
+    }
+
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({ message: policy.message, retryAfter });
+  };
+}
@@ -1,16 +1,23 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import WebSocket, { WebSocketServer } from "ws";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { setupAuth, getAccountBlockReason, refreshAccountStatus } from "./auth";
+import { storage, DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE, JOIN_REQUEST_RETRY_DELAY_MS } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { pool } from "./db";
-import { insertChatRoomSchema, insertMessageSchema } from "@shared/schema";
+import { 
+  insertChatRoomSchema, insertMessageSchema, insertReportSchema, updateChatRoomSchema, roomRoleRank, userBlockTypes,
+  ACCOUNT_SUSPENDED_CLOSE_CODE, SESSION_REVOKED_CLOSE_CODE, 
+  type Message, type ReportEntityType, type RoomInviteLink, type RoomJoinPolicy, type RoomRole, type User 
+} from "@shared/schema";
 import { z } from "zod";
 import { randomBytes } from "crypto";
 import { sendVerificationEmail } from "./email";
+import { registerUserSocket, unregisterUserSocket, sendToUser, closeUserSockets, closeSessionSockets } from "./notifications";
+import { getPresence, trackSocket, untrackSocket, setSocketAway } from "./presence";
+import { consumeRateLimit, rateLimit, rateLimitPolicies } from "./rate-limit";
 // We need to access the constant
 import { default as Anthropic } from '@anthropic-ai/sdk';
 
@@ -23,6 +30,7 @@ import {
   initializeProfileSetup,
   analyzeProfileSetupConversation
 } from "./anthropic";
+import { moderateContent, type ModerationTarget } from "./moderation";
 
 // Profile setup instructions for guiding new users
 const PROFILE_SETUP_INSTRUCTION = "You are a helpful AI assistant designed to help new users set up their profile. Your goal is to have a friendly conversation with the user to help them identify their hobbies, interests, and current activities. Ask questions one at a time, be conversational, and listen to their responses. Don't overwhelm them with too many questions at once. After gathering enough information, suggest a concise summary of their hobbies, interests, and current activities that they can use for their profile. The summary for each category should be 1-3 sentences maximum and highlight key points.";
@@ -116,6 +124,57 @@ const isEmailVerified = (req: Request, res: Response, next: Function) => {
   next();
 };
 
+// Site admin middleware
+const isSiteAdmin = (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  
+  next();
+};
+
+// Normalize comma-separated room tags to a lowercase, trimmed list
+function normalizeRoomTags(tags: string) {
+  return tags.split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0)
+    .join(',');
+}
+
+// Whether an invite link can still be used to join its room
+function isInviteLinkUsable(link: RoomInviteLink) {
+  return !link.revokedAt &&
+    (!link.expiresAt || link.expiresAt > new Date()) &&
+    (link.maxUses === null || link.useCount < link.maxUses);
+}
+
+// System message wording for each join policy a room can switch to
+const joinPolicyChanges: Record<RoomJoinPolicy, string> = {
+  open: 'let anyone join the room',
+  request: 'started requiring approval to join the room',
+  invite_only: 'made the room invite-only',
+};
+
+const resolveReportSchema = z.object({
+  action: z.enum(["dismiss", "delete_content", "suspend_user"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+const suspendUserSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  // Omit for an indefinite suspension
+  durationDays: z.number().int().positive().max(365).nullish(),
+});
+
+const createInviteLinkSchema = z.object({
+  expiresInHours: z.number().int().positive().max(24 * 30).nullish(),
+  maxUses: z.number().int().positive().max(1000).nullish(),
+});
+
 // Clean up expired recommendations from cache - runs every hour
 function scheduleRecommendationCleanup() {
   const cleanupInterval = 60 * 60 * 1000; // 1 hour
@@ -141,7 +200,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Schedule recommendation cache cleanup
   scheduleRecommendationCleanup();
   // Setup authentication routes
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
   
   // Serve uploaded files
   app.use('/uploads', express.static(uploadsDir));
@@ -171,6 +230,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Full-text search across messages, posts, comments and rooms
+  app.get("/api/search", isAuthenticated, async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      if (query.length < 2) {
+        return res.status(400).json({ message: "Search query must be at least 2 characters" });
+      }
+
+      if (isNaN(limit) || limit < 1 || limit > 50) {
+        return res.status(400).json({ message: "Limit must be between 1 and 50" });
+      }
+
+      const results = await storage.search(req.user!.id, query, limit);
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
   // User profile API
   app.get("/api/profile", isAuthenticated, async (req, res) => {
     try {
@@ -181,7 +262,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Filter out the password for security
-      const { password, ...userProfile } = user;
+      const { password, twoFactorSecret, ...userProfile } = user;
       res.json(userProfile);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user profile" });
@@ -243,7 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Filter out the password for security
-      const { password, ...userProfile } = updatedUser;
+      const { password, twoFactorSecret, ...userProfile } = updatedUser;
       res.json(userProfile);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -254,7 +335,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Upload profile picture
-  app.post("/api/profile/picture", isAuthenticated, uploadProfilePicture.single('picture'), async (req, res) => {
+  app.post("/api/profile/picture", isAuthenticated, rateLimit(rateLimitPolicies.uploads), uploadProfilePicture.single('picture'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No picture uploaded" });
@@ -274,7 +355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Filter out sensitive data
-      const { password, ...userProfile } = updatedUser;
+      const { password, twoFactorSecret, ...userProfile } = updatedUser;
       res.json({ 
         ...userProfile,
         message: "Profile picture updated successfully" 
@@ -306,22 +387,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (await storage.isBlockedBetween(followerId, followingId)) {
+        return res.status(403).json({ message: "You can't follow this user" });
+      }
+      
       // Follow the user
       const follow = await storage.followUser(followerId, followingId);
       if (!follow) {
         return res.status(400).json({ message: "Failed to follow user or already following" });
       }
       
-      // Create a notification for the followed user
-      await storage.createNotification({
-        userId: followingId,
-        type: "follow",
-        message: `${req.user!.username} started following you`,
-        actorId: followerId,
-        entityType: "user",
-        entityId: followerId
-      });
-      
       res.status(201).json({ 
         message: `You are now following ${targetUser.username}`,
         following: true
@@ -383,7 +458,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isFollowing = await storage.isFollowing(currentUserId, userId);
       
       // Return a filtered profile without sensitive information
-      const { password, verificationToken, email, emailVerified, ...publicProfile } = user;
+      const { password, verificationToken, email, emailVerified, twoFactorSecret, ...publicProfile } = user;
       
       res.json({
         ...publicProfile,
@@ -410,21 +485,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Cannot follow yourself" });
       }
       
+      if (await storage.isBlockedBetween(followerId, followingId)) {
+        return res.status(403).json({ message: "You can't follow this user" });
+      }
+      
       const follow = await storage.followUser(followerId, followingId);
       if (!follow) {
         return res.status(400).json({ message: "Already following or unable to follow" });
       }
       
-      // Create a notification for the followed user
-      await storage.createNotification({
-        userId: followingId,
-        type: "follow",
-        message: `${req.user!.username} started following you`,
-        actorId: followerId,
-        entityType: "user",
-        entityId: followerId
-      });
-      
       res.json({ message: "Successfully followed user", follow });
     } catch (error) {
       console.error("Error following user:", error);
@@ -531,7 +600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Filter out sensitive data
-      const { password, verificationToken: token, ...userProfile } = updatedUser;
+      const { password, verificationToken: token, twoFactorSecret, ...userProfile } = updatedUser;
       res.json(userProfile);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -542,6 +611,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Login sessions and devices
+  app.get("/api/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Log out everywhere except this session
+  app.delete("/api/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const revoked = await storage.deleteUserSessions(userId, req.sessionID);
+      closeUserSockets(userId, SESSION_REVOKED_CLOSE_CODE, 'session_revoked', req.sessionID);
+      
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to log out other sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const sessionId = await storage.deleteUserSession(userId, req.params.id);
+      
+      if (!sessionId) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      closeSessionSockets(userId, sessionId, SESSION_REVOKED_CLOSE_CODE, 'session_revoked');
+      
+      // Revoking the current session is the same as logging out
+      const current = sessionId === req.sessionID;
+      if (current) {
+        return req.logout((err) => {
+          if (err) {
+            console.error("Error logging out revoked session:", err);
+          }
+          res.json({ success: true, current });
+        });
+      }
+      
+      res.json({ success: true, current });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
   // We're removing this route and creating it with a different path
 
   // Notifications API
@@ -598,6 +721,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (await storage.isBlockedBetween(requesterId, receiverId)) {
+        return res.status(403).json({ message: "You can't send a friend request to this user" });
+      }
+      
       // Check if friend request already exists
       const existingRequests = await storage.getFriendRequests(requesterId);
       const existingRequest = existingRequests.find(
@@ -617,25 +744,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         senderId: requesterId,
         receiverId
       });
-      
-      // Create notification for receiver
-      await storage.createNotification({
-        userId: receiverId,
-        type: "friend_request",
-        message: `${req.user!.username} sent you a friend request`,
-        actorId: requesterId,
-        entityType: "friend_request",
-        entityId: friendRequest.id
-      });
-      
-      // Send a refresh_notifications WebSocket event
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'refresh_notifications'
-          }));
-        }
-      });
+      if (!friendRequest) {
+        return res.status(403).json({ message: "You can't send a friend request to this user" });
+      }
       
       res.status(201).json(friendRequest);
     } catch (error) {
@@ -669,27 +780,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Failed to respond to friend request" });
       }
       
-      // Create notification for sender
-      await storage.createNotification({
-        userId: request.senderId,
-        type: "friend_request_response",
-        message: status === 'accepted' 
-          ? `${req.user!.username} accepted your friend request` 
-          : `${req.user!.username} declined your friend request`,
-        actorId: userId,
-        entityType: "friend_request",
-        entityId: requestId
-      });
-      
-      // Send a refresh_notifications WebSocket event
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'refresh_notifications'
-          }));
-        }
-      });
-      
       res.json(updatedRequest);
     } catch (error) {
       console.error("Error responding to friend request:", error);
@@ -697,6 +787,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // List the current user's direct conversations
+  app.get("/api/direct-messages", isAuthenticated, async (req, res) => {
+    try {
+      const conversations = await storage.getDirectConversations(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching direct conversations:", error);
+      res.status(500).json({ message: "Failed to fetch direct conversations" });
+    }
+  });
+  
+  // Open the direct conversation with a friend, creating it if needed
+  app.post("/api/direct-messages", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const otherUserId = parseInt(req.body.userId);
+      const userId = req.user!.id;
+      
+      if (isNaN(otherUserId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (otherUserId === userId) {
+        return res.status(400).json({ message: "Cannot start a direct conversation with yourself" });
+      }
+      
+      const areFriends = await storage.areFriends(userId, otherUserId);
+      if (!areFriends || await storage.isBlockedBetween(userId, otherUserId)) {
+        return res.status(403).json({ message: "You can only message your friends" });
+      }
+      
+      const conversation = await storage.getOrCreateDirectConversation(userId, otherUserId);
+      if (!conversation) {
+        return res.status(500).json({ message: "Failed to open direct conversation" });
+      }
+      
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error opening direct conversation:", error);
+      res.status(500).json({ message: "Failed to open direct conversation" });
+    }
+  });
+  
   // Routes for the follow API for the hooks
   // Get followers
   app.get("/api/follows/followers", isAuthenticated, async (req, res) => {
@@ -769,31 +901,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (await storage.isBlockedBetween(followerId, followingId)) {
+        return res.status(403).json({ message: "You can't follow this user" });
+      }
+      
       // Follow the user
       const follow = await storage.followUser(followerId, followingId);
       if (!follow) {
         return res.status(400).json({ message: "Failed to follow user or already following" });
       }
       
-      // Create notification for followed user
-      await storage.createNotification({
-        userId: followingId,
-        type: "follow",
-        message: `${req.user!.username} started following you`,
-        actorId: followerId,
-        entityType: "user",
-        entityId: followerId
-      });
-      
-      // Send a refresh_notifications WebSocket event
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'refresh_notifications'
-          }));
-        }
-      });
-      
       res.status(201).json(follow);
     } catch (error) {
       console.error("Error following user:", error);
@@ -830,155 +947,487 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get unread notification count
-  app.get("/api/notifications/count", isAuthenticated, async (req, res) => {
+  // Users the current user has blocked or muted
+  app.get("/api/blocks", isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const count = await storage.getUnreadNotificationCount(userId);
-      res.json({ count });
+      const blocks = await storage.getUserBlocks(req.user!.id);
+      res.json(blocks);
     } catch (error) {
-      console.error("Error getting notification count:", error);
-      res.status(500).json({ message: "Failed to get notification count" });
+      console.error("Error fetching blocked users:", error);
+      res.status(500).json({ message: "Failed to fetch blocked users" });
     }
   });
   
-  // Mark a notification as read
-  app.patch("/api/notifications/:id", isAuthenticated, async (req, res) => {
+  // Block or mute a user. Blocking also removes friendships, follows and pending invitations.
+  app.post("/api/blocks", isAuthenticated, async (req, res) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      if (isNaN(notificationId)) {
-        return res.status(400).json({ message: "Invalid notification ID" });
+      const blockerId = req.user!.id;
+      const blockedId = parseInt(req.body.userId);
+      const type = req.body.type ?? 'block';
+      
+      if (isNaN(blockedId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
       }
       
-      const success = await storage.markNotificationAsRead(notificationId);
-      if (!success) {
-        return res.status(400).json({ message: "Failed to mark notification as read" });
+      if (!userBlockTypes.includes(type)) {
+        return res.status(400).json({ message: "Type must be 'block' or 'mute'" });
       }
       
-      res.json({ message: "Notification marked as read" });
+      if (blockerId === blockedId) {
+        return res.status(400).json({ message: type === 'mute' ? "You cannot mute yourself" : "You cannot block yourself" });
+      }
+      
+      const targetUser = await storage.getUser(blockedId);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const block = await storage.blockUser(blockerId, blockedId, type);
+      if (!block) {
+        return res.status(500).json({ message: "Failed to update blocked users" });
+      }
+      
+      res.status(201).json(block);
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Failed to update blocked users" });
     }
   });
   
-  // Mark all notifications as read
-  app.patch("/api/notifications", isAuthenticated, async (req, res) => {
+  // Unblock or unmute a user
+  app.delete("/api/blocks/:userId", isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const success = await storage.markAllNotificationsAsRead(userId);
-      if (!success) {
-        return res.status(400).json({ message: "Failed to mark all notifications as read" });
+      const blockedId = parseInt(req.params.userId);
+      if (isNaN(blockedId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
       }
       
-      res.json({ message: "All notifications marked as read" });
+      const removed = await storage.unblockUser(req.user!.id, blockedId);
+      if (!removed) {
+        return res.status(404).json({ message: "This user is not blocked or muted" });
+      }
+      
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error marking all notifications as read:", error);
-      res.status(500).json({ message: "Failed to mark all notifications as read" });
+      console.error("Error unblocking user:", error);
+      res.status(500).json({ message: "Failed to update blocked users" });
     }
   });
-
-  // Chat rooms API
-  app.get("/api/rooms", isAuthenticated, async (req, res) => {
+  
+  // Report a post, comment, message or user to the site admins
+  app.post("/api/reports", isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      
-      // Get rooms created by the user
-      const userCreatedRooms = await storage.getChatRoomsByCreatorId(userId);
-      
-      // Get rooms the user has been invited to and accepted
-      const acceptedInvitationRooms = await storage.getRoomsUserHasAccessTo(userId);
+      const result = insertReportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid report" });
+      }
       
-      // Combine the lists, ensuring no duplicates
-      const allRoomIds = new Set();
-      const allRooms = [];
+      const reporterId = req.user!.id;
+      const report = result.data;
       
-      // Add user created rooms first
-      for (const room of userCreatedRooms) {
-        allRoomIds.add(room.id);
-        allRooms.push(room);
+      // The reporter must be able to see what they report
+      const target = await storage.getReportTarget(report.entityType, report.entityId, reporterId);
+      if (!target) {
+        return res.status(404).json({ message: "The reported content could not be found" });
       }
       
-      // Add invitation rooms if not already included
-      for (const room of acceptedInvitationRooms) {
-        if (!allRoomIds.has(room.id)) {
-          allRoomIds.add(room.id);
-          allRooms.push(room);
-        }
+      if (target.userId === reporterId) {
+        return res.status(400).json({ message: "You cannot report yourself" });
       }
       
-      res.json(allRooms);
+      const created = await storage.createReport(reporterId, report, target);
+      res.status(201).json(created);
     } catch (error) {
-      console.error("Error fetching chat rooms:", error);
-      res.status(500).json({ message: "Failed to fetch chat rooms" });
+      console.error("Error creating report:", error);
+      res.status(500).json({ message: "Failed to submit report" });
     }
   });
-
-  app.post("/api/rooms", isAuthenticated, isEmailVerified, async (req, res) => {
+  
+  // Site admin moderation queue
+  app.get("/api/admin/reports", isSiteAdmin, async (req, res) => {
     try {
-      // Check if this is a self-chat room
-      const isSelfChat = Boolean(req.body.isSelfChat);
-      const isPublic = Boolean(req.body.isPublic);
+      const status = req.query.status === 'closed' ? 'closed' : 'pending';
+      const reportList = await storage.getReports(status);
+      res.json(reportList);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+  
+  // Act on a report. Every open report about the same content is closed with it.
+  app.post("/api/admin/reports/:id/resolve", isSiteAdmin, async (req, res) => {
+    try {
+      const reportId = parseInt(req.params.id);
+      if (isNaN(reportId)) {
+        return res.status(400).json({ message: "Invalid report ID" });
+      }
       
-      // A room cannot be both self-chat and public
-      if (isSelfChat && isPublic) {
-        return res.status(400).json({ message: "A room cannot be both self-chat and public" });
+      const result = resolveReportSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid action" });
       }
       
-      // Parse category and tags for public rooms
-      let category = req.body.category || null;
-      let tags = req.body.tags || null;
+      const { action, note } = result.data;
+      const adminId = req.user!.id;
       
-      // Validate category and tags for public rooms
-      if (isPublic) {
-        if (!category) {
-          return res.status(400).json({ message: "Public rooms require a category" });
+      const report = await storage.getReport(reportId);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      if (report.status !== 'pending') {
+        return res.status(400).json({ message: "This report has already been handled" });
+      }
+      
+      const entityType = report.entityType as ReportEntityType;
+      let resolution: string | undefined;
+      
+      if (action === 'delete_content') {
+        if (entityType === 'user') {
+          return res.status(400).json({ message: "Suspend the user to act on a profile report" });
         }
         
-        // Normalize category (lowercase, trim)
-        category = category.trim().toLowerCase();
+        // Look the message up first so its room can be told about the deletion
+        const message = entityType === 'message' ? await storage.getMessage(report.entityId) : undefined;
         
-        // Validate tags if provided
-        if (tags) {
-          // Convert comma-separated tags to normalized format
-          if (typeof tags === 'string') {
-            tags = tags.split(',')
-              .map((tag: string) => tag.trim().toLowerCase())
-              .filter((tag: string) => tag.length > 0)
-              .join(',');
-          }
+        const removed = await storage.removeReportedContent(entityType, report.entityId);
+        if (!removed) {
+          return res.status(500).json({ message: "Failed to delete the reported content" });
+        }
+        
+        if (message) {
+          await broadcastToRoom(message.roomId, {
+            type: 'message_deleted',
+            roomId: message.roomId,
+            messageId: message.id,
+            parentMessageId: message.parentMessageId,
+            deletedAt: new Date()
+          });
+        }
+        resolution = 'content_deleted';
+      } else if (action === 'suspend_user') {
+        if (!report.reportedUserId) {
+          return res.status(400).json({ message: "The reported user no longer exists" });
+        }
+        
+        if (report.reportedUserId === adminId) {
+          return res.status(400).json({ message: "You cannot suspend yourself" });
+        }
+        
+        const reportedUser = await storage.getUser(report.reportedUserId);
+        if (reportedUser?.isAdmin) {
+          return res.status(400).json({ message: "Site admins cannot be suspended" });
+        }
+        
+        const suspended = await storage.suspendUser(
+          report.reportedUserId,
+          note || `Reported for ${report.reason.replace(/_/g, ' ')}`
+        );
+        if (!suspended) {
+          return res.status(500).json({ message: "Failed to suspend user" });
         }
+        closeUserSockets(suspended.id, ACCOUNT_SUSPENDED_CLOSE_CODE, 'account_suspended');
+        resolution = 'user_suspended';
       }
       
-      const validatedData = insertChatRoomSchema.parse({
-        ...req.body,
-        creatorId: req.user!.id,
-        isSelfChat: isSelfChat,
-        isPublic: isPublic,
-        category: category,
-        tags: tags
-      });
+      const closed = await storage.closeReports(
+        entityType,
+        report.entityId,
+        adminId,
+        action === 'dismiss' ? 'dismissed' : 'resolved',
+        resolution
+      );
       
-      const room = await storage.createChatRoom(validatedData);
+      // Content held by automated moderation goes back up when no violation is found
+      if (action === 'dismiss' && entityType !== 'user') {
+        await storage.setContentHeld(entityType, report.entityId, false);
+        if (entityType === 'message') {
+          await broadcastMessageHold(report.entityId);
+        }
+      }
       
-      // Handle invitations for private rooms
-      if (!isSelfChat && !isPublic && req.body.invitees && Array.isArray(req.body.invitees)) {
-        const senderId = req.user!.id;
-        const roomId = room.id;
+      // Let each reporter know their report was looked at
+      for (const closedReport of closed) {
+        if (!closedReport.reporterId) continue;
         
-        // Send invitations to all invitees
-        for (const receiverId of req.body.invitees) {
-          // Skip if receiver ID is invalid
-          if (typeof receiverId !== 'number' || isNaN(receiverId)) continue;
-          
-          // Skip if receiver is the creator
-          if (receiverId === senderId) continue;
+        await storage.createNotification({
+          userId: closedReport.reporterId,
+          type: 'report_resolved',
+          actorId: null,
+          entityId: closedReport.id,
+          entityType: 'report',
+          message: action === 'dismiss'
+            ? `We reviewed your report about a ${entityType} and found no violation. Thanks for letting us know.`
+            : `Thanks for your report. We reviewed the ${entityType} and took action.`,
+          isRead: false,
+        });
+      }
+      
+      res.json({ closed: closed.length, resolution: resolution ?? null });
+    } catch (error) {
+      console.error("Error resolving report:", error);
+      res.status(500).json({ message: "Failed to resolve report" });
+    }
+  });
+  
+  // Platform-wide counts for the admin console
+  app.get("/api/admin/stats", isSiteAdmin, async (req, res) => {
+    try {
+      const stats = await storage.getPlatformStats();
+      if (!stats) {
+        return res.status(500).json({ message: "Failed to fetch platform statistics" });
+      }
+      
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching platform stats:", error);
+      res.status(500).json({ message: "Failed to fetch platform statistics" });
+    }
+  });
+  
+  // Look up users by username, email or id
+  app.get("/api/admin/users", isSiteAdmin, async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const userList = await storage.searchUsersForAdmin(query);
+      res.json(userList);
+    } catch (error) {
+      console.error("Error looking up users:", error);
+      res.status(500).json({ message: "Failed to look up users" });
+    }
+  });
+  
+  app.post("/api/admin/users/:id/suspend", isSiteAdmin, async (req, res) => {
+    try {
+      const targetId = parseInt(req.params.id);
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const result = suspendUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid suspension" });
+      }
+      
+      if (targetId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot suspend yourself" });
+      }
+      
+      const target = await storage.getUser(targetId);
+      if (!target || target.status === 'deleted') {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (target.isAdmin) {
+        return res.status(400).json({ message: "Site admins cannot be suspended" });
+      }
+      
+      const { reason, durationDays } = result.data;
+      const until = durationDays ? new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000) : null;
+      
+      const suspended = await storage.suspendUser(targetId, reason, until);
+      if (!suspended) {
+        return res.status(500).json({ message: "Failed to suspend user" });
+      }
+      
+      // Drop live connections; their next HTTP request signs them out
+      closeUserSockets(targetId, ACCOUNT_SUSPENDED_CLOSE_CODE, 'account_suspended');
+      
+      res.json({ id: suspended.id, status: suspended.status, suspendedUntil: suspended.suspendedUntil });
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+  
+  app.post("/api/admin/users/:id/reinstate", isSiteAdmin, async (req, res) => {
+    try {
+      const targetId = parseInt(req.params.id);
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const reinstated = await storage.reinstateUser(targetId);
+      if (!reinstated) {
+        return res.status(404).json({ message: "No suspended user with that ID" });
+      }
+      
+      res.json({ id: reinstated.id, status: reinstated.status });
+    } catch (error) {
+      console.error("Error reinstating user:", error);
+      res.status(500).json({ message: "Failed to reinstate user" });
+    }
+  });
+  
+  // Get unread notification count
+  app.get("/api/notifications/count", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const count = await storage.getUnreadNotificationCount(userId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error getting notification count:", error);
+      res.status(500).json({ message: "Failed to get notification count" });
+    }
+  });
+  
+  // Mark a notification as read
+  app.patch("/api/notifications/:id", isAuthenticated, async (req, res) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      if (isNaN(notificationId)) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+      
+      const success = await storage.markNotificationAsRead(notificationId);
+      if (!success) {
+        return res.status(400).json({ message: "Failed to mark notification as read" });
+      }
+      
+      res.json({ message: "Notification marked as read" });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+  
+  // Mark all notifications as read
+  app.patch("/api/notifications", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const success = await storage.markAllNotificationsAsRead(userId);
+      if (!success) {
+        return res.status(400).json({ message: "Failed to mark all notifications as read" });
+      }
+      
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark all notifications as read" });
+    }
+  });
+
+  // Chat rooms API
+  app.get("/api/rooms", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      
+      // Get rooms created by the user; direct conversations are listed separately
+      const userCreatedRooms = (await storage.getChatRoomsByCreatorId(userId))
+        .filter(room => !room.isDirect);
+      
+      // Get rooms the user has been invited to and accepted
+      const acceptedInvitationRooms = await storage.getRoomsUserHasAccessTo(userId);
+      
+      // Combine the lists, ensuring no duplicates
+      const allRoomIds = new Set();
+      const allRooms = [];
+      
+      // Add user created rooms first
+      for (const room of userCreatedRooms) {
+        allRoomIds.add(room.id);
+        allRooms.push(room);
+      }
+      
+      // Add invitation rooms if not already included
+      for (const room of acceptedInvitationRooms) {
+        if (!allRoomIds.has(room.id)) {
+          allRoomIds.add(room.id);
+          allRooms.push(room);
+        }
+      }
+      
+      res.json(allRooms);
+    } catch (error) {
+      console.error("Error fetching chat rooms:", error);
+      res.status(500).json({ message: "Failed to fetch chat rooms" });
+    }
+  });
+
+  // Get unread message counts for the user's rooms and direct conversations
+  app.get("/api/rooms/unread", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      
+      const userCreatedRooms = await storage.getChatRoomsByCreatorId(userId);
+      const acceptedInvitationRooms = await storage.getRoomsUserHasAccessTo(userId);
+      const directConversations = await storage.getDirectConversations(userId);
+      const roomIds = Array.from(new Set([
+        ...[...userCreatedRooms, ...acceptedInvitationRooms].map(room => room.id),
+        ...directConversations.map(conversation => conversation.roomId)
+      ]));
+      
+      const unreadCounts = await storage.getUnreadCounts(userId, roomIds);
+      res.json(unreadCounts);
+    } catch (error) {
+      console.error("Error fetching unread counts:", error);
+      res.status(500).json({ message: "Failed to fetch unread counts" });
+    }
+  });
+
+  app.post("/api/rooms", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      // Check if this is a self-chat room
+      const isSelfChat = Boolean(req.body.isSelfChat);
+      const isPublic = Boolean(req.body.isPublic);
+      
+      // A room cannot be both self-chat and public
+      if (isSelfChat && isPublic) {
+        return res.status(400).json({ message: "A room cannot be both self-chat and public" });
+      }
+      
+      // Parse category and tags for public rooms
+      let category = req.body.category || null;
+      let tags = req.body.tags || null;
+      
+      // Validate category and tags for public rooms
+      if (isPublic) {
+        if (!category) {
+          return res.status(400).json({ message: "Public rooms require a category" });
+        }
+        
+        // Normalize category (lowercase, trim)
+        category = category.trim().toLowerCase();
+        
+        // Validate tags if provided
+        if (tags) {
+          // Convert comma-separated tags to normalized format
+          if (typeof tags === 'string') {
+            tags = normalizeRoomTags(tags);
+          }
+        }
+      }
+      
+      const validatedData = insertChatRoomSchema.parse({
+        ...req.body,
+        creatorId: req.user!.id,
+        isSelfChat: isSelfChat,
+        isPublic: isPublic,
+        category: category,
+        tags: tags
+      });
+      
+      const room = await storage.createChatRoom(validatedData);
+      
+      // Handle invitations for private rooms
+      if (!isSelfChat && !isPublic && req.body.invitees && Array.isArray(req.body.invitees)) {
+        const senderId = req.user!.id;
+        const roomId = room.id;
+        
+        // Send invitations to all invitees
+        for (const receiverId of req.body.invitees) {
+          // Skip if receiver ID is invalid
+          if (typeof receiverId !== 'number' || isNaN(receiverId)) continue;
+          
+          // Skip if receiver is the creator
+          if (receiverId === senderId) continue;
           
           // Check if user exists
           const receiver = await storage.getUser(receiverId);
           if (!receiver) continue;
           
-          // Create the invitation
+          // Create the invitation; none is created across a block
           await storage.createRoomInvitation({
             roomId,
             senderId,
@@ -986,14 +1435,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Send a refresh_notifications WebSocket event
-        wss.clients.forEach((client) => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({
-              type: 'refresh_notifications'
-            }));
-          }
-        });
       }
       
       // For public rooms, generate AI-based recommendations for similar users
@@ -1088,11 +1529,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/rooms/:id", isAuthenticated, async (req, res) => {
+  // Update a room's settings (room admins only) and announce the change in the room
+  app.patch("/api/rooms/:id", isAuthenticated, isEmailVerified, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
-      const userId = req.user!.id;
-      
       if (isNaN(roomId)) {
         return res.status(400).json({ message: "Invalid room ID" });
       }
@@ -1102,68 +1542,235 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Room not found" });
       }
       
-      // Check if user has access to this room
-      // 1. User is the creator
-      if (room.creatorId === userId) {
-        return res.json(room);
+      if (room.isDirect) {
+        return res.status(400).json({ message: "Direct conversations have no settings" });
       }
       
-      // 2. Room is a self-chat - only accessible by creator
-      if (room.isSelfChat) {
-        return res.status(403).json({ message: "You do not have permission to access this room" });
+      const isAdmin = await storage.isRoomAdmin(req.user!.id, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can change room settings" });
       }
       
-      // 3. Room is public and user is a member
-      if (room.isPublic) {
-        const isMember = await storage.isRoomMember(userId, roomId);
-        if (!isMember) {
-          return res.status(403).json({ 
-            message: "You need to join this public room first",
-            isPublic: true
-          });
-        }
-        return res.json(room);
+      const result = updateChatRoomSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid room settings" });
       }
       
-      // 4. User has an accepted invitation for a private room
-      const invitations = await storage.getReceivedRoomInvitations(userId);
-      const hasAcceptedInvitation = invitations.some(
-        inv => inv.roomId === roomId && inv.status === 'accepted'
-      );
+      const updates = result.data;
+      if (updates.description !== undefined) {
+        updates.description = updates.description?.trim() || null;
+      }
+      if (updates.category !== undefined) {
+        updates.category = updates.category?.trim().toLowerCase() || null;
+      }
+      if (updates.tags !== undefined) {
+        updates.tags = updates.tags ? normalizeRoomTags(updates.tags) || null : null;
+      }
       
-      if (!hasAcceptedInvitation) {
-        return res.status(403).json({ message: "You do not have permission to access this room" });
+      // Apply the same rules as room creation to the resulting settings
+      const isPublic = updates.isPublic ?? !!room.isPublic;
+      const category = updates.category !== undefined ? updates.category : room.category;
+      
+      if (room.isSelfChat && isPublic) {
+        return res.status(400).json({ message: "A room cannot be both self-chat and public" });
       }
       
-      res.json(room);
+      if (isPublic && !category) {
+        return res.status(400).json({ message: "Public rooms require a category" });
+      }
+      
+      // Describe each setting that actually changed
+      const changes: string[] = [];
+      if (updates.name !== undefined && updates.name !== room.name) {
+        changes.push(`renamed the room to "${updates.name}"`);
+      }
+      if (updates.description !== undefined && updates.description !== (room.description || null)) {
+        changes.push(updates.description ? 'updated the room description' : 'removed the room description');
+      }
+      if (updates.isPublic !== undefined && updates.isPublic !== !!room.isPublic) {
+        changes.push(updates.isPublic ? 'made the room public' : 'made the room private');
+      }
+      if (updates.joinPolicy !== undefined && updates.joinPolicy !== room.joinPolicy) {
+        changes.push(joinPolicyChanges[updates.joinPolicy as RoomJoinPolicy]);
+      }
+      if (updates.category !== undefined && updates.category !== (room.category || null)) {
+        changes.push(updates.category ? `changed the category to "${updates.category}"` : 'removed the room category');
+      }
+      if (updates.tags !== undefined && updates.tags !== (room.tags || null)) {
+        changes.push('updated the room tags');
+      }
+      
+      if (changes.length === 0) {
+        return res.json(room);
+      }
+      
+      const updatedRoom = await storage.updateChatRoom(roomId, updates);
+      if (!updatedRoom) {
+        return res.status(500).json({ message: "Failed to update room" });
+      }
+      
+      const summary = changes.length > 1
+        ? `${changes.slice(0, -1).join(', ')} and ${changes[changes.length - 1]}`
+        : changes[0];
+      await postSystemMessage(roomId, req.user!, `${req.user!.username} ${summary}`);
+      await broadcastToRoom(roomId, { type: 'room_updated', roomId, room: updatedRoom });
+      
+      res.json(updatedRoom);
     } catch (error) {
-      console.error("Error fetching room:", error);
-      res.status(500).json({ message: "Failed to fetch room" });
+      console.error("Error updating room:", error);
+      res.status(500).json({ message: "Failed to update room" });
     }
   });
   
-  // Delete a chat room (only the creator can delete it)
-  app.delete("/api/rooms/:id", isAuthenticated, isEmailVerified, async (req, res) => {
+  // Hand a room over to another member. The previous owner stays on as an admin.
+  app.post("/api/rooms/:id/transfer", isAuthenticated, isEmailVerified, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
-      if (isNaN(roomId)) {
-        return res.status(400).json({ message: "Invalid room ID" });
+      const newOwnerId = parseInt(req.body.userId);
+      if (isNaN(roomId) || isNaN(newOwnerId)) {
+        return res.status(400).json({ message: "Invalid room or user ID" });
       }
       
       const userId = req.user!.id;
-      
-      // Check if room exists first
       const room = await storage.getChatRoom(roomId);
       if (!room) {
         return res.status(404).json({ message: "Room not found" });
       }
       
-      // Check if user is the creator
       if (room.creatorId !== userId) {
-        return res.status(403).json({ message: "You do not have permission to delete this room" });
+        return res.status(403).json({ message: "Only the room owner can transfer ownership" });
       }
       
-      const success = await storage.deleteChatRoom(roomId, userId);
+      if (room.isDirect || room.isSelfChat) {
+        return res.status(400).json({ message: "Ownership of this room cannot be transferred" });
+      }
+      
+      if (newOwnerId === userId) {
+        return res.status(400).json({ message: "You already own this room" });
+      }
+      
+      const newOwner = await storage.getUser(newOwnerId);
+      const newOwnerRole = await storage.getRoomRole(newOwnerId, roomId);
+      if (!newOwner || !newOwnerRole) {
+        return res.status(400).json({ message: "The new owner must be a member of the room" });
+      }
+      
+      const updatedRoom = await storage.transferRoomOwnership(roomId, newOwnerId);
+      if (!updatedRoom) {
+        return res.status(500).json({ message: "Failed to transfer ownership" });
+      }
+      
+      await storage.logRoomModerationAction({
+        roomId,
+        actorId: userId,
+        targetUserId: newOwnerId,
+        action: 'ownership_transferred',
+        details: null
+      });
+      
+      await storage.createNotification({
+        userId: newOwnerId,
+        type: 'room_role',
+        actorId: userId,
+        entityId: roomId,
+        entityType: 'room',
+        message: `${req.user!.username} made you the owner of "${room.name}"`,
+        isRead: false,
+      });
+      
+      await postSystemMessage(
+        roomId, 
+        req.user!, 
+        `${req.user!.username} transferred ownership of the room to ${newOwner.username}`
+      );
+      await broadcastToRoom(roomId, { type: 'room_updated', roomId, room: updatedRoom });
+      await broadcastToRoom(roomId, { type: 'member_role_updated', roomId, userId: newOwnerId, role: 'owner' });
+      await broadcastToRoom(roomId, { type: 'member_role_updated', roomId, userId, role: 'admin' });
+      
+      res.json(updatedRoom);
+    } catch (error) {
+      console.error("Error transferring room ownership:", error);
+      res.status(500).json({ message: "Failed to transfer ownership" });
+    }
+  });
+
+  app.get("/api/rooms/:id", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const userId = req.user!.id;
+      
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      // Check if user has access to this room
+      // 1. User is the creator
+      if (room.creatorId === userId) {
+        return res.json(room);
+      }
+      
+      // 2. Room is a self-chat - only accessible by creator
+      if (room.isSelfChat) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      // 3. Room is public and user is a member
+      if (room.isPublic) {
+        const isMember = await storage.isRoomMember(userId, roomId);
+        if (!isMember) {
+          return res.status(403).json({ 
+            message: "You need to join this public room first",
+            isPublic: true
+          });
+        }
+        return res.json(room);
+      }
+      
+      // 4. User is a member of, or has an accepted invitation to, a private room
+      const hasAccess = await storage.canAccessRoom(userId, roomId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      res.json(room);
+    } catch (error) {
+      console.error("Error fetching room:", error);
+      res.status(500).json({ message: "Failed to fetch room" });
+    }
+  });
+  
+  // Delete a chat room (only the creator can delete it)
+  app.delete("/api/rooms/:id", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const userId = req.user!.id;
+      
+      // Check if room exists first
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      // Check if user is the creator
+      if (room.creatorId !== userId) {
+        return res.status(403).json({ message: "You do not have permission to delete this room" });
+      }
+      
+      // Direct conversations belong to both people, so neither can delete them
+      if (room.isDirect) {
+        return res.status(403).json({ message: "Direct conversations cannot be deleted" });
+      }
+      
+      const success = await storage.deleteChatRoom(roomId, userId);
       
       if (!success) {
         return res.status(500).json({ message: "Failed to delete chat room" });
@@ -1210,19 +1817,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
             });
           }
         } else {
-          // 4. For private rooms, check for an accepted invitation
-          const invitations = await storage.getReceivedRoomInvitations(userId);
-          const hasAcceptedInvitation = invitations.some(
-            inv => inv.roomId === roomId && inv.status === 'accepted'
-          );
-          
-          if (!hasAcceptedInvitation) {
+          // 4. For private rooms, check for membership or an accepted invitation
+          const hasAccess = await storage.canAccessRoom(userId, roomId);
+          if (!hasAccess) {
             return res.status(403).json({ message: "You do not have permission to access this room" });
           }
         }
       }
       
-      const messages = await storage.getMessagesByRoomId(roomId);
+      // Optional cursors: `before` loads older messages, `after` newer ones
+      const before = req.query.before ? parseInt(req.query.before as string) : undefined;
+      const after = req.query.after ? parseInt(req.query.after as string) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_MESSAGE_PAGE_SIZE;
+      
+      if ([before, after, limit].some(value => Number.isNaN(value)) || limit < 1) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+      
+      if (before && after) {
+        return res.status(400).json({ message: "Use either before or after, not both" });
+      }
+      
+      const messages = await storage.getMessagesByRoomId(roomId, {
+        before,
+        after,
+        limit: Math.min(limit, MAX_MESSAGE_PAGE_SIZE)
+      });
       res.json(messages);
     } catch (error) {
       console.error("Error fetching room messages:", error);
@@ -1230,6 +1850,251 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit a message (only its author can change the content)
+  app.patch("/api/messages/:id", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const { content } = req.body;
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "Message content is required" });
+      }
+
+      const userId = req.user!.id;
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (message.isSystem) {
+        return res.status(400).json({ message: "System messages cannot be edited" });
+      }
+
+      if (message.heldAt) {
+        return res.status(400).json({ message: "Messages held for review cannot be edited" });
+      }
+
+      if (message.userId !== userId || !(await storage.canAccessRoom(userId, message.roomId))) {
+        return res.status(403).json({ message: "You can only edit your own messages" });
+      }
+
+      const updatedMessage = await storage.editMessage(messageId, userId, content);
+      if (!updatedMessage) {
+        return res.status(500).json({ message: "Failed to edit message" });
+      }
+
+      await broadcastToRoom(message.roomId, {
+        type: 'message_updated',
+        roomId: message.roomId,
+        message: updatedMessage
+      });
+      queueModeration({ entityType: 'message', entityId: messageId, authorId: userId, content });
+
+      res.json(updatedMessage);
+    } catch (error) {
+      console.error("Error editing message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // Delete a message (its author or a room moderator can remove it)
+  app.delete("/api/messages/:id", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const userId = req.user!.id;
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      // System messages can only be cleaned up by moderators
+      const isAuthor = message.userId === userId && !message.isSystem;
+      const canDelete = isAuthor
+        ? await storage.canAccessRoom(userId, message.roomId)
+        : await storage.canModerateRoom(userId, message.roomId);
+      if (!canDelete) {
+        return res.status(403).json({ message: "You do not have permission to delete this message" });
+      }
+
+      const deletedMessage = await storage.deleteMessage(messageId);
+      if (!deletedMessage) {
+        return res.status(500).json({ message: "Failed to delete message" });
+      }
+
+      if (!isAuthor) {
+        await storage.logRoomModerationAction({
+          roomId: message.roomId,
+          actorId: userId,
+          targetUserId: message.userId,
+          action: 'message_deleted',
+          details: `Message #${messageId}`
+        });
+      }
+
+      await broadcastToRoom(message.roomId, {
+        type: 'message_deleted',
+        roomId: message.roomId,
+        messageId,
+        parentMessageId: message.parentMessageId,
+        deletedAt: deletedMessage.deletedAt
+      });
+
+      res.json({ message: "Message deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Get a message's thread: the top-level message and all of its replies
+  app.get("/api/messages/:id/thread", isAuthenticated, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const message = await storage.getMessage(messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (!(await storage.canAccessRoom(req.user!.id, message.roomId))) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+
+      // Asking for a reply returns the whole thread it belongs to
+      const thread = await storage.getMessageThread(message.parentMessageId ?? message.id);
+      if (!thread) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      res.json(thread);
+    } catch (error) {
+      console.error("Error fetching message thread:", error);
+      res.status(500).json({ message: "Failed to fetch message thread" });
+    }
+  });
+
+  // Reactions must be a short emoji sequence rather than free text
+  const isValidReactionEmoji = (emoji: unknown): emoji is string =>
+    typeof emoji === 'string' && 
+    emoji.length <= 16 && 
+    /[^\x00-\x7F]/.test(emoji) && 
+    !/[\sA-Za-z]/.test(emoji);
+
+  // React to a message with an emoji
+  app.post("/api/messages/:id/reactions", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const { emoji } = req.body;
+      if (!isValidReactionEmoji(emoji)) {
+        return res.status(400).json({ message: "Invalid emoji" });
+      }
+
+      const userId = req.user!.id;
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt || message.heldAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (!(await storage.canAccessRoom(userId, message.roomId))) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+
+      const reaction = await storage.addMessageReaction({ messageId, userId, emoji });
+
+      // Only announce reactions that were actually new
+      if (reaction) {
+        await broadcastToRoom(message.roomId, {
+          type: 'reaction_added',
+          roomId: message.roomId,
+          messageId,
+          parentMessageId: message.parentMessageId,
+          userId,
+          emoji
+        });
+      }
+
+      res.status(201).json({ messageId, userId, emoji });
+    } catch (error) {
+      console.error("Error adding reaction:", error);
+      res.status(500).json({ message: "Failed to add reaction" });
+    }
+  });
+
+  // Remove the current user's emoji reaction from a message
+  app.delete("/api/messages/:id/reactions/:emoji", isAuthenticated, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const emoji = req.params.emoji;
+      const userId = req.user!.id;
+      const message = await storage.getMessage(messageId);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const removed = await storage.removeMessageReaction(messageId, userId, emoji);
+      if (!removed) {
+        return res.status(404).json({ message: "Reaction not found" });
+      }
+
+      await broadcastToRoom(message.roomId, {
+        type: 'reaction_removed',
+        roomId: message.roomId,
+        messageId,
+        parentMessageId: message.parentMessageId,
+        userId,
+        emoji
+      });
+
+      res.json({ message: "Reaction removed successfully" });
+    } catch (error) {
+      console.error("Error removing reaction:", error);
+      res.status(500).json({ message: "Failed to remove reaction" });
+    }
+  });
+
+  // Get the previous revisions of an edited message
+  app.get("/api/messages/:id/edits", isAuthenticated, async (req, res) => {
+    try {
+      const messageId = parseInt(req.params.id);
+      if (isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid message ID" });
+      }
+
+      const message = await storage.getMessage(messageId);
+      if (!message || message.deletedAt || message.heldAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (!(await storage.canAccessRoom(req.user!.id, message.roomId))) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+
+      const edits = await storage.getMessageEdits(messageId);
+      res.json(edits);
+    } catch (error) {
+      console.error("Error fetching message edits:", error);
+      res.status(500).json({ message: "Failed to fetch message edits" });
+    }
+  });
+
   // Room invitation API routes
   app.get("/api/room-invitations/received", isAuthenticated, async (req, res) => {
     try {
@@ -1319,17 +2184,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Cannot invite users to a self chat room" });
       }
       
+      // Direct conversations are always between exactly two people
+      if (room.isDirect) {
+        return res.status(403).json({ message: "Cannot invite users to a direct conversation" });
+      }
+      
       // Check if the receiver exists
       const receiver = await storage.getUser(userId);
       if (!receiver) {
         return res.status(404).json({ message: "User not found" });
       }
       
+      if (await storage.isBannedFromRoom(userId, roomId)) {
+        return res.status(403).json({ message: "This user is banned from the room" });
+      }
+      
       // Don't allow inviting self
       if (senderId === userId) {
         return res.status(400).json({ message: "You cannot invite yourself" });
       }
       
+      if (await storage.isBlockedBetween(senderId, userId)) {
+        return res.status(403).json({ message: "You can't invite this user" });
+      }
+      
       // Check if invitation already exists
       const sentInvitations = await storage.getSentRoomInvitations(senderId);
       const existingInvitation = sentInvitations.find(
@@ -1347,25 +2225,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         roomId: roomId,
         status: 'pending'
       });
-      
-      // Create notification for receiver
-      await storage.createNotification({
-        userId: userId,
-        type: "room_invitation",
-        message: `${req.user!.username} invited you to join "${room.name}"`,
-        actorId: senderId,
-        entityType: "room_invitation",
-        entityId: invitation.id
-      });
-      
-      // Send a refresh_notifications WebSocket event
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'refresh_notifications'
-          }));
-        }
-      });
+      if (!invitation) {
+        return res.status(403).json({ message: "You can't invite this user" });
+      }
       
       res.status(201).json(invitation);
     } catch (error) {
@@ -1398,20 +2260,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (status === 'accepted' && await storage.isBannedFromRoom(userId, invitation.roomId)) {
+        return res.status(403).json({ message: "You are banned from this room" });
+      }
+      
       // Update the invitation status
       const updatedInvitation = await storage.respondToRoomInvitation(invitationId, status);
       if (!updatedInvitation) {
         return res.status(400).json({ message: "Failed to respond to invitation" });
       }
       
-      // Send a refresh_notifications WebSocket event
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'refresh_notifications'
-          }));
-        }
-      });
+      forgetRoomParticipants(invitation.roomId);
       
       res.json(updatedInvitation);
     } catch (error) {
@@ -1420,7 +2279,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/upload", isAuthenticated, isEmailVerified, upload.single('image'), (req, res) => {
+  app.post("/api/upload", isAuthenticated, isEmailVerified, rateLimit(rateLimitPolicies.uploads), upload.single('image'), (req, res) => {
     if (!req.file) {
       return res.status(400).json({ message: "No file uploaded" });
     }
@@ -1459,7 +2318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/posts", isAuthenticated, isEmailVerified, async (req, res) => {
+  app.post("/api/posts", isAuthenticated, isEmailVerified, rateLimit(rateLimitPolicies.posts), async (req, res) => {
     try {
       const { content, imageUrl, visibility, autoDeleteHours } = req.body;
       const userId = req.user!.id;
@@ -1491,6 +2350,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         visibility: visibility || 'public',
         autoDeleteAt
       });
+      queueModeration({ entityType: 'post', entityId: post.id, authorId: userId, content });
       
       res.status(201).json(post);
     } catch (error) {
@@ -1529,7 +2389,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid post ID" });
       }
       
-      const comments = await storage.getPostComments(postId);
+      const comments = await storage.getPostComments(postId, req.user!.id);
       res.json(comments);
     } catch (error) {
       console.error("Error fetching post comments:", error);
@@ -1537,7 +2397,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/posts/:id/comments", isAuthenticated, isEmailVerified, async (req, res) => {
+  app.post("/api/posts/:id/comments", isAuthenticated, isEmailVerified, rateLimit(rateLimitPolicies.comments), async (req, res) => {
     try {
       const postId = parseInt(req.params.id);
       if (isNaN(postId)) {
@@ -1555,6 +2415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
         postId
       });
+      queueModeration({ entityType: 'comment', entityId: comment.id, authorId: userId, content });
       
       res.status(201).json(comment);
     } catch (error) {
@@ -1630,56 +2491,395 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
 
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Setup WebSocket server. Upgrades are handled manually so the session
+  // cookie can be resolved to a user before the socket is accepted.
+  const wss = new WebSocketServer({ noServer: true });
 
-  // Map clients to rooms
+  // Map sockets to the user resolved from their session
   const clients = new Map<WebSocket, { userId: number, username: string }>();
-
-  wss.on('connection', (ws) => {
-    // Handle WebSocket connection
-    ws.on('message', async (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        // Handle different message types
-        switch (data.type) {
-          case 'auth':
-            // Authenticate user
-            if (data.userId && data.username) {
-              clients.set(ws, { userId: data.userId, username: data.username });
-            }
-            break;
-            
-          case 'message':
-            // Validate and save message
-            if (data.content && data.roomId) {
-              const clientInfo = clients.get(ws);
-              if (!clientInfo) {
-                ws.send(JSON.stringify({ type: 'error', message: 'Not authenticated' }));
-                return;
-              }
-              
-              // Get room info for better notification context
-              const room = await storage.getChatRoom(data.roomId);
-              
-              try {
-                // Check if the user's email is verified before allowing messages
-                const user = await storage.getUser(clientInfo.userId);
-                if (!user || !user.emailVerified) {
-                  ws.send(JSON.stringify({ 
-                    type: 'error', 
-                    error: 'email_verification_required',
-                    message: 'Email verification required to send messages' 
+  
+  // Map room IDs to the sockets subscribed to them
+  const roomSubscriptions = new Map<number, Set<WebSocket>>();
+  
+  // IDs of the people taking part in each subscribed room, loaded on first
+  // use so presence changes don't query every room's access rules
+  const roomParticipantIds = new Map<number, Promise<Set<number>>>();
+  
+  function unsubscribeFromRoom(ws: WebSocket, roomId: number) {
+    const subscribers = roomSubscriptions.get(roomId);
+    if (!subscribers) return;
+    
+    subscribers.delete(ws);
+    if (subscribers.size === 0) {
+      roomSubscriptions.delete(roomId);
+      roomParticipantIds.delete(roomId);
+    }
+  }
+  
+  function getRoomParticipantIds(roomId: number): Promise<Set<number>> {
+    let participantIds = roomParticipantIds.get(roomId);
+    if (!participantIds) {
+      participantIds = storage.getRoomParticipants(roomId)
+        .then((participants) => new Set(participants.map((participant) => participant.id)));
+      roomParticipantIds.set(roomId, participantIds);
+    }
+    return participantIds;
+  }
+  
+  // Called whenever someone joins, leaves or is removed from a room
+  function forgetRoomParticipants(roomId: number) {
+    roomParticipantIds.delete(roomId);
+  }
+  
+  // Send a payload to every socket subscribed to a room whose user still
+  // has access to it. Access is re-checked once per user so that members
+  // who left or were removed stop receiving the room's traffic.
+  async function broadcastToRoom(roomId: number, payload: Record<string, unknown>) {
+    const subscribers = roomSubscriptions.get(roomId);
+    if (!subscribers) return;
+    
+    const accessByUser = new Map<number, boolean>();
+    const serialized = JSON.stringify(payload);
+    
+    for (const client of Array.from(subscribers)) {
+      const clientInfo = clients.get(client);
+      if (!clientInfo || client.readyState !== WebSocket.OPEN) {
+        unsubscribeFromRoom(client, roomId);
+        continue;
+      }
+      
+      if (!accessByUser.has(clientInfo.userId)) {
+        accessByUser.set(clientInfo.userId, await storage.canAccessRoom(clientInfo.userId, roomId));
+      }
+      
+      if (!accessByUser.get(clientInfo.userId)) {
+        unsubscribeFromRoom(client, roomId);
+        continue;
+      }
+      
+      client.send(serialized);
+    }
+  }
+  
+  // Tell a room that a message was held or released, so its content is
+  // hidden or shown again without a reload
+  async function broadcastMessageHold(messageId: number) {
+    const message = await storage.getMessage(messageId);
+    if (!message) return;
+    
+    await broadcastToRoom(message.roomId, {
+      type: 'message_updated',
+      roomId: message.roomId,
+      message: message.heldAt ? { ...message, content: '', imageUrl: null } : message
+    });
+  }
+  
+  // Classify new content after it has been saved so the classifier never
+  // slows down posting; high-risk content is pulled once the verdict is in
+  function queueModeration(target: ModerationTarget) {
+    moderateContent(target)
+      .then(async (verdict) => {
+        if (verdict?.action === 'held' && target.entityType === 'message') {
+          await broadcastMessageHold(target.entityId);
+        }
+      })
+      .catch((error) => console.error("Error moderating content:", error));
+  }
+  
+  // Post an announcement to a room's timeline on behalf of the user who
+  // caused it, e.g. a change to the room's settings
+  async function postSystemMessage(roomId: number, actor: User, content: string) {
+    const message = await storage.createMessage({ content, userId: actor.id, roomId, isSystem: true });
+    
+    await broadcastToRoom(roomId, {
+      type: 'new_message',
+      roomId,
+      message: {
+        ...message,
+        user: {
+          id: actor.id,
+          username: actor.username,
+          profilePicture: actor.profilePicture
+        },
+        replyCount: 0,
+        reactions: []
+      }
+    });
+  }
+  
+  // Let every active room the user takes part in know their presence
+  // changed. Subscribers passed the access check in join_room, so the update
+  // goes straight to their sockets.
+  async function broadcastPresence(userId: number) {
+    const status = getPresence(userId);
+    
+    for (const roomId of Array.from(roomSubscriptions.keys())) {
+      if (!(await getRoomParticipantIds(roomId)).has(userId)) {
+        continue;
+      }
+      
+      const serialized = JSON.stringify({ type: 'presence_update', roomId, userId, status });
+      roomSubscriptions.get(roomId)?.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(serialized);
+        }
+      });
+    }
+  }
+  
+  // Typing indicators are throttled so a burst of typing_start frames only
+  // reaches the room once, and expire if the client never sends typing_stop
+  const TYPING_THROTTLE_MS = 3000;
+  const TYPING_TIMEOUT_MS = 6000;
+  const typingState = new Map<string, { lastBroadcast: number, timeout: NodeJS.Timeout }>();
+  
+  function startTyping(roomId: number, userId: number, username: string) {
+    const key = `${roomId}:${userId}`;
+    const existing = typingState.get(key);
+    const now = Date.now();
+    
+    if (existing) {
+      clearTimeout(existing.timeout);
+    }
+    
+    const timeout = setTimeout(() => stopTyping(roomId, userId, username), TYPING_TIMEOUT_MS);
+    
+    if (existing && now - existing.lastBroadcast < TYPING_THROTTLE_MS) {
+      typingState.set(key, { lastBroadcast: existing.lastBroadcast, timeout });
+      return;
+    }
+    
+    typingState.set(key, { lastBroadcast: now, timeout });
+    broadcastToRoom(roomId, { type: 'typing', roomId, userId, username, isTyping: true });
+  }
+  
+  function stopTyping(roomId: number, userId: number, username: string) {
+    const key = `${roomId}:${userId}`;
+    const existing = typingState.get(key);
+    if (!existing) return;
+    
+    clearTimeout(existing.timeout);
+    typingState.delete(key);
+    broadcastToRoom(roomId, { type: 'typing', roomId, userId, username, isTyping: false });
+  }
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', `http://${req.headers.host}`);
+    
+    // Leave other upgrade requests (e.g. the Vite HMR socket) alone
+    if (pathname !== '/ws') {
+      return;
+    }
+    
+    sessionParser(req as Request, {} as Response, async () => {
+      try {
+        const userId = (req as any).session?.passport?.user;
+        const storedUser = userId ? await storage.getUser(userId) : undefined;
+        const user = storedUser ? await refreshAccountStatus(storedUser) : undefined;
+        
+        if (!user) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        
+        if (getAccountBlockReason(user)) {
+          socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          clients.set(ws, { userId: user.id, username: user.username });
+          registerUserSocket(user.id, ws, (req as Request).sessionID);
+          const presenceChanged = trackSocket(user.id, ws);
+          wss.emit('connection', ws, req);
+          
+          // Tell the client who the server has authenticated it as
+          ws.send(JSON.stringify({
+            type: 'auth_ok',
+            user: {
+              id: user.id,
+              username: user.username,
+              profilePicture: user.profilePicture
+            }
+          }));
+          
+          if (presenceChanged) {
+            broadcastPresence(user.id);
+          }
+        });
+      } catch (error) {
+        console.error('WebSocket authentication error:', error);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+      }
+    });
+  });
+
+  wss.on('connection', (ws) => {
+    // Handle WebSocket connection
+    ws.on('message', async (message) => {
+      try {
+        const data = JSON.parse(message.toString());
+        
+        // Handle different message types
+        switch (data.type) {
+          case 'join_room': {
+            const clientInfo = clients.get(ws);
+            const roomId = Number(data.roomId);
+            if (!clientInfo || !Number.isInteger(roomId)) {
+              ws.send(JSON.stringify({ type: 'error', message: 'Invalid room subscription' }));
+              return;
+            }
+            
+            const hasAccess = await storage.canAccessRoom(clientInfo.userId, roomId);
+            if (!hasAccess) {
+              ws.send(JSON.stringify({ 
+                type: 'error', 
+                error: 'room_access_denied',
+                roomId,
+                message: 'You do not have permission to access this room' 
+              }));
+              return;
+            }
+            
+            if (!roomSubscriptions.has(roomId)) {
+              roomSubscriptions.set(roomId, new Set());
+            }
+            roomSubscriptions.get(roomId)!.add(ws);
+            
+            ws.send(JSON.stringify({ type: 'joined_room', roomId }));
+            break;
+          }
+          
+          case 'leave_room': {
+            const roomId = Number(data.roomId);
+            if (Number.isInteger(roomId)) {
+              unsubscribeFromRoom(ws, roomId);
+            }
+            break;
+          }
+          
+          case 'typing_start':
+          case 'typing_stop': {
+            const clientInfo = clients.get(ws);
+            const roomId = Number(data.roomId);
+            
+            // Only sockets subscribed to the room may signal typing in it
+            if (!clientInfo || !roomSubscriptions.get(roomId)?.has(ws)) {
+              return;
+            }
+            
+            if (data.type === 'typing_start') {
+              startTyping(roomId, clientInfo.userId, clientInfo.username);
+            } else {
+              stopTyping(roomId, clientInfo.userId, clientInfo.username);
+            }
+            break;
+          }
+          
+          case 'presence': {
+            const clientInfo = clients.get(ws);
+            if (!clientInfo || (data.status !== 'online' && data.status !== 'away')) {
+              return;
+            }
+            
+            if (setSocketAway(ws, data.status === 'away')) {
+              await broadcastPresence(clientInfo.userId);
+            }
+            break;
+          }
+          
+          case 'message':
+            // Validate and save message
+            if (data.content && data.roomId) {
+              const clientInfo = clients.get(ws);
+              if (!clientInfo) {
+                ws.send(JSON.stringify({ type: 'error', message: 'Not authenticated' }));
+                return;
+              }
+              
+              const { allowed, retryAfterMs } = await consumeRateLimit(
+                rateLimitPolicies.messages, 
+                `user:${clientInfo.userId}`
+              );
+              if (!allowed) {
+                ws.send(JSON.stringify({ 
+                  type: 'error', 
+                  error: 'rate_limited',
+                  roomId: data.roomId,
+                  message: rateLimitPolicies.messages.message,
+                  retryAfter: Math.ceil(retryAfterMs / 1000)
+                }));
+                return;
+              }
+              
+              // Only allow posting to rooms the user can access
+              const hasAccess = await storage.canAccessRoom(clientInfo.userId, data.roomId);
+              if (!hasAccess) {
+                ws.send(JSON.stringify({ 
+                  type: 'error', 
+                  error: 'room_access_denied',
+                  roomId: data.roomId,
+                  message: 'You do not have permission to access this room' 
+                }));
+                return;
+              }
+              
+              // Get room info for better notification context
+              const room = await storage.getChatRoom(data.roomId);
+              
+              try {
+                // Check if the user's email is verified before allowing messages
+                const user = await storage.getUser(clientInfo.userId);
+                if (!user || !user.emailVerified) {
+                  ws.send(JSON.stringify({ 
+                    type: 'error', 
+                    error: 'email_verification_required',
+                    message: 'Email verification required to send messages' 
                   }));
                   return;
                 }
                 
+                // A block closes the direct conversation between the two users
+                if (room?.isDirect) {
+                  const participants = await storage.getRoomParticipants(data.roomId);
+                  const other = participants.find(p => p.id !== clientInfo.userId);
+                  if (other && await storage.isBlockedBetween(clientInfo.userId, other.id)) {
+                    ws.send(JSON.stringify({ 
+                      type: 'error', 
+                      error: 'user_blocked',
+                      message: 'You can no longer message this user' 
+                    }));
+                    return;
+                  }
+                }
+                
+                // Replies always attach to the top-level message of a thread
+                let threadRoot: Message | undefined;
+                if (data.parentMessageId) {
+                  const parent = await storage.getMessage(data.parentMessageId);
+                  threadRoot = parent?.parentMessageId
+                    ? await storage.getMessage(parent.parentMessageId)
+                    : parent;
+                  
+                  if (!threadRoot || threadRoot.roomId !== data.roomId || threadRoot.deletedAt || threadRoot.isSystem) {
+                    ws.send(JSON.stringify({ 
+                      type: 'error', 
+                      error: 'invalid_parent_message',
+                      message: 'The message you are replying to is not available' 
+                    }));
+                    return;
+                  }
+                }
+                
                 const validatedData = insertMessageSchema.parse({
                   content: data.content,
                   imageUrl: data.imageUrl || null,
                   userId: clientInfo.userId,
-                  roomId: data.roomId
+                  roomId: data.roomId,
+                  parentMessageId: threadRoot?.id ?? null
                 });
                 
                 const newMessage = await storage.createMessage(validatedData);
@@ -1687,28 +2887,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 // Get user with profile picture
                 const userInfo = await storage.getUser(clientInfo.userId);
                 
-                // Get users who are in the room to send notifications
-                // For simplicity, let's get all users with recent messages in the room
-                const messages = await storage.getMessagesByRoomId(data.roomId);
-                const userIds = new Set<number>();
-                
-                messages.forEach(msg => {
-                  if (msg.userId !== clientInfo.userId) { // Don't notify the sender
-                    userIds.add(msg.userId);
+                if (threadRoot) {
+                  // Let the thread's author know someone replied
+                  if (threadRoot.userId !== clientInfo.userId) {
+                    await storage.createNotification({
+                      userId: threadRoot.userId,
+                      type: "thread_reply",
+                      message: `${clientInfo.username} replied to your message in ${room?.name || 'a chat room'}`,
+                      actorId: clientInfo.userId,
+                      entityType: "room",
+                      entityId: data.roomId
+                    });
                   }
-                });
-                
-                // Create notifications for each user
-                Array.from(userIds).forEach(async (userId) => {
-                  await storage.createNotification({
-                    userId,
-                    type: "message",
-                    message: `${clientInfo.username} sent a message in ${room?.name || 'a chat room'}`,
-                    actorId: clientInfo.userId,
-                    entityType: "message",
-                    entityId: newMessage.id
+                } else {
+                  // Get users who are in the room to send notifications
+                  // For simplicity, let's get all users with recent messages in the room.
+                  // Direct conversations always notify the other person.
+                  const recipients = room?.isDirect
+                    ? await storage.getRoomParticipants(data.roomId)
+                    : (await storage.getMessagesByRoomId(data.roomId)).map(msg => ({ id: msg.userId }));
+                  const userIds = new Set<number>();
+                  
+                  recipients.forEach(recipient => {
+                    if (recipient.id && recipient.id !== clientInfo.userId) { // Don't notify the sender
+                      userIds.add(recipient.id);
+                    }
                   });
-                });
+                  
+                  // Create notifications for each user; they are pushed only to
+                  // the recipients' own sockets
+                  for (const userId of Array.from(userIds)) {
+                    await storage.createNotification({
+                      userId,
+                      type: "message",
+                      message: room?.isDirect
+                        ? `${clientInfo.username} sent you a message`
+                        : `${clientInfo.username} sent a message in ${room?.name || 'a chat room'}`,
+                      actorId: clientInfo.userId,
+                      entityType: "message",
+                      entityId: newMessage.id
+                    });
+                  }
+                }
                 
                 // Broadcast to all clients in the same room
                 const messageWithUser = {
@@ -1717,22 +2937,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
                     id: clientInfo.userId,
                     username: clientInfo.username,
                     profilePicture: userInfo?.profilePicture
-                  }
+                  },
+                  replyCount: 0,
+                  reactions: []
                 };
                 
-                wss.clients.forEach((client) => {
-                  if (client.readyState === WebSocket.OPEN) {
-                    client.send(JSON.stringify({
-                      type: 'new_message',
-                      roomId: data.roomId,
-                      message: messageWithUser
-                    }));
-                    
-                    // Also send a refresh notifications event to all clients
-                    client.send(JSON.stringify({
-                      type: 'refresh_notifications'
-                    }));
-                  }
+                // Sending a message ends the sender's typing indicator
+                stopTyping(data.roomId, clientInfo.userId, clientInfo.username);
+                
+                await broadcastToRoom(data.roomId, {
+                  type: 'new_message',
+                  roomId: data.roomId,
+                  message: messageWithUser
+                });
+                queueModeration({
+                  entityType: 'message',
+                  entityId: newMessage.id,
+                  authorId: clientInfo.userId,
+                  content: newMessage.content
                 });
               } catch (error) {
                 ws.send(JSON.stringify({ type: 'error', message: 'Invalid message data' }));
@@ -1746,12 +2968,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
+      const clientInfo = clients.get(ws);
+      
+      roomSubscriptions.forEach((subscribers, roomId) => {
+        // Clear any typing indicator the socket left behind
+        if (clientInfo && subscribers.has(ws)) {
+          stopTyping(roomId, clientInfo.userId, clientInfo.username);
+        }
+        unsubscribeFromRoom(ws, roomId);
+      });
+      
+      if (clientInfo) {
+        unregisterUserSocket(clientInfo.userId, ws);
+        if (untrackSocket(ws)) {
+          broadcastPresence(clientInfo.userId);
+        }
+      }
       clients.delete(ws);
     });
   });
 
   // AI Chatbot API Routes
-  app.post("/api/ai/chat", isAuthenticated, async (req, res) => {
+  app.post("/api/ai/chat", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       const { message, conversationHistory, systemInstruction } = req.body;
       
@@ -1779,7 +3017,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Initialize AI conversation with default instructions
-  app.get("/api/ai/initialize", isAuthenticated, async (req, res) => {
+  app.get("/api/ai/initialize", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       const introduction = await initializeAIConversation();
       res.json({ introduction });
@@ -1790,7 +3028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Initialize AI conversation with custom instructions
-  app.post("/api/ai/initialize-custom", isAuthenticated, async (req, res) => {
+  app.post("/api/ai/initialize-custom", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       const { systemInstruction } = req.body;
       
@@ -1807,7 +3045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Initialize AI profile setup conversation
-  app.get("/api/ai/initialize-profile-setup", isAuthenticated, async (req, res) => {
+  app.get("/api/ai/initialize-profile-setup", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Unauthorized" });
@@ -1822,7 +3060,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Send message to AI during profile setup
-  app.post("/api/ai/message", isAuthenticated, async (req, res) => {
+  app.post("/api/ai/message", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       const { message, conversationHistory } = req.body;
       
@@ -1843,7 +3081,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Analyze profile setup conversation to extract profile data
-  app.post("/api/ai/analyze-profile", isAuthenticated, async (req, res) => {
+  app.post("/api/ai/analyze-profile", isAuthenticated, rateLimit(rateLimitPolicies.ai), async (req, res) => {
     try {
       const { conversationHistory } = req.body;
       
@@ -1895,11 +3133,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get similar users based on interests/hobbies (algorithm-based approach)
-  app.get("/api/ai/similar-users", isAuthenticated, async (req, res) => {
+  app.get("/api/ai/similar-users", isAuthenticated, rateLimit(rateLimitPolicies.recommendations), async (req, res) => {
     try {
-      // Add a small delay to prevent excessive API calls (100-150ms)
-      await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 50));
-      
       const userId = req.user!.id;
       
       // Get current user
@@ -1922,6 +3157,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Never recommend users who are blocked either way or muted
+      const hiddenUserIds = new Set(await storage.getHiddenUserIds(userId));
+      
       // First check if we have cached recommendations
       const cachedRecommendations = await storage.getSimilarUserRecommendations(userId);
       
@@ -1941,8 +3179,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           })
         );
         
-        // Filter out null values (in case a user was deleted)
-        const validUsers = recommendedUsers.filter(user => user !== null);
+        // Filter out null values (in case a user was deleted) and hidden users
+        const validUsers = recommendedUsers.filter(user => user !== null && !hiddenUserIds.has(user.id));
         
         return res.json({
           users: validUsers,
@@ -1960,6 +3198,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Algorithm-based similarity calculation
       const scoredUsers = allUsers
+        .filter(otherUser => !hiddenUserIds.has(otherUser.id))
         .map((otherUser: any) => {
           // Calculate similarity score
           let score = 0;
@@ -2060,11 +3299,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get meetup place recommendations for a chat room
-  app.get("/api/ai/meetup-recommendations/:roomId", isAuthenticated, async (req, res) => {
+  app.get("/api/ai/meetup-recommendations/:roomId", isAuthenticated, rateLimit(rateLimitPolicies.recommendations), async (req, res) => {
     try {
-      // Add a small delay to prevent excessive API calls (100-150ms)
-      await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 50));
-      
       const roomId = parseInt(req.params.roomId);
       if (isNaN(roomId)) {
         return res.status(400).json({ message: "Invalid room ID", places: [] });
@@ -2096,8 +3332,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Get messages to analyze room activity
-      const messages = await storage.getMessagesByRoomId(roomId);
+      // Get recent messages to analyze room activity
+      const messages = await storage.getMessagesByRoomId(roomId, { limit: 200 });
       
       // Get all participants
       const seenParticipantIds = new Map<number, boolean>();
@@ -2213,10 +3449,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userMemberships = await storage.getRoomMembershipsForUser(userId);
       const userRoomIds = new Set(userMemberships.map(m => m.roomId));
       
-      // Add a 'isMember' property to each room
+      const pendingRequestRoomIds = new Set(await storage.getPendingJoinRequestRoomIds(userId));
+      
+      // Add 'isMember' and 'joinRequestPending' properties to each room
       const roomsWithMemberStatus = publicRooms.map(room => ({
         ...room,
-        isMember: room.creatorId === userId || userRoomIds.has(room.id)
+        isMember: room.creatorId === userId || userRoomIds.has(room.id),
+        joinRequestPending: pendingRequestRoomIds.has(room.id)
       }));
       
       res.json(roomsWithMemberStatus);
@@ -2295,6 +3534,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "This room is not public" });
       }
       
+      if (room.joinPolicy === 'request') {
+        return res.status(403).json({ message: "This room requires approval to join. Send a join request instead." });
+      }
+      
+      if (room.joinPolicy === 'invite_only') {
+        return res.status(403).json({ message: "This room can only be joined by invitation" });
+      }
+      
+      if (await storage.isBannedFromRoom(userId, roomId)) {
+        return res.status(403).json({ message: "You are banned from this room" });
+      }
+      
       // Check if user is already a member
       const isMember = await storage.isRoomMember(userId, roomId);
       if (isMember) {
@@ -2307,6 +3558,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to join room" });
       }
       
+      forgetRoomParticipants(roomId);
+      
       // Create notification for room creator
       if (room.creatorId !== userId) {
         const user = await storage.getUser(userId);
@@ -2328,8 +3581,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Leave a room
-  app.post("/api/rooms/:id/leave", isAuthenticated, async (req, res) => {
+  // Ask to join a public room that requires approval
+  app.post("/api/public-rooms/:id/join-requests", isAuthenticated, isEmailVerified, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
       if (isNaN(roomId)) {
@@ -2338,64 +3591,855 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const userId = req.user!.id;
       
-      // Check if room exists
       const room = await storage.getChatRoom(roomId);
       if (!room) {
         return res.status(404).json({ message: "Room not found" });
       }
       
-      // Creator cannot leave their own room
-      if (room.creatorId === userId) {
-        return res.status(400).json({ message: "You cannot leave a room you created" });
+      if (!room.isPublic || room.joinPolicy !== 'request') {
+        return res.status(400).json({ message: "This room does not take join requests" });
       }
       
-      // Check if user is a member
-      const isMember = await storage.isRoomMember(userId, roomId);
-      if (!isMember) {
-        return res.status(400).json({ message: "You are not a member of this room" });
+      if (await storage.isBannedFromRoom(userId, roomId)) {
+        return res.status(403).json({ message: "You are banned from this room" });
       }
       
-      // Leave the room
-      const success = await storage.leaveRoom(userId, roomId);
-      if (!success) {
-        return res.status(500).json({ message: "Failed to leave room" });
+      if (await storage.isRoomMember(userId, roomId)) {
+        return res.status(400).json({ message: "You are already a member of this room" });
       }
       
-      res.status(200).json({ message: "Successfully left room" });
+      // Admins are notified once per request, so asking again has to wait
+      // for the current one to be reviewed, and a while after a denial
+      const existing = await storage.getRoomJoinRequestForUser(roomId, userId);
+      if (existing?.status === 'pending') {
+        return res.status(409).json({ message: "You have already asked to join this room" });
+      }
+      
+      if (existing?.status === 'denied' && existing.reviewedAt) {
+        const retryAfterMs = existing.reviewedAt.getTime() + JOIN_REQUEST_RETRY_DELAY_MS - Date.now();
+        if (retryAfterMs > 0) {
+          const retryAfter = Math.ceil(retryAfterMs / 1000);
+          res.set("Retry-After", String(retryAfter));
+          return res.status(429).json({
+            message: "Your request to join this room was declined. Please wait before asking again",
+            retryAfter
+          });
+        }
+      }
+      
+      const message = typeof req.body.message === 'string'
+        ? req.body.message.trim().slice(0, 500) || undefined
+        : undefined;
+      
+      // Nothing is returned when another request got in first
+      const request = await storage.createRoomJoinRequest(roomId, userId, message);
+      if (!request) {
+        return res.status(409).json({ message: "You have already asked to join this room" });
+      }
+      
+      // Let everyone who can approve the request know about it
+      const adminIds = await storage.getRoomAdminIds(roomId);
+      for (const adminId of adminIds) {
+        await storage.createNotification({
+          userId: adminId,
+          type: 'join_request',
+          actorId: userId,
+          entityId: roomId,
+          entityType: 'room',
+          message: `${req.user!.username} asked to join "${room.name}"`,
+          isRead: false,
+        });
+      }
+      
+      res.status(201).json(request);
     } catch (error) {
-      console.error("Error leaving room:", error);
-      res.status(500).json({ message: "Failed to leave room" });
+      console.error("Error creating join request:", error);
+      res.status(500).json({ message: "Failed to send join request" });
     }
   });
   
-  // Get room members
-  app.get("/api/rooms/:id/members", isAuthenticated, async (req, res) => {
+  // Withdraw a pending join request
+  app.delete("/api/public-rooms/:id/join-requests", isAuthenticated, async (req, res) => {
     try {
       const roomId = parseInt(req.params.id);
       if (isNaN(roomId)) {
         return res.status(400).json({ message: "Invalid room ID" });
       }
       
-      const userId = req.user!.id;
+      const cancelled = await storage.cancelRoomJoinRequest(roomId, req.user!.id);
+      if (!cancelled) {
+        return res.status(404).json({ message: "No pending join request found" });
+      }
+      
+      res.json({ message: "Join request withdrawn" });
+    } catch (error) {
+      console.error("Error cancelling join request:", error);
+      res.status(500).json({ message: "Failed to withdraw join request" });
+    }
+  });
+  
+  // Pending join requests for a room (admins only)
+  app.get("/api/rooms/:id/join-requests", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const isAdmin = await storage.isRoomAdmin(req.user!.id, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can review join requests" });
+      }
+      
+      const requests = await storage.getPendingRoomJoinRequests(roomId);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching join requests:", error);
+      res.status(500).json({ message: "Failed to fetch join requests" });
+    }
+  });
+  
+  // Approve or deny a join request
+  app.patch("/api/rooms/:id/join-requests/:requestId", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const requestId = parseInt(req.params.requestId);
+      if (isNaN(roomId) || isNaN(requestId)) {
+        return res.status(400).json({ message: "Invalid request" });
+      }
+      
+      const { status } = req.body;
+      if (status !== 'approved' && status !== 'denied') {
+        return res.status(400).json({ message: "Status must be 'approved' or 'denied'" });
+      }
       
-      // Check if room exists
       const room = await storage.getChatRoom(roomId);
       if (!room) {
         return res.status(404).json({ message: "Room not found" });
       }
       
-      // Check if user has access to this room
-      const hasAccess = await storage.isRoomMember(userId, roomId);
-      if (!hasAccess && !room.isPublic) {
-        return res.status(403).json({ message: "You do not have permission to access this room" });
+      const isAdmin = await storage.isRoomAdmin(req.user!.id, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can review join requests" });
       }
       
-      // Get room members
-      const members = await storage.getRoomMembers(roomId);
-      res.json(members);
-    } catch (error) {
-      console.error("Error fetching room members:", error);
-      res.status(500).json({ message: "Failed to fetch room members" });
+      const joinRequest = await storage.getRoomJoinRequest(requestId);
+      if (!joinRequest || joinRequest.roomId !== roomId) {
+        return res.status(404).json({ message: "Join request not found" });
+      }
+      
+      if (joinRequest.status !== 'pending') {
+        return res.status(400).json({ message: "This join request has already been reviewed" });
+      }
+      
+      const approve = status === 'approved';
+      if (approve && await storage.isBannedFromRoom(joinRequest.userId, roomId)) {
+        return res.status(400).json({ message: "This user is banned from the room" });
+      }
+      
+      const reviewed = await storage.reviewRoomJoinRequest(requestId, req.user!.id, approve);
+      if (!reviewed) {
+        return res.status(409).json({ message: "This join request has already been reviewed" });
+      }
+      
+      forgetRoomParticipants(roomId);
+      
+      await storage.createNotification({
+        userId: joinRequest.userId,
+        type: approve ? 'join_request_approved' : 'join_request_denied',
+        actorId: req.user!.id,
+        entityId: roomId,
+        entityType: 'room',
+        message: approve
+          ? `Your request to join "${room.name}" was approved`
+          : `Your request to join "${room.name}" was declined`,
+        isRead: false,
+      });
+      
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing join request:", error);
+      res.status(500).json({ message: "Failed to review join request" });
+    }
+  });
+  
+  // Leave a room
+  app.post("/api/rooms/:id/leave", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const userId = req.user!.id;
+      
+      // Check if room exists
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      // The owner has to hand the room over before leaving it
+      if (room.creatorId === userId) {
+        return res.status(400).json({ message: "Transfer ownership to another member before leaving a room you own" });
+      }
+      
+      if (room.isDirect) {
+        return res.status(400).json({ message: "You cannot leave a direct conversation" });
+      }
+      
+      // Check if user is a member
+      const isMember = await storage.isRoomMember(userId, roomId);
+      if (!isMember) {
+        return res.status(400).json({ message: "You are not a member of this room" });
+      }
+      
+      // Leave the room
+      const success = await storage.leaveRoom(userId, roomId);
+      if (!success) {
+        return res.status(500).json({ message: "Failed to leave room" });
+      }
+      
+      forgetRoomParticipants(roomId);
+      
+      res.status(200).json({ message: "Successfully left room" });
+    } catch (error) {
+      console.error("Error leaving room:", error);
+      res.status(500).json({ message: "Failed to leave room" });
+    }
+  });
+  
+  // Get room members
+  app.get("/api/rooms/:id/members", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const userId = req.user!.id;
+      
+      // Check if room exists
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      // Check if user has access to this room
+      const hasAccess = await storage.isRoomMember(userId, roomId);
+      if (!hasAccess && !room.isPublic) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      // Get room members
+      const members = await storage.getRoomMembers(roomId);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching room members:", error);
+      res.status(500).json({ message: "Failed to fetch room members" });
+    }
+  });
+  
+  // Get the live presence roster for a room
+  app.get("/api/rooms/:id/presence", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const userId = req.user!.id;
+      
+      // Check if room exists
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      // Presence is only visible to people who can access the room
+      const hasAccess = await storage.canAccessRoom(userId, roomId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      const participants = await storage.getRoomParticipants(roomId);
+      const statusOrder = { online: 0, away: 1, offline: 2 };
+      
+      // Attach each participant's status, listing online users first
+      const roster = participants
+        .map(participant => ({
+          ...participant,
+          status: getPresence(participant.id!)
+        }))
+        .sort((a, b) => 
+          statusOrder[a.status] - statusOrder[b.status] || 
+          (a.username || '').localeCompare(b.username || '')
+        );
+      
+      res.json(roster);
+    } catch (error) {
+      console.error("Error fetching room presence:", error);
+      res.status(500).json({ message: "Failed to fetch room presence" });
+    }
+  });
+
+  // Mark a room as read up to the given message
+  app.post("/api/rooms/:id/read", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const messageId = parseInt(req.body.messageId);
+      if (isNaN(roomId) || isNaN(messageId)) {
+        return res.status(400).json({ message: "Invalid room or message ID" });
+      }
+      
+      const userId = req.user!.id;
+      const hasAccess = await storage.canAccessRoom(userId, roomId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      const message = await storage.getMessage(messageId);
+      if (!message || message.roomId !== roomId) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      
+      const receipt = await storage.markRoomRead(userId, roomId, messageId);
+      if (!receipt) {
+        return res.status(500).json({ message: "Failed to mark room as read" });
+      }
+      
+      // Let the room update its "seen by" indicators
+      await broadcastToRoom(roomId, {
+        type: 'read_receipt',
+        roomId,
+        userId,
+        lastReadMessageId: receipt.lastReadMessageId
+      });
+      
+      res.json(receipt);
+    } catch (error) {
+      console.error("Error marking room as read:", error);
+      res.status(500).json({ message: "Failed to mark room as read" });
+    }
+  });
+  
+  // Get how far each participant has read in a room
+  app.get("/api/rooms/:id/read-receipts", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+      
+      const hasAccess = await storage.canAccessRoom(req.user!.id, roomId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+      
+      const readStates = await storage.getRoomReadStates(roomId);
+      res.json(readStates);
+    } catch (error) {
+      console.error("Error fetching read receipts:", error);
+      res.status(500).json({ message: "Failed to fetch read receipts" });
+    }
+  });
+
+  // Get the current user's standing in a room
+  app.get("/api/rooms/:id/membership", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+
+      const userId = req.user!.id;
+      const hasAccess = await storage.canAccessRoom(userId, roomId);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "You do not have permission to access this room" });
+      }
+
+      const role = await storage.getRoomRole(userId, roomId);
+      res.json({
+        isMember: await storage.isRoomMember(userId, roomId),
+        isAdmin: !!role && roomRoleRank[role] >= roomRoleRank.admin,
+        canModerate: !!role && roomRoleRank[role] >= roomRoleRank.moderator,
+        role
+      });
+    } catch (error) {
+      console.error("Error fetching room membership:", error);
+      res.status(500).json({ message: "Failed to fetch room membership" });
+    }
+  });
+
+  // Change a member's role. Admins can appoint moderators; only the owner
+  // can appoint admins. Nobody can change the role of someone ranked at or
+  // above themselves.
+  app.patch("/api/rooms/:id/members/:userId/role", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const targetUserId = parseInt(req.params.userId);
+      if (isNaN(roomId) || isNaN(targetUserId)) {
+        return res.status(400).json({ message: "Invalid room or user ID" });
+      }
+
+      const role = req.body.role as RoomRole;
+      if (role !== 'admin' && role !== 'moderator' && role !== 'member') {
+        return res.status(400).json({ message: "Role must be 'admin', 'moderator' or 'member'" });
+      }
+
+      const userId = req.user!.id;
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (room.isDirect || room.isSelfChat) {
+        return res.status(400).json({ message: "This room does not have roles" });
+      }
+
+      const actorRole = await storage.getRoomRole(userId, roomId);
+      if (!actorRole || roomRoleRank[actorRole] < roomRoleRank.admin) {
+        return res.status(403).json({ message: "Only room admins can change roles" });
+      }
+
+      const targetRole = await storage.getRoomRole(targetUserId, roomId);
+      if (!targetRole) {
+        return res.status(404).json({ message: "User is not a member of this room" });
+      }
+
+      if (roomRoleRank[targetRole] >= roomRoleRank[actorRole] || roomRoleRank[role] >= roomRoleRank[actorRole]) {
+        return res.status(403).json({ message: "You cannot assign this role" });
+      }
+
+      if (targetRole === role) {
+        return res.status(400).json({ message: `User is already a ${role}` });
+      }
+
+      const membership = await storage.setRoomMemberRole(roomId, targetUserId, role);
+      if (!membership) {
+        return res.status(500).json({ message: "Failed to change role" });
+      }
+
+      await storage.logRoomModerationAction({
+        roomId,
+        actorId: userId,
+        targetUserId,
+        action: 'role_changed',
+        details: `${targetRole} → ${role}`
+      });
+
+      await storage.createNotification({
+        userId: targetUserId,
+        type: 'room_role',
+        actorId: userId,
+        entityId: roomId,
+        entityType: 'room',
+        message: `${req.user!.username} made you ${role === 'member' ? 'a member' : `a ${role}`} of "${room.name}"`,
+        isRead: false,
+      });
+
+      await broadcastToRoom(roomId, {
+        type: 'member_role_updated',
+        roomId,
+        userId: targetUserId,
+        role
+      });
+
+      res.json(membership);
+    } catch (error) {
+      console.error("Error changing member role:", error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Remove a member from a room. They can rejoin a public room afterwards;
+  // use a ban to keep them out.
+  app.post("/api/rooms/:id/members/:userId/kick", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const targetUserId = parseInt(req.params.userId);
+      if (isNaN(roomId) || isNaN(targetUserId)) {
+        return res.status(400).json({ message: "Invalid room or user ID" });
+      }
+
+      const userId = req.user!.id;
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (room.isDirect || room.isSelfChat) {
+        return res.status(400).json({ message: "Members cannot be removed from this room" });
+      }
+
+      const actorRole = await storage.getRoomRole(userId, roomId);
+      if (!actorRole || roomRoleRank[actorRole] < roomRoleRank.moderator) {
+        return res.status(403).json({ message: "Only room moderators can remove members" });
+      }
+
+      const targetRole = await storage.getRoomRole(targetUserId, roomId);
+      if (!targetRole) {
+        return res.status(404).json({ message: "User is not a member of this room" });
+      }
+
+      if (roomRoleRank[targetRole] >= roomRoleRank[actorRole]) {
+        return res.status(403).json({ message: "You cannot remove this member" });
+      }
+
+      const success = await storage.removeRoomMember(roomId, targetUserId);
+      if (!success) {
+        return res.status(500).json({ message: "Failed to remove member" });
+      }
+
+      forgetRoomParticipants(roomId);
+
+      await storage.logRoomModerationAction({
+        roomId,
+        actorId: userId,
+        targetUserId,
+        action: 'kicked',
+        details: null
+      });
+
+      await storage.createNotification({
+        userId: targetUserId,
+        type: 'room_removed',
+        actorId: userId,
+        entityId: roomId,
+        entityType: 'chat_room',
+        message: `You were removed from "${room.name}"`,
+        isRead: false,
+      });
+
+      sendToUser(targetUserId, { type: 'room_removed', roomId, reason: 'kicked' });
+      await broadcastToRoom(roomId, { type: 'member_removed', roomId, userId: targetUserId });
+
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      console.error("Error removing room member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // List the users banned from a room
+  app.get("/api/rooms/:id/bans", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+
+      const canModerate = await storage.canModerateRoom(req.user!.id, roomId);
+      if (!canModerate) {
+        return res.status(403).json({ message: "Only room moderators can view bans" });
+      }
+
+      const bans = await storage.getRoomBans(roomId);
+      res.json(bans);
+    } catch (error) {
+      console.error("Error fetching room bans:", error);
+      res.status(500).json({ message: "Failed to fetch room bans" });
+    }
+  });
+
+  // Ban a user from a room, removing them if they are a member
+  app.post("/api/rooms/:id/bans", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const targetUserId = parseInt(req.body.userId);
+      if (isNaN(roomId) || isNaN(targetUserId)) {
+        return res.status(400).json({ message: "Invalid room or user ID" });
+      }
+
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+      if (reason.length > 500) {
+        return res.status(400).json({ message: "Reason must be at most 500 characters" });
+      }
+
+      const userId = req.user!.id;
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (room.isDirect || room.isSelfChat) {
+        return res.status(400).json({ message: "Users cannot be banned from this room" });
+      }
+
+      const actorRole = await storage.getRoomRole(userId, roomId);
+      if (!actorRole || roomRoleRank[actorRole] < roomRoleRank.moderator) {
+        return res.status(403).json({ message: "Only room moderators can ban users" });
+      }
+
+      const targetUser = await storage.getUser(targetUserId);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Users who aren't in the room can be banned pre-emptively
+      const targetRole = await storage.getRoomRole(targetUserId, roomId);
+      if (targetUserId === userId || (targetRole && roomRoleRank[targetRole] >= roomRoleRank[actorRole])) {
+        return res.status(403).json({ message: "You cannot ban this user" });
+      }
+
+      const ban = await storage.banRoomMember(roomId, targetUserId, userId, reason || undefined);
+      if (!ban) {
+        return res.status(400).json({ message: "User is already banned from this room" });
+      }
+
+      forgetRoomParticipants(roomId);
+
+      await storage.logRoomModerationAction({
+        roomId,
+        actorId: userId,
+        targetUserId,
+        action: 'banned',
+        details: reason || null
+      });
+
+      if (targetRole) {
+        await storage.createNotification({
+          userId: targetUserId,
+          type: 'room_removed',
+          actorId: userId,
+          entityId: roomId,
+          entityType: 'chat_room',
+          message: `You were banned from "${room.name}"${reason ? `: ${reason}` : ''}`,
+          isRead: false,
+        });
+
+        sendToUser(targetUserId, { type: 'room_removed', roomId, reason: 'banned' });
+        await broadcastToRoom(roomId, { type: 'member_removed', roomId, userId: targetUserId });
+      }
+
+      res.status(201).json(ban);
+    } catch (error) {
+      console.error("Error banning user:", error);
+      res.status(500).json({ message: "Failed to ban user" });
+    }
+  });
+
+  // Lift a ban
+  app.delete("/api/rooms/:id/bans/:userId", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const targetUserId = parseInt(req.params.userId);
+      if (isNaN(roomId) || isNaN(targetUserId)) {
+        return res.status(400).json({ message: "Invalid room or user ID" });
+      }
+
+      const userId = req.user!.id;
+      const canModerate = await storage.canModerateRoom(userId, roomId);
+      if (!canModerate) {
+        return res.status(403).json({ message: "Only room moderators can unban users" });
+      }
+
+      const success = await storage.unbanRoomMember(roomId, targetUserId);
+      if (!success) {
+        return res.status(404).json({ message: "User is not banned from this room" });
+      }
+
+      await storage.logRoomModerationAction({
+        roomId,
+        actorId: userId,
+        targetUserId,
+        action: 'unbanned',
+        details: null
+      });
+
+      res.json({ message: "User unbanned successfully" });
+    } catch (error) {
+      console.error("Error unbanning user:", error);
+      res.status(500).json({ message: "Failed to unban user" });
+    }
+  });
+
+  // Get the audit trail of moderation actions in a room
+  app.get("/api/rooms/:id/moderation-log", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+
+      const canModerate = await storage.canModerateRoom(req.user!.id, roomId);
+      if (!canModerate) {
+        return res.status(403).json({ message: "Only room moderators can view the moderation log" });
+      }
+
+      const log = await storage.getRoomModerationLog(roomId);
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching moderation log:", error);
+      res.status(500).json({ message: "Failed to fetch moderation log" });
+    }
+  });
+
+  // List a room's active invite links with their usage
+  app.get("/api/rooms/:id/invite-links", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+
+      const isAdmin = await storage.isRoomAdmin(req.user!.id, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can manage invite links" });
+      }
+
+      const links = await storage.getRoomInviteLinks(roomId);
+      res.json(links);
+    } catch (error) {
+      console.error("Error fetching invite links:", error);
+      res.status(500).json({ message: "Failed to fetch invite links" });
+    }
+  });
+
+  // Create an invite link, optionally expiring or limited to a number of uses
+  app.post("/api/rooms/:id/invite-links", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      if (isNaN(roomId)) {
+        return res.status(400).json({ message: "Invalid room ID" });
+      }
+
+      const result = createInviteLinkSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid expiry or usage limit" });
+      }
+
+      const userId = req.user!.id;
+      const room = await storage.getChatRoom(roomId);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      if (room.isDirect || room.isSelfChat) {
+        return res.status(400).json({ message: "Invite links cannot be created for this room" });
+      }
+
+      const isAdmin = await storage.isRoomAdmin(userId, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can manage invite links" });
+      }
+
+      const { expiresInHours, maxUses } = result.data;
+      const link = await storage.createRoomInviteLink({
+        roomId,
+        code: randomBytes(6).toString('hex'),
+        createdById: userId,
+        maxUses: maxUses ?? null,
+        expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : null,
+      });
+
+      res.status(201).json({ ...link, createdBy: { id: userId, username: req.user!.username } });
+    } catch (error) {
+      console.error("Error creating invite link:", error);
+      res.status(500).json({ message: "Failed to create invite link" });
+    }
+  });
+
+  // Revoke an invite link
+  app.delete("/api/rooms/:id/invite-links/:linkId", isAuthenticated, async (req, res) => {
+    try {
+      const roomId = parseInt(req.params.id);
+      const linkId = parseInt(req.params.linkId);
+      if (isNaN(roomId) || isNaN(linkId)) {
+        return res.status(400).json({ message: "Invalid room or link ID" });
+      }
+
+      const isAdmin = await storage.isRoomAdmin(req.user!.id, roomId);
+      if (!isAdmin) {
+        return res.status(403).json({ message: "Only room admins can manage invite links" });
+      }
+
+      const success = await storage.revokeRoomInviteLink(roomId, linkId);
+      if (!success) {
+        return res.status(404).json({ message: "Invite link not found" });
+      }
+
+      res.json({ message: "Invite link revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking invite link:", error);
+      res.status(500).json({ message: "Failed to revoke invite link" });
+    }
+  });
+
+  // Preview the room behind an invite link before joining
+  app.get("/api/invite-links/:code", isAuthenticated, async (req, res) => {
+    try {
+      const link = await storage.getRoomInviteLinkByCode(req.params.code);
+      const room = link && await storage.getChatRoom(link.roomId);
+      if (!link || !room) {
+        return res.status(404).json({ message: "Invite link not found" });
+      }
+
+      const userId = req.user!.id;
+      const isBanned = await storage.isBannedFromRoom(userId, room.id);
+
+      res.json({
+        code: link.code,
+        isValid: isInviteLinkUsable(link) && !isBanned,
+        isMember: await storage.canAccessRoom(userId, room.id),
+        room: {
+          id: room.id,
+          name: room.name,
+          description: room.description,
+          isPublic: room.isPublic,
+          totalMembers: room.totalMembers
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching invite link:", error);
+      res.status(500).json({ message: "Failed to fetch invite link" });
+    }
+  });
+
+  // Join a room through an invite link
+  app.post("/api/invite-links/:code/accept", isAuthenticated, isEmailVerified, async (req, res) => {
+    try {
+      const link = await storage.getRoomInviteLinkByCode(req.params.code);
+      const room = link && await storage.getChatRoom(link.roomId);
+      if (!link || !room) {
+        return res.status(404).json({ message: "Invite link not found" });
+      }
+
+      const userId = req.user!.id;
+      if (await storage.isBannedFromRoom(userId, room.id)) {
+        return res.status(403).json({ message: "You are banned from this room" });
+      }
+
+      // Opening a link to a room you're already in just takes you there
+      if (await storage.canAccessRoom(userId, room.id)) {
+        return res.json({ message: "You are already a member of this room", roomId: room.id });
+      }
+
+      if (!isInviteLinkUsable(link)) {
+        return res.status(410).json({ message: "This invite link has expired or reached its usage limit" });
+      }
+
+      const membership = await storage.redeemRoomInviteLink(link.code, userId);
+      if (!membership) {
+        return res.status(410).json({ message: "This invite link has expired or reached its usage limit" });
+      }
+
+      forgetRoomParticipants(room.id);
+
+      await storage.createNotification({
+        userId: room.creatorId,
+        type: 'room_join',
+        actorId: userId,
+        entityId: room.id,
+        entityType: 'chat_room',
+        message: `${req.user!.username} joined your room "${room.name}" with an invite link`,
+        isRead: false,
+      });
+
+      res.status(201).json({ message: "Successfully joined room", roomId: room.id, membership });
+    } catch (error) {
+      console.error("Error accepting invite link:", error);
+      res.status(500).json({ message: "Failed to join room" });
     }
   });
 
@@ -0,0 +1,91 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { getTableName, type Table } from "drizzle-orm";
+
+// The pool connects lazily, but the module refuses to load without a URL.
+// Transactions are replaced below, so nothing here reaches a database.
+process.env.DATABASE_URL ??= "postgres://storage-test@localhost:5432/unused";
+
+const { storage } = await import("./storage");
+const { db } = await import("./db");
+
+type Row = Record<string, unknown>;
+
+/**
+ * A transaction over fixed rows for one room. Filters are ignored, so each
+ * table should only hold rows for the room under test.
+ */
+function fakeTransaction(rows: Record<string, Row[]>) {
+  const inserted: { table: string; values: Row[] }[] = [];
+  const tableRows = (table: Table) => rows[getTableName(table)] ?? [];
+
+  const tx = {
+    select: () => ({
+      from: (table: Table) => ({
+        where: async () => tableRows(table),
+      }),
+    }),
+    update: (table: Table) => ({
+      set: (values: Row) => ({
+        where: () => ({
+          returning: async () => [{ ...tableRows(table)[0], ...values }],
+        }),
+      }),
+    }),
+    insert: (table: Table) => ({
+      values: (values: Row[]) => ({
+        onConflictDoNothing: async () => {
+          inserted.push({ table: getTableName(table), values });
+        },
+      }),
+    }),
+  };
+
+  mock.method(db, "transaction", async (run: (transaction: typeof tx) => Promise<unknown>) => run(tx));
+  return inserted;
+}
+
+describe("updateChatRoom", () => {
+  const privateRoom = { id: 5, creatorId: 1, isPublic: false, name: "Study group" };
+  const acceptedInvitees = [{ userId: 1 }, { userId: 2 }, { userId: 3 }, { userId: 4 }];
+
+  afterEach(() => mock.restoreAll());
+
+  it("makes accepted invitees members when a private room goes public", async () => {
+    const inserted = fakeTransaction({
+      chat_rooms: [privateRoom],
+      room_invitations: acceptedInvitees,
+      room_bans: [{ userId: 4 }],
+    });
+
+    const room = await storage.updateChatRoom(5, { isPublic: true, category: "study" });
+
+    assert.equal(room?.isPublic, true);
+    // The creator already owns the room and banned users stay out
+    assert.deepEqual(inserted, [{
+      table: "room_memberships",
+      values: [
+        { roomId: 5, userId: 2, role: "member" },
+        { roomId: 5, userId: 3, role: "member" },
+      ],
+    }]);
+  });
+
+  it("leaves memberships alone when visibility doesn't go from private to public", async () => {
+    const renamed = fakeTransaction({ chat_rooms: [privateRoom], room_invitations: acceptedInvitees });
+    await storage.updateChatRoom(5, { name: "Exam prep" });
+    assert.deepEqual(renamed, []);
+
+    mock.restoreAll();
+    const madePrivate = fakeTransaction({ chat_rooms: [{ ...privateRoom, isPublic: true }], room_invitations: acceptedInvitees });
+    await storage.updateChatRoom(5, { isPublic: false });
+    assert.deepEqual(madePrivate, []);
+  });
+
+  it("returns undefined for a room that doesn't exist", async () => {
+    const inserted = fakeTransaction({ chat_rooms: [] });
+
+    assert.equal(await storage.updateChatRoom(5, { isPublic: true }), undefined);
+    assert.deepEqual(inserted, []);
+  });
+});
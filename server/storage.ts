@@ -1,22 +1,99 @@
 import { users, chatRooms, messages, follows, friendRequests, notifications, roomInvitations, 
   posts, comments, postLikes, userRecommendations, placeRecommendations,
-  roomMemberships, roomRecommendations } from "@shared/schema";
+  roomMemberships, roomRecommendations, messageEdits, messageReactions, roomReadReceipts,
+  directConversations, roomBans, roomModerationActions, roomInviteLinks, roomJoinRequests, userBlocks, reports, moderationVerdicts, passwordResetTokens, twoFactorBackupCodes, rateLimits, oauthAccounts, roomRoleRank } from "@shared/schema";
 import type { 
   User, InsertUser, ChatRoom, InsertChatRoom, Message, InsertMessage, MessageWithUser,
   Follow, InsertFollow, FriendRequest, InsertFriendRequest, Notification, InsertNotification,
   RoomInvitation, InsertRoomInvitation, Post, InsertPost, PostWithUser,
   Comment, InsertComment, CommentWithUser, PostLike, InsertPostLike,
   UserRecommendation, InsertUserRecommendation, PlaceRecommendation, InsertPlaceRecommendation,
-  RoomMembership, InsertRoomMembership, RoomRecommendation, InsertRoomRecommendation
+  RoomMembership, InsertRoomMembership, RoomRecommendation, InsertRoomRecommendation,
+  MessageEdit, MessageThread, MessageReaction, InsertMessageReaction, ReactionSummary,
+  RoomReadReceipt, RoomReadState, RoomUnreadCount, DirectConversation, DirectConversationWithUser,
+  SearchResults, UpdateChatRoom, RoomRole, RoomParticipant, RoomBan, RoomBanWithUser,
+  RoomModerationAction, InsertRoomModerationAction, RoomModerationActionWithUsers,
+  RoomInviteLink, InsertRoomInviteLink, RoomInviteLinkWithCreator, RoomJoinRequest, RoomJoinRequestWithUser,
+  UserBlock, UserBlockType, UserBlockWithUser,
+  Report, InsertReport, ReportEntityType, ReportWithUsers,
+  ModerationVerdict, InsertModerationVerdict, ModeratedEntityType,
+  AdminUserSummary, PlatformStats, PasswordResetToken, TwoFactorStatus, UserSession, InsertOauthAccount
 } from "@shared/schema";
 import session from "express-session";
 import { db } from "./db";
-import { eq, ne, desc, count, and, gt, lt } from "drizzle-orm";
+import { eq, ne, asc, desc, count, and, or, gt, lt, lte, isNull, sql } from "drizzle-orm";
 import connectPgSimple from "connect-pg-simple";
 import { pool } from "./db";
+import { dispatchNotification } from "./notifications";
 
 const PostgresStore = connectPgSimple(session);
 
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// How long someone whose join request was declined waits before asking again
+export const JOIN_REQUEST_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Message ids are used as cursors since they increase with creation time
+export type MessagePageOptions = {
+  before?: number;
+  after?: number;
+  limit?: number;
+};
+
+// Rooms user $1 can read, mirroring canAccessRoom
+const ACCESSIBLE_ROOMS_SQL = `
+  SELECT r.id FROM chat_rooms r
+  WHERE r.creator_id = $1
+    OR (NOT COALESCE(r.is_self_chat, false) AND NOT EXISTS (
+      SELECT 1 FROM room_bans rb WHERE rb.room_id = r.id AND rb.user_id = $1
+    ) AND (
+      EXISTS (SELECT 1 FROM room_memberships rm WHERE rm.room_id = r.id AND rm.user_id = $1)
+      OR (NOT COALESCE(r.is_public, false) AND EXISTS (
+        SELECT 1 FROM room_invitations ri
+        WHERE ri.room_id = r.id AND ri.receiver_id = $1 AND ri.status = 'accepted'
+      ))
+    ))
+`;
+
+// Whether post `p` is visible to user $1, mirroring getPosts
+const POST_VISIBLE_SQL = `
+  (
+    p.visibility = 'public'
+    OR (p.visibility = 'followers' AND EXISTS (
+      SELECT 1 FROM follows WHERE follower_id = $1 AND following_id = p.user_id
+    ))
+    OR (p.visibility = 'friends' AND EXISTS (
+      SELECT 1 FROM friend_requests
+      WHERE ((sender_id = $1 AND receiver_id = p.user_id) OR (sender_id = p.user_id AND receiver_id = $1))
+      AND status = 'accepted'
+    ))
+    OR p.user_id = $1
+  )
+  AND (p.auto_delete_at IS NULL OR p.auto_delete_at > NOW())
+  AND (p.held_at IS NULL OR p.user_id = $1)
+`;
+
+// Users $1 has blocked or been blocked by
+const BLOCKED_USERS_SQL = `
+  SELECT ub.blocked_id AS user_id FROM user_blocks ub WHERE ub.blocker_id = $1 AND ub.type = 'block'
+  UNION
+  SELECT ub.blocker_id AS user_id FROM user_blocks ub WHERE ub.blocked_id = $1 AND ub.type = 'block'
+`;
+
+// Users whose content is hidden from $1: blocked either way, or muted by $1
+const HIDDEN_USERS_SQL = `
+  ${BLOCKED_USERS_SQL}
+  UNION
+  SELECT ub.blocked_id AS user_id FROM user_blocks ub WHERE ub.blocker_id = $1 AND ub.type = 'mute'
+`;
+
+// The author and text of reported content, or the reported user and their profile text
+export type ReportTarget = {
+  userId: number;
+  content: string | null;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
@@ -24,11 +101,33 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsersExcept(userId: number): Promise<User[]>;
   searchUsers(query: string, currentUserId: number): Promise<Partial<User>[]>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser & { verificationToken?: string | null }): Promise<User>;
   updateUserProfile(userId: number, updates: Partial<Pick<User, 'hobbies' | 'interests' | 'currentActivities' | 'profilePicture'>>): Promise<User | undefined>;
   setVerificationToken(userId: number, token: string): Promise<boolean>;
   verifyEmail(token: string): Promise<User | undefined>;
   
+  // Password reset methods
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<boolean>;
+  deleteUserSessions(userId: number, keepSessionId?: string): Promise<number>;
+  getUserSessions(userId: number, currentSessionId: string): Promise<UserSession[]>;
+  deleteUserSession(userId: number, id: string): Promise<string | undefined>;
+  
+  // External identity (OpenID Connect) methods
+  getUserByOauthAccount(provider: string, subject: string): Promise<User | undefined>;
+  linkOauthAccount(userId: number, account: InsertOauthAccount): Promise<boolean>;
+  createOauthUser(user: InsertUser & { emailVerified: boolean }, account: InsertOauthAccount): Promise<User>;
+  
+  // Two-factor authentication methods
+  getTwoFactorStatus(userId: number): Promise<TwoFactorStatus>;
+  setTwoFactorSecret(userId: number, secret: string): Promise<boolean>;
+  enableTwoFactor(userId: number, step: number, backupCodeHashes: string[]): Promise<boolean>;
+  disableTwoFactor(userId: number): Promise<boolean>;
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  consumeBackupCode(userId: number, codeHash: string): Promise<boolean>;
+  replaceBackupCodes(userId: number, codeHashes: string[]): Promise<boolean>;
+  
   // Chat room methods
   getChatRooms(): Promise<ChatRoom[]>;
   getPrivateChatRooms(): Promise<ChatRoom[]>;
@@ -37,15 +136,49 @@ export interface IStorage {
   getRoomsUserHasAccessTo(userId: number): Promise<ChatRoom[]>;
   getChatRoom(id: number): Promise<ChatRoom | undefined>;
   createChatRoom(room: InsertChatRoom): Promise<ChatRoom>;
+  updateChatRoom(id: number, updates: UpdateChatRoom): Promise<ChatRoom | undefined>;
+  transferRoomOwnership(roomId: number, newOwnerId: number): Promise<ChatRoom | undefined>;
   deleteChatRoom(id: number, userId: number): Promise<boolean>;
   
   // Room membership methods
   getRoomMembers(roomId: number): Promise<Partial<User>[]>;
+  getRoomParticipants(roomId: number): Promise<RoomParticipant[]>;
   joinPublicRoom(userId: number, roomId: number): Promise<RoomMembership | undefined>;
   leaveRoom(userId: number, roomId: number): Promise<boolean>;
   isRoomMember(userId: number, roomId: number): Promise<boolean>;
+  canAccessRoom(userId: number, roomId: number): Promise<boolean>;
+  getRoomRole(userId: number, roomId: number): Promise<RoomRole | undefined>;
+  isRoomAdmin(userId: number, roomId: number): Promise<boolean>;
+  canModerateRoom(userId: number, roomId: number): Promise<boolean>;
   getRoomMembershipsForUser(userId: number): Promise<RoomMembership[]>;
   
+  // Room moderation methods
+  setRoomMemberRole(roomId: number, userId: number, role: Exclude<RoomRole, 'owner'>): Promise<RoomMembership | undefined>;
+  removeRoomMember(roomId: number, userId: number): Promise<boolean>;
+  banRoomMember(roomId: number, userId: number, bannedById: number, reason?: string): Promise<RoomBan | undefined>;
+  unbanRoomMember(roomId: number, userId: number): Promise<boolean>;
+  isBannedFromRoom(userId: number, roomId: number): Promise<boolean>;
+  getRoomBans(roomId: number): Promise<RoomBanWithUser[]>;
+  logRoomModerationAction(action: InsertRoomModerationAction): Promise<RoomModerationAction | undefined>;
+  getRoomModerationLog(roomId: number, limit?: number): Promise<RoomModerationActionWithUsers[]>;
+  
+  // Room invite link methods
+  createRoomInviteLink(link: InsertRoomInviteLink): Promise<RoomInviteLink>;
+  getRoomInviteLinks(roomId: number): Promise<RoomInviteLinkWithCreator[]>;
+  getRoomInviteLinkByCode(code: string): Promise<RoomInviteLink | undefined>;
+  revokeRoomInviteLink(roomId: number, linkId: number): Promise<boolean>;
+  redeemRoomInviteLink(code: string, userId: number): Promise<RoomMembership | undefined>;
+  
+  // Room join request methods
+  getRoomAdminIds(roomId: number): Promise<number[]>;
+  createRoomJoinRequest(roomId: number, userId: number, message?: string): Promise<RoomJoinRequest | undefined>;
+  getRoomJoinRequestForUser(roomId: number, userId: number): Promise<RoomJoinRequest | undefined>;
+  cancelRoomJoinRequest(roomId: number, userId: number): Promise<boolean>;
+  getRoomJoinRequest(id: number): Promise<RoomJoinRequest | undefined>;
+  getPendingRoomJoinRequests(roomId: number): Promise<RoomJoinRequestWithUser[]>;
+  getPendingJoinRequestRoomIds(userId: number): Promise<number[]>;
+  reviewRoomJoinRequest(id: number, reviewerId: number, approve: boolean): Promise<RoomJoinRequest | undefined>;
+  
   // Room recommendation methods
   generateRoomRecommendations(userId: number): Promise<RoomRecommendation[]>;
   getRoomRecommendations(userId: number): Promise<RoomRecommendation[]>;
@@ -53,15 +186,32 @@ export interface IStorage {
   clearExpiredRoomRecommendations(): Promise<void>;
   
   // Message methods
-  getMessagesByRoomId(roomId: number): Promise<MessageWithUser[]>;
+  getMessagesByRoomId(roomId: number, options?: MessagePageOptions): Promise<MessageWithUser[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessageThread(messageId: number): Promise<MessageThread | undefined>;
+  getMessage(id: number): Promise<Message | undefined>;
+  editMessage(id: number, editorId: number, content: string): Promise<Message | undefined>;
+  deleteMessage(id: number): Promise<Message | undefined>;
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  addMessageReaction(reaction: InsertMessageReaction): Promise<MessageReaction | undefined>;
+  removeMessageReaction(messageId: number, userId: number, emoji: string): Promise<boolean>;
+  
+  // Read receipt methods
+  markRoomRead(userId: number, roomId: number, messageId: number): Promise<RoomReadReceipt | undefined>;
+  getRoomReadStates(roomId: number): Promise<RoomReadState[]>;
+  getUnreadCounts(userId: number, roomIds: number[]): Promise<RoomUnreadCount[]>;
   
   // Friend request methods
   getFriendRequests(userId: number): Promise<FriendRequest[]>;
   getSentFriendRequests(userId: number): Promise<FriendRequest[]>;
   getReceivedFriendRequests(userId: number): Promise<FriendRequest[]>;
-  createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest>;
+  createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest | undefined>;
   respondToFriendRequest(requestId: number, status: 'accepted' | 'rejected'): Promise<FriendRequest | undefined>;
+  areFriends(userId: number, otherUserId: number): Promise<boolean>;
+  
+  // Direct conversation methods
+  getOrCreateDirectConversation(userId: number, otherUserId: number): Promise<DirectConversation | undefined>;
+  getDirectConversations(userId: number): Promise<DirectConversationWithUser[]>;
   
   // Follow methods
   getFollowers(userId: number): Promise<Partial<User>[]>;
@@ -70,6 +220,14 @@ export interface IStorage {
   unfollowUser(followerId: number, followingId: number): Promise<boolean>;
   isFollowing(followerId: number, followingId: number): Promise<boolean>;
   
+  // Block and mute methods
+  blockUser(blockerId: number, blockedId: number, type: UserBlockType): Promise<UserBlock | undefined>;
+  unblockUser(blockerId: number, blockedId: number): Promise<boolean>;
+  getUserBlocks(userId: number): Promise<UserBlockWithUser[]>;
+  isBlockedBetween(userId: number, otherUserId: number): Promise<boolean>;
+  getBlockedUserIds(userId: number): Promise<number[]>;
+  getHiddenUserIds(userId: number): Promise<number[]>;
+  
   // Notification methods
   getNotifications(userId: number): Promise<Notification[]>;
   getUnreadNotificationCount(userId: number): Promise<number>;
@@ -80,7 +238,7 @@ export interface IStorage {
   // Room invitation methods
   getSentRoomInvitations(userId: number): Promise<RoomInvitation[]>;
   getReceivedRoomInvitations(userId: number): Promise<RoomInvitation[]>;
-  createRoomInvitation(invitation: InsertRoomInvitation): Promise<RoomInvitation>;
+  createRoomInvitation(invitation: InsertRoomInvitation): Promise<RoomInvitation | undefined>;
   respondToRoomInvitation(invitationId: number, status: 'accepted' | 'declined'): Promise<RoomInvitation | undefined>;
   
   // Post methods
@@ -90,7 +248,7 @@ export interface IStorage {
   deletePost(postId: number, userId: number): Promise<boolean>;
   
   // Comment methods
-  getPostComments(postId: number): Promise<CommentWithUser[]>;
+  getPostComments(postId: number, currentUserId?: number): Promise<CommentWithUser[]>;
   createComment(comment: InsertComment): Promise<Comment>;
   deleteComment(commentId: number, userId: number): Promise<boolean>;
   
@@ -108,6 +266,31 @@ export interface IStorage {
   createPlaceRecommendation(recommendation: InsertPlaceRecommendation): Promise<PlaceRecommendation>;
   clearExpiredPlaceRecommendations(): Promise<void>;
   
+  // Rate limit methods
+  incrementRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  clearExpiredRateLimits(): Promise<void>;
+  
+  // Search methods
+  search(userId: number, query: string, limit?: number): Promise<SearchResults>;
+  
+  // Report methods
+  getReportTarget(entityType: ReportEntityType, entityId: number, viewerId: number): Promise<ReportTarget | undefined>;
+  createReport(reporterId: number | null, report: InsertReport, target: ReportTarget): Promise<Report>;
+  getReport(id: number): Promise<Report | undefined>;
+  getReports(status: 'pending' | 'closed', limit?: number): Promise<ReportWithUsers[]>;
+  closeReports(entityType: ReportEntityType, entityId: number, adminId: number, status: 'dismissed' | 'resolved', resolution?: string): Promise<Report[]>;
+  removeReportedContent(entityType: ReportEntityType, entityId: number): Promise<boolean>;
+  suspendUser(userId: number, reason: string, until?: Date | null): Promise<User | undefined>;
+  
+  // Site admin methods
+  reinstateUser(userId: number): Promise<User | undefined>;
+  searchUsersForAdmin(query: string, limit?: number): Promise<AdminUserSummary[]>;
+  getPlatformStats(): Promise<PlatformStats | undefined>;
+  
+  // Moderation methods
+  createModerationVerdict(verdict: InsertModerationVerdict): Promise<ModerationVerdict | undefined>;
+  setContentHeld(entityType: ModeratedEntityType, entityId: number, held: boolean): Promise<boolean>;
+  
   // Session store
   sessionStore: any;
 }
@@ -181,8 +364,14 @@ export class DatabaseStorage implements IStorage {
         .from(users)
         .where(ne(users.id, currentUserId));
       
+      const blockedIds = new Set(await this.getBlockedUserIds(currentUserId));
+      
       // Filter users based on query
       let matchedUsers = allUsers.filter(user => {
+        if (blockedIds.has(user.id)) {
+          return false;
+        }
+        
         // For numeric queries, check exact ID or username contains query
         if (isNumeric) {
           return user.id.toString() === trimmedQuery || 
@@ -223,7 +412,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser & { verificationToken?: string | null }): Promise<User> {
     const [user] = await db
       .insert(users)
       .values(insertUser)
@@ -268,6 +457,277 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
+  // Password reset methods
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Only the most recently requested link works
+        await tx
+          .delete(passwordResetTokens)
+          .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+        
+        const [token] = await tx
+          .insert(passwordResetTokens)
+          .values({ userId, tokenHash, expiresAt })
+          .returning();
+        
+        return token;
+      });
+    } catch (error) {
+      console.error("Error creating password reset token:", error);
+      return undefined;
+    }
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      // Marking the token used in the same statement that checks it keeps it single-use
+      const [token] = await db
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(passwordResetTokens.tokenHash, tokenHash),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, new Date())
+          )
+        )
+        .returning();
+      
+      return token;
+    } catch (error) {
+      console.error("Error consuming password reset token:", error);
+      return undefined;
+    }
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string): Promise<boolean> {
+    try {
+      const updated = await db
+        .update(users)
+        .set({ password: passwordHash })
+        .where(eq(users.id, userId))
+        .returning({ id: users.id });
+      
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error updating password:", error);
+      return false;
+    }
+  }
+
+  // External identity (OpenID Connect) methods
+  async getUserByOauthAccount(provider: string, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(oauthAccounts)
+      .innerJoin(users, eq(oauthAccounts.userId, users.id))
+      .where(and(eq(oauthAccounts.provider, provider), eq(oauthAccounts.subject, subject)));
+    
+    return row?.user;
+  }
+
+  async linkOauthAccount(userId: number, account: InsertOauthAccount): Promise<boolean> {
+    try {
+      await db.insert(oauthAccounts).values({ ...account, userId });
+      return true;
+    } catch (error) {
+      console.error("Error linking external account:", error);
+      return false;
+    }
+  }
+
+  async createOauthUser(user: InsertUser & { emailVerified: boolean }, account: InsertOauthAccount): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(user).returning();
+      await tx.insert(oauthAccounts).values({ ...account, userId: created.id });
+      return created;
+    });
+  }
+
+  // Two-factor authentication methods
+  async getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+    const [user] = await db
+      .select({ enabled: users.twoFactorEnabled })
+      .from(users)
+      .where(eq(users.id, userId));
+    
+    const [{ remaining }] = await db
+      .select({ remaining: count() })
+      .from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.usedAt)));
+    
+    return {
+      enabled: !!user?.enabled,
+      backupCodesRemaining: remaining,
+    };
+  }
+
+  async setTwoFactorSecret(userId: number, secret: string): Promise<boolean> {
+    try {
+      // A new secret only takes effect once enableTwoFactor confirms it
+      const updated = await db
+        .update(users)
+        .set({ twoFactorSecret: secret, twoFactorEnabled: false, twoFactorLastStep: null })
+        .where(and(eq(users.id, userId), eq(users.twoFactorEnabled, false)))
+        .returning({ id: users.id });
+      
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error setting two-factor secret:", error);
+      return false;
+    }
+  }
+
+  async enableTwoFactor(userId: number, step: number, backupCodeHashes: string[]): Promise<boolean> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx
+          .update(users)
+          .set({ twoFactorEnabled: true, twoFactorLastStep: step })
+          .where(eq(users.id, userId));
+        
+        await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+        await tx
+          .insert(twoFactorBackupCodes)
+          .values(backupCodeHashes.map(codeHash => ({ userId, codeHash })));
+      });
+      return true;
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      return false;
+    }
+  }
+
+  async disableTwoFactor(userId: number): Promise<boolean> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx
+          .update(users)
+          .set({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null })
+          .where(eq(users.id, userId));
+        
+        await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      });
+      return true;
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      return false;
+    }
+  }
+
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    try {
+      // Only moves forward, so each code works once even across concurrent logins
+      const updated = await db
+        .update(users)
+        .set({ twoFactorLastStep: step })
+        .where(
+          and(
+            eq(users.id, userId),
+            or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))
+          )
+        )
+        .returning({ id: users.id });
+      
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error recording two-factor code use:", error);
+      return false;
+    }
+  }
+
+  async consumeBackupCode(userId: number, codeHash: string): Promise<boolean> {
+    try {
+      const used = await db
+        .update(twoFactorBackupCodes)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(twoFactorBackupCodes.userId, userId),
+            eq(twoFactorBackupCodes.codeHash, codeHash),
+            isNull(twoFactorBackupCodes.usedAt)
+          )
+        )
+        .returning({ id: twoFactorBackupCodes.id });
+      
+      return used.length > 0;
+    } catch (error) {
+      console.error("Error using backup code:", error);
+      return false;
+    }
+  }
+
+  async replaceBackupCodes(userId: number, codeHashes: string[]): Promise<boolean> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+        await tx
+          .insert(twoFactorBackupCodes)
+          .values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      });
+      return true;
+    } catch (error) {
+      console.error("Error replacing backup codes:", error);
+      return false;
+    }
+  }
+
+  async deleteUserSessions(userId: number, keepSessionId?: string): Promise<number> {
+    try {
+      // Sessions are stored by connect-pg-simple with the passport user id inside
+      const result = await pool.query(`
+        DELETE FROM session
+        WHERE sess -> 'passport' ->> 'user' = $1::text
+          AND ($2::text IS NULL OR sid <> $2)
+      `, [userId, keepSessionId ?? null]);
+      
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error("Error deleting user sessions:", error);
+      return 0;
+    }
+  }
+
+  async getUserSessions(userId: number, currentSessionId: string): Promise<UserSession[]> {
+    try {
+      const result = await pool.query(`
+        SELECT md5(sid) AS id, sess -> 'client' AS client, expire, sid = $2 AS current
+        FROM session
+        WHERE sess -> 'passport' ->> 'user' = $1::text
+          AND expire > now()
+        ORDER BY sess -> 'client' ->> 'lastSeenAt' DESC NULLS LAST
+      `, [userId, currentSessionId]);
+      
+      return result.rows.map(row => ({
+        ...(row.client ?? {}),
+        id: row.id,
+        expiresAt: new Date(row.expire).toISOString(),
+        current: row.current,
+      }));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      return [];
+    }
+  }
+
+  async deleteUserSession(userId: number, id: string): Promise<string | undefined> {
+    try {
+      // Sessions are addressed by the md5 of their ID; returns the raw ID that was removed
+      const result = await pool.query(`
+        DELETE FROM session
+        WHERE sess -> 'passport' ->> 'user' = $1::text
+          AND md5(sid) = $2
+        RETURNING sid
+      `, [userId, id]);
+      
+      return result.rows[0]?.sid;
+    } catch (error) {
+      console.error("Error deleting user session:", error);
+      return undefined;
+    }
+  }
+
   async updateUserProfile(userId: number, updates: Partial<Pick<User, 'hobbies' | 'interests' | 'currentActivities' | 'email' | 'emailVerified' | 'verificationToken' | 'profilePicture' | 'favoriteFood'>>): Promise<User | undefined> {
     // Check if user exists first
     const existingUser = await this.getUser(userId);
@@ -346,7 +806,9 @@ export class DatabaseStorage implements IStorage {
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         isSelfChat: row.is_self_chat,
+        isDirect: row.is_direct,
         isPublic: row.is_public,
+        joinPolicy: row.join_policy,
         category: row.category,
         tags: row.tags,
         totalMembers: row.total_members
@@ -373,6 +835,98 @@ export class DatabaseStorage implements IStorage {
     return room;
   }
   
+  async updateChatRoom(id: number, updates: UpdateChatRoom): Promise<ChatRoom | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [previous] = await tx
+          .select()
+          .from(chatRooms)
+          .where(eq(chatRooms.id, id));
+        
+        if (!previous) {
+          return undefined;
+        }
+        
+        const [room] = await tx
+          .update(chatRooms)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(chatRooms.id, id))
+          .returning();
+        
+        // Public rooms only admit members, so invitees who accepted while the
+        // room was private become members rather than being locked out
+        if (!previous.isPublic && room.isPublic) {
+          const invitees = await tx
+            .select({ userId: roomInvitations.receiverId })
+            .from(roomInvitations)
+            .where(
+              and(
+                eq(roomInvitations.roomId, id),
+                eq(roomInvitations.status, 'accepted')
+              )
+            );
+          
+          const banned = await tx
+            .select({ userId: roomBans.userId })
+            .from(roomBans)
+            .where(eq(roomBans.roomId, id));
+          const bannedIds = new Set(banned.map((ban) => ban.userId));
+          
+          const newMembers = invitees
+            .filter((invitee) => invitee.userId !== room.creatorId && !bannedIds.has(invitee.userId))
+            .map((invitee) => ({ roomId: id, userId: invitee.userId, role: 'member' }));
+          
+          if (newMembers.length > 0) {
+            await tx
+              .insert(roomMemberships)
+              .values(newMembers)
+              .onConflictDoNothing();
+          }
+        }
+        
+        return room;
+      });
+    } catch (error) {
+      console.error("Error updating chat room:", error);
+      return undefined;
+    }
+  }
+  
+  async transferRoomOwnership(roomId: number, newOwnerId: number): Promise<ChatRoom | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [room] = await tx
+          .select()
+          .from(chatRooms)
+          .where(eq(chatRooms.id, roomId));
+        
+        if (!room || room.creatorId === newOwnerId) {
+          return undefined;
+        }
+        
+        // The previous owner stays in the room as an admin
+        await tx
+          .insert(roomMemberships)
+          .values({ roomId, userId: room.creatorId, role: 'admin' })
+          .onConflictDoUpdate({
+            target: [roomMemberships.roomId, roomMemberships.userId],
+            set: { role: 'admin' },
+          });
+        
+        const [updatedRoom] = await tx
+          .update(chatRooms)
+          .set({ creatorId: newOwnerId, updatedAt: new Date() })
+          .where(eq(chatRooms.id, roomId))
+          .returning();
+        
+        return updatedRoom;
+      });
+    } catch (error) {
+      console.error("Error transferring room ownership:", error);
+      return undefined;
+    }
+  }
+  
   async deleteChatRoom(id: number, userId: number): Promise<boolean> {
     try {
       // First verify that the user is the creator of the room
@@ -436,11 +990,76 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async getRoomParticipants(roomId: number): Promise<RoomParticipant[]> {
+    try {
+      const room = await this.getChatRoom(roomId);
+      if (!room) {
+        return [];
+      }
+      
+      const participantColumns = {
+        id: users.id,
+        username: users.username,
+        profilePicture: users.profilePicture,
+      };
+      
+      // The creator, members and invitees who accepted all take part in the room
+      const creator = await db
+        .select(participantColumns)
+        .from(users)
+        .where(eq(users.id, room.creatorId));
+      
+      const members = await db
+        .select({ ...participantColumns, role: roomMemberships.role })
+        .from(roomMemberships)
+        .innerJoin(users, eq(roomMemberships.userId, users.id))
+        .where(eq(roomMemberships.roomId, roomId));
+      
+      const invitees = await db
+        .select(participantColumns)
+        .from(roomInvitations)
+        .innerJoin(users, eq(roomInvitations.receiverId, users.id))
+        .where(
+          and(
+            eq(roomInvitations.roomId, roomId),
+            eq(roomInvitations.status, 'accepted')
+          )
+        );
+      
+      // Remove duplicates (e.g. an invitee who is also a member), keeping
+      // the creator's and members' roles over the invitation
+      const participants = new Map<number, RoomParticipant>();
+      for (const participant of creator) {
+        participants.set(participant.id, { ...participant, role: 'owner' });
+      }
+      for (const participant of members) {
+        if (!participants.has(participant.id)) {
+          participants.set(participant.id, { ...participant, role: participant.role as RoomRole });
+        }
+      }
+      for (const participant of invitees) {
+        if (!participants.has(participant.id)) {
+          participants.set(participant.id, { ...participant, role: 'member' });
+        }
+      }
+      
+      return Array.from(participants.values());
+    } catch (error) {
+      console.error("Error getting room participants:", error);
+      return [];
+    }
+  }
+  
   async joinPublicRoom(userId: number, roomId: number): Promise<RoomMembership | undefined> {
     try {
-      // Verify that the room exists and is public
+      // Verify that the room exists and is open to anyone
       const room = await this.getChatRoom(roomId);
-      if (!room || !room.isPublic) {
+      if (!room || !room.isPublic || room.joinPolicy !== 'open') {
+        return undefined;
+      }
+      
+      // Banned users can't rejoin
+      if (await this.isBannedFromRoom(userId, roomId)) {
         return undefined;
       }
       
@@ -456,7 +1075,7 @@ export class DatabaseStorage implements IStorage {
         .values({
           roomId,
           userId,
-          isAdmin: false,
+          role: 'member',
         })
         .returning();
       
@@ -484,8 +1103,8 @@ export class DatabaseStorage implements IStorage {
         return false;
       }
       
-      // Don't allow room creator to leave
-      if (room.creatorId === userId) {
+      // Don't allow room creator to leave, or either side of a direct conversation
+      if (room.creatorId === userId || room.isDirect) {
         return false;
       }
       
@@ -547,51 +1166,699 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async getRoomMembershipsForUser(userId: number): Promise<RoomMembership[]> {
+  async canAccessRoom(userId: number, roomId: number): Promise<boolean> {
     try {
-      return await db
+      const room = await this.getChatRoom(roomId);
+      if (!room) {
+        return false;
+      }
+      
+      // Room creator can always access the room
+      if (room.creatorId === userId) {
+        return true;
+      }
+      
+      // Self-chat rooms are only accessible by their creator
+      if (room.isSelfChat) {
+        return false;
+      }
+      
+      // A ban overrides any membership or invitation left behind
+      if (await this.isBannedFromRoom(userId, roomId)) {
+        return false;
+      }
+      
+      // Membership grants access to both public and private rooms
+      if (await this.isRoomMember(userId, roomId)) {
+        return true;
+      }
+      
+      // Public rooms must be joined first
+      if (room.isPublic) {
+        return false;
+      }
+      
+      // Private rooms are accessible with an accepted invitation
+      const acceptedInvitations = await db
         .select()
-        .from(roomMemberships)
-        .where(eq(roomMemberships.userId, userId));
+        .from(roomInvitations)
+        .where(
+          and(
+            eq(roomInvitations.roomId, roomId),
+            eq(roomInvitations.receiverId, userId),
+            eq(roomInvitations.status, 'accepted')
+          )
+        );
+      
+      return acceptedInvitations.length > 0;
     } catch (error) {
-      console.error("Error getting user room memberships:", error);
-      return [];
+      console.error("Error checking room access:", error);
+      return false;
+    }
+  }
+  
+  async getRoomRole(userId: number, roomId: number): Promise<RoomRole | undefined> {
+    try {
+      const room = await this.getChatRoom(roomId);
+      if (!room) {
+        return undefined;
+      }
+      
+      // Room creator is always the owner
+      if (room.creatorId === userId) {
+        return 'owner';
+      }
+      
+      const [membership] = await db
+        .select()
+        .from(roomMemberships)
+        .where(
+          and(
+            eq(roomMemberships.roomId, roomId),
+            eq(roomMemberships.userId, userId)
+          )
+        );
+      
+      if (membership) {
+        return membership.role as RoomRole;
+      }
+      
+      // Invitees of private rooms take part as plain members
+      return await this.canAccessRoom(userId, roomId) ? 'member' : undefined;
+    } catch (error) {
+      console.error("Error getting room role:", error);
+      return undefined;
+    }
+  }
+  
+  async isRoomAdmin(userId: number, roomId: number): Promise<boolean> {
+    const role = await this.getRoomRole(userId, roomId);
+    return !!role && roomRoleRank[role] >= roomRoleRank.admin;
+  }
+  
+  async canModerateRoom(userId: number, roomId: number): Promise<boolean> {
+    const role = await this.getRoomRole(userId, roomId);
+    return !!role && roomRoleRank[role] >= roomRoleRank.moderator;
+  }
+  
+  async getRoomMembershipsForUser(userId: number): Promise<RoomMembership[]> {
+    try {
+      return await db
+        .select()
+        .from(roomMemberships)
+        .where(eq(roomMemberships.userId, userId));
+    } catch (error) {
+      console.error("Error getting user room memberships:", error);
+      return [];
+    }
+  }
+  
+  // Room moderation methods
+  async setRoomMemberRole(roomId: number, userId: number, role: Exclude<RoomRole, 'owner'>): Promise<RoomMembership | undefined> {
+    try {
+      // Invitees of private rooms don't have a membership yet, so one is
+      // created for them when their role changes
+      const [membership] = await db
+        .insert(roomMemberships)
+        .values({ roomId, userId, role })
+        .onConflictDoUpdate({
+          target: [roomMemberships.roomId, roomMemberships.userId],
+          set: { role },
+        })
+        .returning();
+      
+      return membership;
+    } catch (error) {
+      console.error("Error setting room member role:", error);
+      return undefined;
+    }
+  }
+  
+  async removeRoomMember(roomId: number, userId: number): Promise<boolean> {
+    try {
+      const room = await this.getChatRoom(roomId);
+      if (!room || room.creatorId === userId) {
+        return false;
+      }
+      
+      const removed = await db
+        .delete(roomMemberships)
+        .where(
+          and(
+            eq(roomMemberships.roomId, roomId),
+            eq(roomMemberships.userId, userId)
+          )
+        )
+        .returning();
+      
+      // Accepted invitations also grant access to private rooms
+      await db
+        .delete(roomInvitations)
+        .where(
+          and(
+            eq(roomInvitations.roomId, roomId),
+            eq(roomInvitations.receiverId, userId)
+          )
+        );
+      
+      if (removed.length > 0 && room.totalMembers && room.totalMembers > 1) {
+        await db
+          .update(chatRooms)
+          .set({ 
+            totalMembers: room.totalMembers - 1,
+            updatedAt: new Date(),
+          })
+          .where(eq(chatRooms.id, roomId));
+      }
+      
+      return true;
+    } catch (error) {
+      console.error("Error removing room member:", error);
+      return false;
+    }
+  }
+  
+  async banRoomMember(roomId: number, userId: number, bannedById: number, reason?: string): Promise<RoomBan | undefined> {
+    try {
+      const [ban] = await db
+        .insert(roomBans)
+        .values({ roomId, userId, bannedById, reason })
+        .onConflictDoNothing()
+        .returning();
+      
+      // Already banned
+      if (!ban) {
+        return undefined;
+      }
+      
+      await this.removeRoomMember(roomId, userId);
+      return ban;
+    } catch (error) {
+      console.error("Error banning room member:", error);
+      return undefined;
+    }
+  }
+  
+  async unbanRoomMember(roomId: number, userId: number): Promise<boolean> {
+    try {
+      const removed = await db
+        .delete(roomBans)
+        .where(
+          and(
+            eq(roomBans.roomId, roomId),
+            eq(roomBans.userId, userId)
+          )
+        )
+        .returning();
+      
+      return removed.length > 0;
+    } catch (error) {
+      console.error("Error unbanning room member:", error);
+      return false;
+    }
+  }
+  
+  async isBannedFromRoom(userId: number, roomId: number): Promise<boolean> {
+    try {
+      const result = await db
+        .select({ id: roomBans.id })
+        .from(roomBans)
+        .where(
+          and(
+            eq(roomBans.roomId, roomId),
+            eq(roomBans.userId, userId)
+          )
+        );
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error checking room ban:", error);
+      return false;
+    }
+  }
+  
+  async getRoomBans(roomId: number): Promise<RoomBanWithUser[]> {
+    try {
+      const result = await db
+        .select({
+          ban: roomBans,
+          user: {
+            id: users.id,
+            username: users.username,
+            profilePicture: users.profilePicture,
+          },
+        })
+        .from(roomBans)
+        .innerJoin(users, eq(roomBans.userId, users.id))
+        .where(eq(roomBans.roomId, roomId))
+        .orderBy(desc(roomBans.createdAt));
+      
+      return result.map(row => ({ ...row.ban, user: row.user }));
+    } catch (error) {
+      console.error("Error getting room bans:", error);
+      return [];
+    }
+  }
+  
+  async logRoomModerationAction(action: InsertRoomModerationAction): Promise<RoomModerationAction | undefined> {
+    try {
+      const [entry] = await db
+        .insert(roomModerationActions)
+        .values(action)
+        .returning();
+      
+      return entry;
+    } catch (error) {
+      console.error("Error logging room moderation action:", error);
+      return undefined;
+    }
+  }
+  
+  async getRoomModerationLog(roomId: number, limit = 100): Promise<RoomModerationActionWithUsers[]> {
+    try {
+      const result = await pool.query(`
+        SELECT a.*, actor.username AS actor_username, target.username AS target_username
+        FROM room_moderation_actions a
+        JOIN users actor ON actor.id = a.actor_id
+        LEFT JOIN users target ON target.id = a.target_user_id
+        WHERE a.room_id = $1
+        ORDER BY a.created_at DESC, a.id DESC
+        LIMIT $2
+      `, [roomId, limit]);
+      
+      return result.rows.map(row => ({
+        id: row.id,
+        roomId: row.room_id,
+        actorId: row.actor_id,
+        targetUserId: row.target_user_id,
+        action: row.action,
+        details: row.details,
+        createdAt: row.created_at,
+        actor: {
+          id: row.actor_id,
+          username: row.actor_username,
+        },
+        targetUser: row.target_user_id
+          ? { id: row.target_user_id, username: row.target_username }
+          : null,
+      }));
+    } catch (error) {
+      console.error("Error getting room moderation log:", error);
+      return [];
     }
   }
 
-  // Message methods
-  async getMessagesByRoomId(roomId: number): Promise<MessageWithUser[]> {
-    // Get messages for the room
-    const messagesData = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.roomId, roomId))
-      .orderBy(messages.createdAt);
-
-    // Enrich with user data
-    const messageWithUsers = await Promise.all(
-      messagesData.map(async (message) => {
-        const [user] = await db
-          .select({ 
-            id: users.id, 
+  // Room invite link methods
+  async createRoomInviteLink(link: InsertRoomInviteLink): Promise<RoomInviteLink> {
+    const [inviteLink] = await db
+      .insert(roomInviteLinks)
+      .values(link)
+      .returning();
+    return inviteLink;
+  }
+  
+  async getRoomInviteLinks(roomId: number): Promise<RoomInviteLinkWithCreator[]> {
+    try {
+      const result = await db
+        .select({
+          link: roomInviteLinks,
+          createdBy: {
+            id: users.id,
             username: users.username,
-            profilePicture: users.profilePicture
+          },
+        })
+        .from(roomInviteLinks)
+        .innerJoin(users, eq(roomInviteLinks.createdById, users.id))
+        .where(
+          and(
+            eq(roomInviteLinks.roomId, roomId),
+            isNull(roomInviteLinks.revokedAt)
+          )
+        )
+        .orderBy(desc(roomInviteLinks.createdAt));
+      
+      return result.map(row => ({ ...row.link, createdBy: row.createdBy }));
+    } catch (error) {
+      console.error("Error getting room invite links:", error);
+      return [];
+    }
+  }
+  
+  async getRoomInviteLinkByCode(code: string): Promise<RoomInviteLink | undefined> {
+    const [inviteLink] = await db
+      .select()
+      .from(roomInviteLinks)
+      .where(eq(roomInviteLinks.code, code));
+    return inviteLink;
+  }
+  
+  async revokeRoomInviteLink(roomId: number, linkId: number): Promise<boolean> {
+    try {
+      const revoked = await db
+        .update(roomInviteLinks)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(roomInviteLinks.id, linkId),
+            eq(roomInviteLinks.roomId, roomId),
+            isNull(roomInviteLinks.revokedAt)
+          )
+        )
+        .returning();
+      
+      return revoked.length > 0;
+    } catch (error) {
+      console.error("Error revoking room invite link:", error);
+      return false;
+    }
+  }
+  
+  async redeemRoomInviteLink(code: string, userId: number): Promise<RoomMembership | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Claim a use only while the link is still valid, so concurrent
+        // redemptions can't go over the limit
+        const [inviteLink] = await tx
+          .update(roomInviteLinks)
+          .set({ useCount: sql`${roomInviteLinks.useCount} + 1` })
+          .where(
+            and(
+              eq(roomInviteLinks.code, code),
+              isNull(roomInviteLinks.revokedAt),
+              or(isNull(roomInviteLinks.expiresAt), gt(roomInviteLinks.expiresAt, new Date())),
+              or(isNull(roomInviteLinks.maxUses), lt(roomInviteLinks.useCount, roomInviteLinks.maxUses))
+            )
+          )
+          .returning();
+        
+        if (!inviteLink) {
+          return undefined;
+        }
+        
+        const [membership] = await tx
+          .insert(roomMemberships)
+          .values({ roomId: inviteLink.roomId, userId, role: 'member' })
+          .returning();
+        
+        await tx
+          .update(chatRooms)
+          .set({ 
+            totalMembers: sql`coalesce(${chatRooms.totalMembers}, 1) + 1`,
+            updatedAt: new Date(),
           })
-          .from(users)
-          .where(eq(users.id, message.userId));
+          .where(eq(chatRooms.id, inviteLink.roomId));
+        
+        return membership;
+      });
+    } catch (error) {
+      console.error("Error redeeming room invite link:", error);
+      return undefined;
+    }
+  }
 
-        return {
-          ...message,
+  // Room join request methods
+  async getRoomAdminIds(roomId: number): Promise<number[]> {
+    try {
+      const room = await this.getChatRoom(roomId);
+      if (!room) {
+        return [];
+      }
+      
+      const admins = await db
+        .select({ userId: roomMemberships.userId })
+        .from(roomMemberships)
+        .where(
+          and(
+            eq(roomMemberships.roomId, roomId),
+            eq(roomMemberships.role, 'admin')
+          )
+        );
+      
+      return Array.from(new Set([room.creatorId, ...admins.map(admin => admin.userId)]));
+    } catch (error) {
+      console.error("Error getting room admins:", error);
+      return [];
+    }
+  }
+  
+  async createRoomJoinRequest(roomId: number, userId: number, message?: string): Promise<RoomJoinRequest | undefined> {
+    try {
+      // Asking again reopens the earlier request, but never one that is still
+      // pending or was declined too recently
+      const [request] = await db
+        .insert(roomJoinRequests)
+        .values({ roomId, userId, message })
+        .onConflictDoUpdate({
+          target: [roomJoinRequests.roomId, roomJoinRequests.userId],
+          set: {
+            status: 'pending',
+            message: message ?? null,
+            reviewedById: null,
+            reviewedAt: null,
+            createdAt: new Date(),
+          },
+          setWhere: and(
+            ne(roomJoinRequests.status, 'pending'),
+            or(
+              ne(roomJoinRequests.status, 'denied'),
+              lte(roomJoinRequests.reviewedAt, new Date(Date.now() - JOIN_REQUEST_RETRY_DELAY_MS))
+            )
+          ),
+        })
+        .returning();
+      
+      return request;
+    } catch (error) {
+      console.error("Error creating room join request:", error);
+      return undefined;
+    }
+  }
+  
+  async cancelRoomJoinRequest(roomId: number, userId: number): Promise<boolean> {
+    try {
+      const removed = await db
+        .delete(roomJoinRequests)
+        .where(
+          and(
+            eq(roomJoinRequests.roomId, roomId),
+            eq(roomJoinRequests.userId, userId),
+            eq(roomJoinRequests.status, 'pending')
+          )
+        )
+        .returning();
+      
+      return removed.length > 0;
+    } catch (error) {
+      console.error("Error cancelling room join request:", error);
+      return false;
+    }
+  }
+  
+  async getRoomJoinRequestForUser(roomId: number, userId: number): Promise<RoomJoinRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(roomJoinRequests)
+      .where(
+        and(
+          eq(roomJoinRequests.roomId, roomId),
+          eq(roomJoinRequests.userId, userId)
+        )
+      );
+    return request;
+  }
+  
+  async getRoomJoinRequest(id: number): Promise<RoomJoinRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(roomJoinRequests)
+      .where(eq(roomJoinRequests.id, id));
+    return request;
+  }
+  
+  async getPendingRoomJoinRequests(roomId: number): Promise<RoomJoinRequestWithUser[]> {
+    try {
+      const result = await db
+        .select({
+          request: roomJoinRequests,
           user: {
-            id: user?.id || 0,
-            username: user?.username || "Unknown User",
-            profilePicture: user?.profilePicture || null
+            id: users.id,
+            username: users.username,
+            profilePicture: users.profilePicture,
           },
-        };
+        })
+        .from(roomJoinRequests)
+        .innerJoin(users, eq(roomJoinRequests.userId, users.id))
+        .where(
+          and(
+            eq(roomJoinRequests.roomId, roomId),
+            eq(roomJoinRequests.status, 'pending')
+          )
+        )
+        .orderBy(asc(roomJoinRequests.createdAt));
+      
+      return result.map(row => ({ ...row.request, user: row.user }));
+    } catch (error) {
+      console.error("Error getting room join requests:", error);
+      return [];
+    }
+  }
+  
+  async getPendingJoinRequestRoomIds(userId: number): Promise<number[]> {
+    try {
+      const result = await db
+        .select({ roomId: roomJoinRequests.roomId })
+        .from(roomJoinRequests)
+        .where(
+          and(
+            eq(roomJoinRequests.userId, userId),
+            eq(roomJoinRequests.status, 'pending')
+          )
+        );
+      
+      return result.map(row => row.roomId);
+    } catch (error) {
+      console.error("Error getting pending join requests:", error);
+      return [];
+    }
+  }
+  
+  async reviewRoomJoinRequest(id: number, reviewerId: number, approve: boolean): Promise<RoomJoinRequest | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Only pending requests can be reviewed, and only once
+        const [request] = await tx
+          .update(roomJoinRequests)
+          .set({
+            status: approve ? 'approved' : 'denied',
+            reviewedById: reviewerId,
+            reviewedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(roomJoinRequests.id, id),
+              eq(roomJoinRequests.status, 'pending')
+            )
+          )
+          .returning();
+        
+        if (!request || !approve) {
+          return request;
+        }
+        
+        const [membership] = await tx
+          .insert(roomMemberships)
+          .values({ roomId: request.roomId, userId: request.userId, role: 'member' })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (membership) {
+          await tx
+            .update(chatRooms)
+            .set({ 
+              totalMembers: sql`coalesce(${chatRooms.totalMembers}, 1) + 1`,
+              updatedAt: new Date(),
+            })
+            .where(eq(chatRooms.id, request.roomId));
+        }
+        
+        return request;
+      });
+    } catch (error) {
+      console.error("Error reviewing room join request:", error);
+      return undefined;
+    }
+  }
+
+  // Message methods
+  private selectMessagesWithUser() {
+    return db
+      .select({
+        message: messages,
+        user: {
+          id: users.id,
+          username: users.username,
+          profilePicture: users.profilePicture
+        },
+        replyCount: sql<number>`(
+          select count(*) from messages replies
+          where replies.parent_message_id = ${messages.id} and replies.deleted_at is null
+        )`.mapWith(Number),
+        reactions: sql<ReactionSummary[]>`coalesce((
+          select json_agg(json_build_object('emoji', r.emoji, 'count', r.count, 'userIds', r.user_ids) order by r.first_reacted_at)
+          from (
+            select emoji, count(*)::int as count, array_agg(user_id order by created_at) as user_ids, min(created_at) as first_reacted_at
+            from message_reactions
+            where message_id = ${messages.id}
+            group by emoji
+          ) r
+        ), '[]'::json)`
       })
-    );
+      .from(messages)
+      .leftJoin(users, eq(messages.userId, users.id));
+  }
+
+  private toMessageWithUser({ message, user, replyCount, reactions }: {
+    message: Message;
+    user: { id: number; username: string; profilePicture: string | null } | null;
+    replyCount: number;
+    reactions: ReactionSummary[];
+  }): MessageWithUser {
+    return {
+      ...message,
+      // Deleted and held messages keep their place in the history but not their content
+      content: message.deletedAt || message.heldAt ? "" : message.content,
+      imageUrl: message.deletedAt || message.heldAt ? null : message.imageUrl,
+      user: {
+        id: user?.id || 0,
+        username: user?.username || "Unknown User",
+        profilePicture: user?.profilePicture || null
+      },
+      replyCount,
+      reactions,
+    };
+  }
+
+  async getMessagesByRoomId(roomId: number, options: MessagePageOptions = {}): Promise<MessageWithUser[]> {
+    const limit = options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
+    // Replies live in their threads, not the main timeline
+    const conditions = [eq(messages.roomId, roomId), isNull(messages.parentMessageId)];
+    if (options.before) {
+      conditions.push(lt(messages.id, options.before));
+    }
+    if (options.after) {
+      conditions.push(gt(messages.id, options.after));
+    }
 
-    return messageWithUsers;
+    // Page forwards from an `after` cursor, otherwise walk back from the newest message
+    const rows = await this.selectMessagesWithUser()
+      .where(and(...conditions))
+      .orderBy(options.after ? asc(messages.id) : desc(messages.id))
+      .limit(limit);
+
+    // Always return the page oldest first
+    if (!options.after) {
+      rows.reverse();
+    }
+
+    return rows.map((row) => this.toMessageWithUser(row));
+  }
+
+  async getMessageThread(messageId: number): Promise<MessageThread | undefined> {
+    const [parent] = await this.selectMessagesWithUser()
+      .where(eq(messages.id, messageId));
+
+    if (!parent) {
+      return undefined;
+    }
+
+    const replies = await this.selectMessagesWithUser()
+      .where(eq(messages.parentMessageId, messageId))
+      .orderBy(asc(messages.id));
+
+    return {
+      parent: this.toMessageWithUser(parent),
+      replies: replies.map((row) => this.toMessageWithUser(row)),
+    };
   }
 
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
@@ -602,6 +1869,190 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message;
+  }
+
+  async editMessage(id: number, editorId: number, content: string): Promise<Message | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [message] = await tx
+          .select()
+          .from(messages)
+          .where(eq(messages.id, id));
+        
+        if (!message || message.deletedAt || message.heldAt) {
+          return undefined;
+        }
+        
+        // Keep the previous revision before overwriting it
+        await tx.insert(messageEdits).values({
+          messageId: id,
+          editorId,
+          previousContent: message.content,
+        });
+        
+        const [updatedMessage] = await tx
+          .update(messages)
+          .set({ content, editedAt: new Date() })
+          .where(eq(messages.id, id))
+          .returning();
+        
+        return updatedMessage;
+      });
+    } catch (error) {
+      console.error("Error editing message:", error);
+      return undefined;
+    }
+  }
+
+  async deleteMessage(id: number): Promise<Message | undefined> {
+    try {
+      // Soft delete so replies and history still line up
+      const [deletedMessage] = await db
+        .update(messages)
+        .set({ deletedAt: new Date() })
+        .where(eq(messages.id, id))
+        .returning();
+      
+      return deletedMessage;
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      return undefined;
+    }
+  }
+
+  async addMessageReaction(reaction: InsertMessageReaction): Promise<MessageReaction | undefined> {
+    try {
+      // Reacting twice with the same emoji is a no-op
+      const [newReaction] = await db
+        .insert(messageReactions)
+        .values(reaction)
+        .onConflictDoNothing()
+        .returning();
+      
+      return newReaction;
+    } catch (error) {
+      console.error("Error adding message reaction:", error);
+      return undefined;
+    }
+  }
+
+  async removeMessageReaction(messageId: number, userId: number, emoji: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(messageReactions)
+        .where(
+          and(
+            eq(messageReactions.messageId, messageId),
+            eq(messageReactions.userId, userId),
+            eq(messageReactions.emoji, emoji)
+          )
+        )
+        .returning();
+      
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error removing message reaction:", error);
+      return false;
+    }
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    try {
+      return await db
+        .select()
+        .from(messageEdits)
+        .where(eq(messageEdits.messageId, messageId))
+        .orderBy(desc(messageEdits.editedAt));
+    } catch (error) {
+      console.error("Error getting message edits:", error);
+      return [];
+    }
+  }
+
+  // Read receipt methods
+  async markRoomRead(userId: number, roomId: number, messageId: number): Promise<RoomReadReceipt | undefined> {
+    try {
+      // The pointer only moves forward, so a stale tab can't mark messages unread
+      const [receipt] = await db
+        .insert(roomReadReceipts)
+        .values({ userId, roomId, lastReadMessageId: messageId })
+        .onConflictDoUpdate({
+          target: [roomReadReceipts.userId, roomReadReceipts.roomId],
+          set: {
+            lastReadMessageId: sql`greatest(${roomReadReceipts.lastReadMessageId}, excluded.last_read_message_id)`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      
+      return receipt;
+    } catch (error) {
+      console.error("Error marking room as read:", error);
+      return undefined;
+    }
+  }
+
+  async getRoomReadStates(roomId: number): Promise<RoomReadState[]> {
+    try {
+      const participants = await this.getRoomParticipants(roomId);
+      const receipts = await db
+        .select()
+        .from(roomReadReceipts)
+        .where(eq(roomReadReceipts.roomId, roomId));
+      
+      const lastReadByUser = new Map(receipts.map(r => [r.userId, r.lastReadMessageId]));
+      
+      return participants.map(participant => ({
+        id: participant.id!,
+        username: participant.username!,
+        profilePicture: participant.profilePicture,
+        lastReadMessageId: lastReadByUser.get(participant.id!) ?? null,
+      }));
+    } catch (error) {
+      console.error("Error getting room read states:", error);
+      return [];
+    }
+  }
+
+  async getUnreadCounts(userId: number, roomIds: number[]): Promise<RoomUnreadCount[]> {
+    if (roomIds.length === 0) {
+      return [];
+    }
+    
+    try {
+      // Count other people's top-level messages past the user's read pointer
+      const result = await pool.query(`
+        SELECT m.room_id, COUNT(*)::int AS unread_count
+        FROM messages m
+        LEFT JOIN room_read_receipts r ON r.room_id = m.room_id AND r.user_id = $1
+        WHERE m.room_id = ANY($2)
+          AND m.user_id <> $1
+          AND m.deleted_at IS NULL
+          AND m.parent_message_id IS NULL
+          AND m.id > COALESCE(r.last_read_message_id, 0)
+        GROUP BY m.room_id
+      `, [userId, roomIds]);
+      
+      const unreadByRoom = new Map<number, number>(
+        result.rows.map(row => [row.room_id, row.unread_count])
+      );
+      
+      return roomIds.map(roomId => ({
+        roomId,
+        unreadCount: unreadByRoom.get(roomId) ?? 0,
+      }));
+    } catch (error) {
+      console.error("Error getting unread counts:", error);
+      return [];
+    }
+  }
+
   // Friend request methods
   async getFriendRequests(userId: number): Promise<FriendRequest[]> {
     const sentRequests = await this.getSentFriendRequests(userId);
@@ -623,7 +2074,12 @@ export class DatabaseStorage implements IStorage {
       .where(eq(friendRequests.receiverId, userId));
   }
 
-  async createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest> {
+  async createFriendRequest(request: InsertFriendRequest): Promise<FriendRequest | undefined> {
+    // No requests across a block
+    if (await this.isBlockedBetween(request.senderId, request.receiverId)) {
+      return undefined;
+    }
+    
     // Check if request already exists
     const existingRequests = await db
       .select()
@@ -686,18 +2142,139 @@ export class DatabaseStorage implements IStorage {
       .from(users)
       .where(eq(users.id, request.receiverId));
     
-    if (receiver) {
-      await this.createNotification({
-        userId: request.senderId,
-        type: 'friend_request_response',
-        actorId: request.receiverId,
-        entityId: requestId,
-        entityType: 'friend_request',
-        message: `${receiver.username} ${status} your friend request.`,
+    if (receiver) {
+      await this.createNotification({
+        userId: request.senderId,
+        type: 'friend_request_response',
+        actorId: request.receiverId,
+        entityId: requestId,
+        entityType: 'friend_request',
+        message: `${receiver.username} ${status} your friend request.`,
+      });
+    }
+    
+    // New friends get a direct conversation right away
+    if (status === 'accepted') {
+      await this.getOrCreateDirectConversation(request.receiverId, request.senderId);
+    }
+    
+    return updatedRequest;
+  }
+
+  async areFriends(userId: number, otherUserId: number): Promise<boolean> {
+    const result = await db
+      .select({ id: friendRequests.id })
+      .from(friendRequests)
+      .where(
+        and(
+          eq(friendRequests.status, 'accepted'),
+          or(
+            and(eq(friendRequests.senderId, userId), eq(friendRequests.receiverId, otherUserId)),
+            and(eq(friendRequests.senderId, otherUserId), eq(friendRequests.receiverId, userId))
+          )
+        )
+      );
+    
+    return result.length > 0;
+  }
+
+  // Direct conversation methods
+  private async findDirectConversation(userLowId: number, userHighId: number): Promise<DirectConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(directConversations)
+      .where(
+        and(
+          eq(directConversations.userLowId, userLowId),
+          eq(directConversations.userHighId, userHighId)
+        )
+      );
+    return conversation;
+  }
+
+  async getOrCreateDirectConversation(userId: number, otherUserId: number): Promise<DirectConversation | undefined> {
+    // Store each pair in a fixed order so it can only exist once
+    const userLowId = Math.min(userId, otherUserId);
+    const userHighId = Math.max(userId, otherUserId);
+    
+    try {
+      const existing = await this.findDirectConversation(userLowId, userHighId);
+      if (existing) {
+        return existing;
+      }
+      
+      const pair = await db
+        .select({ id: users.id, username: users.username })
+        .from(users)
+        .where(or(eq(users.id, userLowId), eq(users.id, userHighId)));
+      
+      if (pair.length !== 2) {
+        return undefined;
+      }
+      
+      return await db.transaction(async (tx) => {
+        const [room] = await tx
+          .insert(chatRooms)
+          .values({
+            name: pair.map(u => u.username).join(' & '),
+            creatorId: userId,
+            isDirect: true,
+            totalMembers: 2,
+          })
+          .returning();
+        
+        // The creator has access implicitly; the other side joins as a member
+        await tx.insert(roomMemberships).values({ userId: otherUserId, roomId: room.id });
+        
+        const [conversation] = await tx
+          .insert(directConversations)
+          .values({ roomId: room.id, userLowId, userHighId })
+          .returning();
+        
+        return conversation;
       });
+    } catch (error) {
+      // Another request may have created the conversation concurrently
+      const existing = await this.findDirectConversation(userLowId, userHighId);
+      if (!existing) {
+        console.error("Error creating direct conversation:", error);
+      }
+      return existing;
+    }
+  }
+
+  async getDirectConversations(userId: number): Promise<DirectConversationWithUser[]> {
+    try {
+      // Most recently active conversations first
+      const result = await pool.query(`
+        SELECT * FROM (
+          SELECT dc.id, dc.room_id, dc.created_at,
+            u.id AS other_user_id, u.username, u.profile_picture,
+            (
+              SELECT MAX(m.created_at) FROM messages m
+              WHERE m.room_id = dc.room_id AND m.deleted_at IS NULL
+            ) AS last_message_at
+          FROM direct_conversations dc
+          JOIN users u ON u.id = CASE WHEN dc.user_low_id = $1 THEN dc.user_high_id ELSE dc.user_low_id END
+          WHERE dc.user_low_id = $1 OR dc.user_high_id = $1
+        ) conversations
+        ORDER BY COALESCE(last_message_at, created_at) DESC
+      `, [userId]);
+      
+      return result.rows.map(row => ({
+        id: row.id,
+        roomId: row.room_id,
+        otherUser: {
+          id: row.other_user_id,
+          username: row.username,
+          profilePicture: row.profile_picture,
+        },
+        lastMessageAt: row.last_message_at,
+      }));
+    } catch (error) {
+      console.error("Error getting direct conversations:", error);
+      return [];
     }
-    
-    return updatedRequest;
   }
 
   // Follow methods
@@ -739,6 +2316,11 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
 
+    // No following across a block
+    if (await this.isBlockedBetween(followerId, followingId)) {
+      return undefined;
+    }
+
     // Check if already following
     const isAlreadyFollowing = await this.isFollowing(followerId, followingId);
     if (isAlreadyFollowing) {
@@ -802,6 +2384,149 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Block and mute methods
+  async blockUser(blockerId: number, blockedId: number, type: UserBlockType): Promise<UserBlock | undefined> {
+    if (blockerId === blockedId) {
+      return undefined;
+    }
+    
+    try {
+      return await db.transaction(async (tx) => {
+        const [block] = await tx
+          .insert(userBlocks)
+          .values({ blockerId, blockedId, type })
+          .onConflictDoUpdate({
+            target: [userBlocks.blockerId, userBlocks.blockedId],
+            set: { type, createdAt: new Date() },
+          })
+          .returning();
+        
+        if (type === 'block') {
+          // Blocking ends any friendship, follows and pending invitations between the two
+          await tx
+            .delete(follows)
+            .where(
+              or(
+                and(eq(follows.followerId, blockerId), eq(follows.followingId, blockedId)),
+                and(eq(follows.followerId, blockedId), eq(follows.followingId, blockerId))
+              )
+            );
+          
+          await tx
+            .delete(friendRequests)
+            .where(
+              or(
+                and(eq(friendRequests.senderId, blockerId), eq(friendRequests.receiverId, blockedId)),
+                and(eq(friendRequests.senderId, blockedId), eq(friendRequests.receiverId, blockerId))
+              )
+            );
+          
+          await tx
+            .delete(roomInvitations)
+            .where(
+              and(
+                eq(roomInvitations.status, 'pending'),
+                or(
+                  and(eq(roomInvitations.senderId, blockerId), eq(roomInvitations.receiverId, blockedId)),
+                  and(eq(roomInvitations.senderId, blockedId), eq(roomInvitations.receiverId, blockerId))
+                )
+              )
+            );
+        }
+        
+        return block;
+      });
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      return undefined;
+    }
+  }
+
+  async unblockUser(blockerId: number, blockedId: number): Promise<boolean> {
+    try {
+      const removed = await db
+        .delete(userBlocks)
+        .where(
+          and(
+            eq(userBlocks.blockerId, blockerId),
+            eq(userBlocks.blockedId, blockedId)
+          )
+        )
+        .returning();
+      
+      return removed.length > 0;
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      return false;
+    }
+  }
+
+  async getUserBlocks(userId: number): Promise<UserBlockWithUser[]> {
+    try {
+      const result = await db
+        .select({
+          block: userBlocks,
+          user: {
+            id: users.id,
+            username: users.username,
+            profilePicture: users.profilePicture,
+          },
+        })
+        .from(userBlocks)
+        .innerJoin(users, eq(userBlocks.blockedId, users.id))
+        .where(eq(userBlocks.blockerId, userId))
+        .orderBy(desc(userBlocks.createdAt));
+      
+      return result.map(row => ({ ...row.block, user: row.user }));
+    } catch (error) {
+      console.error("Error getting user blocks:", error);
+      return [];
+    }
+  }
+
+  async isBlockedBetween(userId: number, otherUserId: number): Promise<boolean> {
+    try {
+      const [block] = await db
+        .select({ id: userBlocks.id })
+        .from(userBlocks)
+        .where(
+          and(
+            eq(userBlocks.type, 'block'),
+            or(
+              and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, otherUserId)),
+              and(eq(userBlocks.blockerId, otherUserId), eq(userBlocks.blockedId, userId))
+            )
+          )
+        )
+        .limit(1);
+      
+      return !!block;
+    } catch (error) {
+      console.error("Error checking blocks:", error);
+      return false;
+    }
+  }
+
+  async getBlockedUserIds(userId: number): Promise<number[]> {
+    try {
+      const result = await pool.query(BLOCKED_USERS_SQL, [userId]);
+      return result.rows.map(row => row.user_id);
+    } catch (error) {
+      console.error("Error getting blocked users:", error);
+      return [];
+    }
+  }
+
+  async getHiddenUserIds(userId: number): Promise<number[]> {
+    try {
+      const result = await pool.query(HIDDEN_USERS_SQL, [userId]);
+      return result.rows.map(row => row.user_id);
+    } catch (error) {
+      console.error("Error getting hidden users:", error);
+      return [];
+    }
+  }
+
   // Notification methods
   async getNotifications(userId: number): Promise<Notification[]> {
     return await db
@@ -859,6 +2584,9 @@ export class DatabaseStorage implements IStorage {
       .values(notification)
       .returning();
     
+    // Push the notification to the recipient's open sockets
+    await dispatchNotification(newNotification);
+    
     return newNotification;
   }
 
@@ -879,7 +2607,12 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(roomInvitations.createdAt));
   }
 
-  async createRoomInvitation(invitation: InsertRoomInvitation): Promise<RoomInvitation> {
+  async createRoomInvitation(invitation: InsertRoomInvitation): Promise<RoomInvitation | undefined> {
+    // No invitations across a block
+    if (await this.isBlockedBetween(invitation.senderId, invitation.receiverId)) {
+      return undefined;
+    }
+    
     // Check if invitation already exists
     const existingInvitations = await db
       .select()
@@ -990,23 +2723,9 @@ export class DatabaseStorage implements IStorage {
     const query = `
       SELECT p.*, u.username, u.profile_picture FROM posts p
       JOIN users u ON p.user_id = u.id
-      WHERE 
-        -- Public posts
-        p.visibility = 'public'
-        -- Posts from users the current user follows (if visibility is 'followers')
-        OR (p.visibility = 'followers' AND EXISTS (
-          SELECT 1 FROM follows WHERE follower_id = $1 AND following_id = p.user_id
-        ))
-        -- Posts from users who are friends with the current user (if visibility is 'friends')
-        OR (p.visibility = 'friends' AND EXISTS (
-          SELECT 1 FROM friend_requests 
-          WHERE ((sender_id = $1 AND receiver_id = p.user_id) OR (sender_id = p.user_id AND receiver_id = $1))
-          AND status = 'accepted'
-        ))
-        -- User's own posts
-        OR p.user_id = $1
-        -- Don't show posts that should be auto-deleted
-        AND (p.auto_delete_at IS NULL OR p.auto_delete_at > NOW())
+      WHERE ${POST_VISIBLE_SQL}
+        -- Leave out blocked and muted users
+        AND p.user_id NOT IN (${HIDDEN_USERS_SQL})
       ORDER BY p.created_at DESC
     `;
 
@@ -1020,6 +2739,7 @@ export class DatabaseStorage implements IStorage {
         imageUrl: row.image_url,
         visibility: row.visibility,
         autoDeleteAt: row.auto_delete_at,
+        heldAt: row.held_at,
         createdAt: row.created_at,
         user: {
           id: row.user_id,
@@ -1055,8 +2775,16 @@ export class DatabaseStorage implements IStorage {
         -- Allow users to see their own posts regardless of visibility
         OR $1 = $2
       )
+      -- Nothing is shown across a block
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks ub
+        WHERE ub.type = 'block'
+        AND ((ub.blocker_id = $1 AND ub.blocked_id = $2) OR (ub.blocker_id = $2 AND ub.blocked_id = $1))
+      )
       -- Don't show posts that should be auto-deleted
       AND (p.auto_delete_at IS NULL OR p.auto_delete_at > NOW())
+      -- Held posts are only shown to their author
+      AND (p.held_at IS NULL OR $1 = $2)
       ORDER BY p.created_at DESC
     `;
 
@@ -1070,6 +2798,7 @@ export class DatabaseStorage implements IStorage {
         imageUrl: row.image_url,
         visibility: row.visibility,
         autoDeleteAt: row.auto_delete_at,
+        heldAt: row.held_at,
         createdAt: row.created_at,
         user: {
           id: row.user_id,
@@ -1127,15 +2856,22 @@ export class DatabaseStorage implements IStorage {
   }
   
   // Comment methods
-  async getPostComments(postId: number): Promise<CommentWithUser[]> {
+  async getPostComments(postId: number, currentUserId?: number): Promise<CommentWithUser[]> {
     const commentsData = await db
       .select()
       .from(comments)
       .where(eq(comments.postId, postId))
       .orderBy(comments.createdAt);
     
+    // Leave out comments from users the viewer has blocked or muted, and
+    // held comments unless the viewer wrote them
+    const hiddenIds = new Set(currentUserId ? await this.getHiddenUserIds(currentUserId) : []);
+    const visibleComments = commentsData.filter(comment =>
+      !hiddenIds.has(comment.userId) && (!comment.heldAt || comment.userId === currentUserId)
+    );
+    
     const commentWithUsers = await Promise.all(
-      commentsData.map(async (comment) => {
+      visibleComments.map(async (comment) => {
         const [user] = await db
           .select({ 
             id: users.id, 
@@ -1326,6 +3062,30 @@ export class DatabaseStorage implements IStorage {
       .where(lt(userRecommendations.expiresAt, new Date()));
   }
 
+  // Rate limit methods
+  async incrementRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    // Start a fresh window if the stored one has ended, otherwise count within it
+    const windowEnded = sql`${rateLimits.resetAt} <= now()`;
+    const [row] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt: new Date(Date.now() + windowMs) })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${windowEnded} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${windowEnded} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+    
+    return row;
+  }
+
+  async clearExpiredRateLimits(): Promise<void> {
+    await db.delete(rateLimits)
+      .where(lt(rateLimits.resetAt, new Date()));
+  }
+
   // Place recommendations methods
   async getPlaceRecommendations(roomId: number): Promise<PlaceRecommendation[]> {
     return await db.select()
@@ -1490,6 +3250,469 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+
+  // Search methods
+  async search(userId: number, query: string, limit = 10): Promise<SearchResults> {
+    // The to_tsvector expressions must match the indexes in the schema
+    const params = [userId, query, limit];
+    
+    try {
+      const [messageRows, postRows, commentRows, roomRows] = await Promise.all([
+        pool.query(`
+          SELECT m.id, m.content, m.room_id, m.created_at, r.name AS room_name,
+            u.id AS user_id, u.username, u.profile_picture
+          FROM messages m
+          CROSS JOIN websearch_to_tsquery('english', $2) q
+          JOIN chat_rooms r ON r.id = m.room_id
+          JOIN users u ON u.id = m.user_id
+          WHERE to_tsvector('english', m.content) @@ q
+            AND m.deleted_at IS NULL
+            AND m.held_at IS NULL
+            AND m.room_id IN (${ACCESSIBLE_ROOMS_SQL})
+          ORDER BY ts_rank(to_tsvector('english', m.content), q) DESC, m.created_at DESC
+          LIMIT $3
+        `, params),
+        pool.query(`
+          SELECT p.id, p.content, p.created_at, u.id AS user_id, u.username, u.profile_picture
+          FROM posts p
+          CROSS JOIN websearch_to_tsquery('english', $2) q
+          JOIN users u ON u.id = p.user_id
+          WHERE to_tsvector('english', p.content) @@ q
+            AND ${POST_VISIBLE_SQL}
+            AND p.user_id NOT IN (${HIDDEN_USERS_SQL})
+          ORDER BY ts_rank(to_tsvector('english', p.content), q) DESC, p.created_at DESC
+          LIMIT $3
+        `, params),
+        pool.query(`
+          SELECT c.id, c.content, c.post_id, c.created_at, u.id AS user_id, u.username, u.profile_picture
+          FROM comments c
+          CROSS JOIN websearch_to_tsquery('english', $2) q
+          JOIN posts p ON p.id = c.post_id
+          JOIN users u ON u.id = c.user_id
+          WHERE to_tsvector('english', c.content) @@ q
+            AND ${POST_VISIBLE_SQL}
+            AND (c.held_at IS NULL OR c.user_id = $1)
+            AND c.user_id NOT IN (${HIDDEN_USERS_SQL})
+          ORDER BY ts_rank(to_tsvector('english', c.content), q) DESC, c.created_at DESC
+          LIMIT $3
+        `, params),
+        pool.query(`
+          SELECT r.id, r.name, r.description, r.is_public, r.category, r.tags,
+            r.id IN (${ACCESSIBLE_ROOMS_SQL}) AS can_access
+          FROM chat_rooms r
+          CROSS JOIN websearch_to_tsquery('english', $2) q
+          WHERE to_tsvector('english', coalesce(r.name, '') || ' ' || coalesce(r.description, '') || ' ' || coalesce(r.tags, '')) @@ q
+            AND (r.is_public OR r.id IN (${ACCESSIBLE_ROOMS_SQL}))
+          ORDER BY ts_rank(
+            to_tsvector('english', coalesce(r.name, '') || ' ' || coalesce(r.description, '') || ' ' || coalesce(r.tags, '')), q
+          ) DESC
+          LIMIT $3
+        `, params),
+      ]);
+      
+      const toAuthor = (row: any) => ({
+        id: row.user_id,
+        username: row.username,
+        profilePicture: row.profile_picture,
+      });
+      
+      return {
+        messages: messageRows.rows.map(row => ({
+          id: row.id,
+          content: row.content,
+          roomId: row.room_id,
+          roomName: row.room_name,
+          createdAt: row.created_at,
+          user: toAuthor(row),
+        })),
+        posts: postRows.rows.map(row => ({
+          id: row.id,
+          content: row.content,
+          createdAt: row.created_at,
+          user: toAuthor(row),
+        })),
+        comments: commentRows.rows.map(row => ({
+          id: row.id,
+          content: row.content,
+          postId: row.post_id,
+          createdAt: row.created_at,
+          user: toAuthor(row),
+        })),
+        rooms: roomRows.rows.map(row => ({
+          id: row.id,
+          name: row.name,
+          description: row.description,
+          isPublic: row.is_public,
+          category: row.category,
+          tags: row.tags,
+          canAccess: row.can_access,
+        })),
+      };
+    } catch (error) {
+      console.error("Error searching:", error);
+      return { messages: [], posts: [], comments: [], rooms: [] };
+    }
+  }
+
+  // Report methods
+  async getReportTarget(entityType: ReportEntityType, entityId: number, viewerId: number): Promise<ReportTarget | undefined> {
+    try {
+      switch (entityType) {
+        case 'post': {
+          // Only posts the reporter can see may be reported
+          const result = await pool.query(`
+            SELECT p.user_id, p.content FROM posts p
+            WHERE p.id = $2 AND ${POST_VISIBLE_SQL}
+          `, [viewerId, entityId]);
+          const row = result.rows[0];
+          return row ? { userId: row.user_id, content: row.content } : undefined;
+        }
+        case 'comment': {
+          const result = await pool.query(`
+            SELECT c.user_id, c.content FROM comments c
+            JOIN posts p ON p.id = c.post_id
+            WHERE c.id = $2 AND ${POST_VISIBLE_SQL}
+              AND (c.held_at IS NULL OR c.user_id = $1)
+          `, [viewerId, entityId]);
+          const row = result.rows[0];
+          return row ? { userId: row.user_id, content: row.content } : undefined;
+        }
+        case 'message': {
+          const message = await this.getMessage(entityId);
+          if (!message || message.deletedAt || message.heldAt || message.isSystem) {
+            return undefined;
+          }
+          if (!(await this.canAccessRoom(viewerId, message.roomId))) {
+            return undefined;
+          }
+          return { userId: message.userId, content: message.content };
+        }
+        case 'user': {
+          const user = await this.getUser(entityId);
+          if (!user) {
+            return undefined;
+          }
+          const profile = [user.hobbies, user.interests, user.currentActivities].filter(Boolean).join('\n');
+          return { userId: user.id, content: profile || null };
+        }
+      }
+    } catch (error) {
+      console.error("Error getting report target:", error);
+      return undefined;
+    }
+  }
+
+  async createReport(reporterId: number | null, report: InsertReport, target: ReportTarget): Promise<Report> {
+    // Reporting the same thing twice while the first report is open is a no-op
+    const [existing] = await db
+      .select()
+      .from(reports)
+      .where(
+        and(
+          reporterId === null ? isNull(reports.reporterId) : eq(reports.reporterId, reporterId),
+          eq(reports.entityType, report.entityType),
+          eq(reports.entityId, report.entityId),
+          eq(reports.status, 'pending')
+        )
+      );
+    
+    if (existing) {
+      return existing;
+    }
+    
+    const [newReport] = await db
+      .insert(reports)
+      .values({
+        reporterId,
+        entityType: report.entityType,
+        entityId: report.entityId,
+        reason: report.reason,
+        details: report.details || null,
+        reportedUserId: target.userId,
+        contentSnapshot: target.content,
+      })
+      .returning();
+    
+    return newReport;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    const [report] = await db
+      .select()
+      .from(reports)
+      .where(eq(reports.id, id));
+    return report;
+  }
+
+  async getReports(status: 'pending' | 'closed', limit = 100): Promise<ReportWithUsers[]> {
+    try {
+      const result = await pool.query(`
+        SELECT r.*, reporter.username AS reporter_username,
+          reported.username AS reported_username, reported.profile_picture AS reported_profile_picture,
+          reported.status AS reported_status,
+          (
+            SELECT count(*)::int FROM reports other
+            WHERE other.entity_type = r.entity_type AND other.entity_id = r.entity_id
+              AND other.status = 'pending' AND other.id <> r.id
+          ) AS duplicate_count
+        FROM reports r
+        LEFT JOIN users reporter ON reporter.id = r.reporter_id
+        LEFT JOIN users reported ON reported.id = r.reported_user_id
+        WHERE ${status === 'pending' ? "r.status = 'pending'" : "r.status <> 'pending'"}
+        ORDER BY ${status === 'pending' ? 'r.created_at ASC' : 'r.resolved_at DESC'}, r.id
+        LIMIT $1
+      `, [limit]);
+      
+      return result.rows.map(row => ({
+        id: row.id,
+        reporterId: row.reporter_id,
+        entityType: row.entity_type,
+        entityId: row.entity_id,
+        reportedUserId: row.reported_user_id,
+        reason: row.reason,
+        details: row.details,
+        contentSnapshot: row.content_snapshot,
+        status: row.status,
+        resolution: row.resolution,
+        resolvedById: row.resolved_by_id,
+        resolvedAt: row.resolved_at,
+        createdAt: row.created_at,
+        reporter: row.reporter_id ? {
+          id: row.reporter_id,
+          username: row.reporter_username,
+        } : null,
+        reportedUser: row.reported_user_id ? {
+          id: row.reported_user_id,
+          username: row.reported_username,
+          profilePicture: row.reported_profile_picture,
+          status: row.reported_status,
+        } : null,
+        duplicateCount: row.duplicate_count,
+      }));
+    } catch (error) {
+      console.error("Error getting reports:", error);
+      return [];
+    }
+  }
+
+  async closeReports(
+    entityType: ReportEntityType,
+    entityId: number,
+    adminId: number,
+    status: 'dismissed' | 'resolved',
+    resolution?: string
+  ): Promise<Report[]> {
+    try {
+      // Every open report about the same content shares one outcome
+      return await db
+        .update(reports)
+        .set({
+          status,
+          resolution: resolution ?? null,
+          resolvedById: adminId,
+          resolvedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(reports.entityType, entityType),
+            eq(reports.entityId, entityId),
+            eq(reports.status, 'pending')
+          )
+        )
+        .returning();
+    } catch (error) {
+      console.error("Error closing reports:", error);
+      return [];
+    }
+  }
+
+  async removeReportedContent(entityType: ReportEntityType, entityId: number): Promise<boolean> {
+    try {
+      switch (entityType) {
+        case 'post':
+          await db.transaction(async (tx) => {
+            await tx.delete(comments).where(eq(comments.postId, entityId));
+            await tx.delete(postLikes).where(eq(postLikes.postId, entityId));
+            await tx.delete(posts).where(eq(posts.id, entityId));
+          });
+          return true;
+        case 'comment':
+          await db.delete(comments).where(eq(comments.id, entityId));
+          return true;
+        case 'message':
+          return !!(await this.deleteMessage(entityId));
+        case 'user':
+          // Profiles have no content to remove; suspend the user instead
+          return false;
+      }
+    } catch (error) {
+      console.error("Error removing reported content:", error);
+      return false;
+    }
+  }
+
+  async suspendUser(userId: number, reason: string, until: Date | null = null): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ status: 'suspended', suspensionReason: reason, suspendedUntil: until })
+        .where(eq(users.id, userId))
+        .returning();
+      
+      return user;
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      return undefined;
+    }
+  }
+
+  // Site admin methods
+  async reinstateUser(userId: number): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .update(users)
+        .set({ status: 'active', suspensionReason: null, suspendedUntil: null })
+        .where(and(eq(users.id, userId), eq(users.status, 'suspended')))
+        .returning();
+      
+      return user;
+    } catch (error) {
+      console.error("Error reinstating user:", error);
+      return undefined;
+    }
+  }
+
+  async searchUsersForAdmin(query: string, limit = 25): Promise<AdminUserSummary[]> {
+    try {
+      // An empty query lists the newest accounts; an exact numeric id also matches
+      const trimmed = query.trim();
+      const result = await pool.query(`
+        SELECT u.id, u.username, u.email, u.email_verified, u.profile_picture, u.is_admin,
+          u.status, u.suspension_reason, u.suspended_until, u.created_at,
+          (SELECT count(*)::int FROM posts p WHERE p.user_id = u.id) AS post_count,
+          (SELECT count(*)::int FROM messages m WHERE m.user_id = u.id AND NOT COALESCE(m.is_system, false)) AS message_count,
+          (SELECT count(*)::int FROM reports r WHERE r.reported_user_id = u.id AND r.status = 'pending') AS open_report_count
+        FROM users u
+        WHERE $1 = ''
+          OR u.username ILIKE '%' || $1 || '%'
+          OR u.email ILIKE '%' || $1 || '%'
+          OR u.id::text = $1
+        ORDER BY (u.username ILIKE $1) DESC, u.created_at DESC
+        LIMIT $2
+      `, [trimmed, limit]);
+      
+      return result.rows.map(row => ({
+        id: row.id,
+        username: row.username,
+        email: row.email,
+        emailVerified: row.email_verified,
+        profilePicture: row.profile_picture,
+        isAdmin: row.is_admin,
+        status: row.status,
+        suspensionReason: row.suspension_reason,
+        suspendedUntil: row.suspended_until,
+        createdAt: row.created_at,
+        postCount: row.post_count,
+        messageCount: row.message_count,
+        openReportCount: row.open_report_count,
+      }));
+    } catch (error) {
+      console.error("Error searching users for admin:", error);
+      return [];
+    }
+  }
+
+  async getPlatformStats(): Promise<PlatformStats | undefined> {
+    try {
+      const result = await pool.query(`
+        SELECT
+          (SELECT count(*)::int FROM users) AS users_total,
+          (SELECT count(*)::int FROM users WHERE status = 'active') AS users_active,
+          (SELECT count(*)::int FROM users WHERE status = 'suspended') AS users_suspended,
+          (SELECT count(*)::int FROM users WHERE created_at > NOW() - INTERVAL '7 days') AS users_new_this_week,
+          (SELECT count(*)::int FROM posts) AS posts,
+          (SELECT count(*)::int FROM comments) AS comments,
+          (SELECT count(*)::int FROM messages WHERE deleted_at IS NULL AND NOT COALESCE(is_system, false)) AS messages,
+          (SELECT count(*)::int FROM messages
+            WHERE created_at > NOW() - INTERVAL '1 day' AND NOT COALESCE(is_system, false)) AS messages_today,
+          (SELECT count(*)::int FROM chat_rooms
+            WHERE NOT COALESCE(is_self_chat, false) AND NOT COALESCE(is_direct, false)) AS rooms_total,
+          (SELECT count(*)::int FROM chat_rooms WHERE COALESCE(is_public, false)) AS rooms_public,
+          (SELECT count(*)::int FROM reports WHERE status = 'pending') AS pending_reports,
+          (
+            (SELECT count(*) FROM posts WHERE held_at IS NOT NULL)
+            + (SELECT count(*) FROM comments WHERE held_at IS NOT NULL)
+            + (SELECT count(*) FROM messages WHERE held_at IS NOT NULL AND deleted_at IS NULL)
+          )::int AS held_items
+      `);
+      const row = result.rows[0];
+      
+      return {
+        users: {
+          total: row.users_total,
+          active: row.users_active,
+          suspended: row.users_suspended,
+          newThisWeek: row.users_new_this_week,
+        },
+        content: {
+          posts: row.posts,
+          comments: row.comments,
+          messages: row.messages,
+          messagesToday: row.messages_today,
+        },
+        rooms: {
+          total: row.rooms_total,
+          public: row.rooms_public,
+        },
+        moderation: {
+          pendingReports: row.pending_reports,
+          heldItems: row.held_items,
+        },
+      };
+    } catch (error) {
+      console.error("Error getting platform stats:", error);
+      return undefined;
+    }
+  }
+
+  // Moderation methods
+  async createModerationVerdict(verdict: InsertModerationVerdict): Promise<ModerationVerdict | undefined> {
+    try {
+      const [newVerdict] = await db
+        .insert(moderationVerdicts)
+        .values(verdict)
+        .returning();
+      
+      return newVerdict;
+    } catch (error) {
+      console.error("Error creating moderation verdict:", error);
+      return undefined;
+    }
+  }
+
+  async setContentHeld(entityType: ModeratedEntityType, entityId: number, held: boolean): Promise<boolean> {
+    const heldAt = held ? new Date() : null;
+    
+    try {
+      switch (entityType) {
+        case 'post': {
+          const updated = await db.update(posts).set({ heldAt }).where(eq(posts.id, entityId)).returning();
+          return updated.length > 0;
+        }
+        case 'comment': {
+          const updated = await db.update(comments).set({ heldAt }).where(eq(comments.id, entityId)).returning();
+          return updated.length > 0;
+        }
+        case 'message': {
+          const updated = await db.update(messages).set({ heldAt }).where(eq(messages.id, entityId)).returning();
+          return updated.length > 0;
+        }
+      }
+    } catch (error) {
+      console.error("Error updating content hold:", error);
+      return false;
+    }
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, unique, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, unique, primaryKey, index, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // User schema
 export const users = pgTable("users", {
@@ -16,6 +16,15 @@ export const users = pgTable("users", {
   interests: text("interests"),
   currentActivities: text("current_activities"),
   favoriteFood: text("favorite_food"),
+  isAdmin: boolean("is_admin").notNull().default(false), // site-wide admin, set by scripts/set-site-admin.ts
+  status: text("status").notNull().default("active"), // active, suspended, deleted
+  suspensionReason: text("suspension_reason"),
+  suspendedUntil: timestamp("suspended_until"), // null while suspended means indefinitely
+  // Base32 TOTP secret; set during enrollment, but only enforced once twoFactorEnabled is true
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  // Last TOTP time step accepted, so a code can't be replayed
+  twoFactorLastStep: integer("two_factor_last_step"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -33,6 +42,135 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export const userStatuses = ["active", "suspended", "deleted"] as const;
+export type UserStatus = typeof userStatuses[number];
+
+// WebSocket close code for connections dropped because their account was suspended
+export const ACCOUNT_SUSPENDED_CLOSE_CODE = 4003;
+// WebSocket close code for connections whose login session was revoked
+export const SESSION_REVOKED_CLOSE_CODE = 4001;
+
+// Device details recorded on each logged-in session
+export type SessionClientInfo = {
+  userAgent: string | null;
+  ip: string | null;
+  lastSeenAt: string;
+};
+
+// One of a user's logged-in sessions, as listed on the sessions page. The id
+// is derived from the session ID so the session cookie value never leaves the server.
+export type UserSession = Partial<SessionClientInfo> & {
+  id: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+// A user as listed in the site admin console
+export type AdminUserSummary = Pick<User,
+  'id' | 'username' | 'email' | 'emailVerified' | 'profilePicture' | 'isAdmin' |
+  'status' | 'suspensionReason' | 'suspendedUntil' | 'createdAt'
+> & {
+  postCount: number;
+  messageCount: number;
+  // Pending reports about the user or their content
+  openReportCount: number;
+};
+
+export type PlatformStats = {
+  users: { total: number; active: number; suspended: number; newThisWeek: number };
+  content: { posts: number; comments: number; messages: number; messagesToday: number };
+  rooms: { total: number; public: number };
+  moderation: { pendingReports: number; heldItems: number };
+};
+
+// Password reset tokens; only a hash of each token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Single-use two-factor backup codes; only hashes are stored
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueUserCode: unique().on(t.userId, t.codeHash),
+}));
+
+export type TwoFactorBackupCode = typeof twoFactorBackupCodes.$inferSelect;
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  backupCodesRemaining: number;
+};
+
+// A TOTP code from an authenticator app, or a backup code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter your verification code").max(20),
+});
+
+// Identities from external OpenID Connect providers, linked to local accounts
+export const oauthAccounts = pgTable("oauth_accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // the provider's issuer URL
+  subject: text("subject").notNull(), // the provider's stable user ID ("sub" claim)
+  email: text("email"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueProviderSubject: unique().on(t.provider, t.subject),
+}));
+
+export type OauthAccount = typeof oauthAccounts.$inferSelect;
+export type InsertOauthAccount = Omit<typeof oauthAccounts.$inferInsert, 'id' | 'userId' | 'createdAt'>;
+
+// External sign-in options shown on the auth page
+export type AuthProviders = {
+  oidc: { enabled: boolean; name: string };
+};
+
+// OAuth account relations
+export const oauthAccountsRelations = relations(oauthAccounts, ({ one }) => ({
+  user: one(users, {
+    fields: [oauthAccounts.userId],
+    references: [users.id],
+  }),
+}));
+
+// Two-factor backup code relations
+export const twoFactorBackupCodesRelations = relations(twoFactorBackupCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorBackupCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+// Password reset token relations
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 // User relations
 export const usersRelations = relations(users, ({ many }) => ({
   chatRooms: many(chatRooms),
@@ -59,11 +197,24 @@ export const chatRooms = pgTable("chat_rooms", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   isSelfChat: boolean("is_self_chat").default(false),
+  isDirect: boolean("is_direct").default(false), // 1:1 conversation between two friends
   isPublic: boolean("is_public").default(false),
+  joinPolicy: text("join_policy").notNull().default("open"), // open, request, invite_only; applies to public rooms
   category: text("category"),
   tags: text("tags"),
   totalMembers: integer("total_members").default(1),
-});
+}, (t) => ({
+  // Full-text search; keep in sync with the expression used by storage.search
+  searchIdx: index("chat_rooms_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', coalesce(${t.name}, '') || ' ' || coalesce(${t.description}, '') || ' ' || coalesce(${t.tags}, ''))`
+  ),
+}));
+
+// How people get into a public room: join directly, ask an admin, or
+// only through an invitation or invite link
+export const roomJoinPolicies = ["open", "request", "invite_only"] as const;
+export type RoomJoinPolicy = typeof roomJoinPolicies[number];
 
 export const insertChatRoomSchema = createInsertSchema(chatRooms).pick({
   name: true,
@@ -71,10 +222,27 @@ export const insertChatRoomSchema = createInsertSchema(chatRooms).pick({
   creatorId: true,
   isSelfChat: true,
   isPublic: true,
+  joinPolicy: true,
+  category: true,
+  tags: true,
+}).extend({
+  joinPolicy: z.enum(roomJoinPolicies).optional(),
+});
+
+// Settings that can be changed after a room is created
+export const updateChatRoomSchema = insertChatRoomSchema.pick({
+  name: true,
+  description: true,
+  isPublic: true,
+  joinPolicy: true,
   category: true,
   tags: true,
+}).partial().extend({
+  name: z.string().trim().min(1, "Room name is required").max(100).optional(),
 });
 
+export type UpdateChatRoom = z.infer<typeof updateChatRoomSchema>;
+
 export type InsertChatRoom = z.infer<typeof insertChatRoomSchema>;
 export type ChatRoom = typeof chatRooms.$inferSelect;
 
@@ -90,6 +258,47 @@ export const chatRoomsRelations = relations(chatRooms, ({ one, many }) => ({
   recommendations: many(roomRecommendations),
 }));
 
+// Direct conversation schema: one per pair of users, stored with the lower user id first
+export const directConversations = pgTable("direct_conversations", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().unique().references(() => chatRooms.id, { onDelete: "cascade" }),
+  userLowId: integer("user_low_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userHighId: integer("user_high_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniquePair: unique().on(t.userLowId, t.userHighId),
+}));
+
+export type DirectConversation = typeof directConversations.$inferSelect;
+
+// Direct conversation relations
+export const directConversationsRelations = relations(directConversations, ({ one }) => ({
+  room: one(chatRooms, {
+    fields: [directConversations.roomId],
+    references: [chatRooms.id],
+  }),
+  userLow: one(users, {
+    fields: [directConversations.userLowId],
+    references: [users.id],
+  }),
+  userHigh: one(users, {
+    fields: [directConversations.userHighId],
+    references: [users.id],
+  }),
+}));
+
+// A direct conversation as seen by one of its two participants
+export type DirectConversationWithUser = {
+  id: number;
+  roomId: number;
+  otherUser: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+  };
+  lastMessageAt: Date | null;
+};
+
 // Message schema
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -97,21 +306,31 @@ export const messages = pgTable("messages", {
   imageUrl: text("image_url"),
   userId: integer("user_id").notNull(),
   roomId: integer("room_id").notNull(),
+  // Replies point at the top-level message that started their thread
+  parentMessageId: integer("parent_message_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"), // Soft-deleted messages keep their row but hide their content
+  heldAt: timestamp("held_at"), // Held by automated moderation; hidden like a deleted message until an admin releases it
+  isSystem: boolean("is_system").default(false), // Announcements such as room setting changes, attributed to the user who made them
+}, (t) => ({
+  searchIdx: index("messages_search_idx").using("gin", sql`to_tsvector('english', ${t.content})`),
+}));
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
   imageUrl: true,
   userId: true,
   roomId: true,
+  parentMessageId: true,
+  isSystem: true,
 });
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
 // Message relations
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   user: one(users, {
     fields: [messages.userId],
     references: [users.id],
@@ -120,6 +339,14 @@ export const messagesRelations = relations(messages, ({ one }) => ({
     fields: [messages.roomId],
     references: [chatRooms.id],
   }),
+  parent: one(messages, {
+    fields: [messages.parentMessageId],
+    references: [messages.id],
+    relationName: "thread",
+  }),
+  replies: many(messages, { relationName: "thread" }),
+  edits: many(messageEdits),
+  reactions: many(messageReactions),
 }));
 
 // Message with user info for display
@@ -129,6 +356,137 @@ export type MessageWithUser = Message & {
     username: string;
     profilePicture?: string | null;
   };
+  replyCount?: number;
+  reactions?: ReactionSummary[];
+};
+
+// A top-level message together with its replies, oldest first
+export type MessageThread = {
+  parent: MessageWithUser;
+  replies: MessageWithUser[];
+};
+
+// Message edit history schema
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  editorId: integer("editor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  previousContent: text("previous_content").notNull(),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+});
+
+export const insertMessageEditSchema = createInsertSchema(messageEdits).pick({
+  messageId: true,
+  editorId: true,
+  previousContent: true,
+});
+
+export type InsertMessageEdit = z.infer<typeof insertMessageEditSchema>;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+
+// Message edit relations
+export const messageEditsRelations = relations(messageEdits, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageEdits.messageId],
+    references: [messages.id],
+  }),
+  editor: one(users, {
+    fields: [messageEdits.editorId],
+    references: [users.id],
+  }),
+}));
+
+// Message reactions schema
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  emoji: text("emoji").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueMessageUserEmoji: unique().on(t.messageId, t.userId, t.emoji),
+}));
+
+export const insertMessageReactionSchema = createInsertSchema(messageReactions).pick({
+  messageId: true,
+  userId: true,
+  emoji: true,
+});
+
+export type InsertMessageReaction = z.infer<typeof insertMessageReactionSchema>;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+
+// Message reaction relations
+export const messageReactionsRelations = relations(messageReactions, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageReactions.messageId],
+    references: [messages.id],
+  }),
+  user: one(users, {
+    fields: [messageReactions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Reactions on a message grouped by emoji, in the order they were first used
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  userIds: number[];
+};
+
+// Read receipts schema: the last message each user has read in each room
+export const roomReadReceipts = pgTable("room_read_receipts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  lastReadMessageId: integer("last_read_message_id").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueUserRoom: unique().on(t.userId, t.roomId),
+}));
+
+export type RoomReadReceipt = typeof roomReadReceipts.$inferSelect;
+
+// Read receipt relations
+export const roomReadReceiptsRelations = relations(roomReadReceipts, ({ one }) => ({
+  user: one(users, {
+    fields: [roomReadReceipts.userId],
+    references: [users.id],
+  }),
+  room: one(chatRooms, {
+    fields: [roomReadReceipts.roomId],
+    references: [chatRooms.id],
+  }),
+}));
+
+// Where a room participant has read up to, for "seen by" indicators
+export type RoomReadState = {
+  id: number;
+  username: string;
+  profilePicture?: string | null;
+  lastReadMessageId: number | null;
+};
+
+export type RoomUnreadCount = {
+  roomId: number;
+  unreadCount: number;
+};
+
+// Live presence of a user, derived from their open WebSocket connections
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+// Room participant with their role in the room
+export type RoomParticipant = {
+  id: number;
+  username: string;
+  profilePicture?: string | null;
+  role: RoomRole;
+};
+
+// Room participant with presence info for the member roster
+export type RoomParticipantWithPresence = RoomParticipant & {
+  status: PresenceStatus;
 };
 
 // Friend requests schema
@@ -189,6 +547,148 @@ export const followsRelations = relations(follows, ({ one }) => ({
   }),
 }));
 
+// Blocking cuts all contact both ways; muting only hides the muted user's content
+export const userBlocks = pgTable("user_blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  blockedId: integer("blocked_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull().default("block"), // block, mute
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueBlockerBlocked: unique().on(t.blockerId, t.blockedId),
+}));
+
+export const userBlockTypes = ["block", "mute"] as const;
+export type UserBlockType = typeof userBlockTypes[number];
+
+export type UserBlock = typeof userBlocks.$inferSelect;
+
+export type UserBlockWithUser = UserBlock & {
+  user: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+  };
+};
+
+// User blocks relations
+export const userBlocksRelations = relations(userBlocks, ({ one }) => ({
+  blocker: one(users, {
+    fields: [userBlocks.blockerId],
+    references: [users.id],
+  }),
+  blocked: one(users, {
+    fields: [userBlocks.blockedId],
+    references: [users.id],
+  }),
+}));
+
+// Reports of abusive content or profiles, reviewed by site admins
+export const reports = pgTable("reports", {
+  id: serial("id").primaryKey(),
+  // Null when the report was raised by automated moderation
+  reporterId: integer("reporter_id").references(() => users.id, { onDelete: "cascade" }),
+  entityType: text("entity_type").notNull(), // post, comment, message, user
+  entityId: integer("entity_id").notNull(),
+  // Author of the reported content, or the reported user
+  reportedUserId: integer("reported_user_id").references(() => users.id, { onDelete: "set null" }),
+  reason: text("reason").notNull(), // spam, harassment, hate_speech, violence, self_harm, sexual_content, other
+  details: text("details"),
+  // Copy of the content when it was reported, so edits and deletions don't hide the evidence
+  contentSnapshot: text("content_snapshot"),
+  status: text("status").notNull().default("pending"), // pending, dismissed, resolved
+  resolution: text("resolution"), // content_deleted, user_suspended
+  resolvedById: integer("resolved_by_id").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  statusIdx: index("reports_status_idx").on(t.status, t.createdAt),
+  entityIdx: index("reports_entity_idx").on(t.entityType, t.entityId),
+}));
+
+export const reportEntityTypes = ["post", "comment", "message", "user"] as const;
+export type ReportEntityType = typeof reportEntityTypes[number];
+
+export const reportReasons = ["spam", "harassment", "hate_speech", "violence", "self_harm", "sexual_content", "other"] as const;
+export type ReportReason = typeof reportReasons[number];
+
+export const insertReportSchema = z.object({
+  entityType: z.enum(reportEntityTypes),
+  entityId: z.number().int().positive(),
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).optional(),
+});
+
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type Report = typeof reports.$inferSelect;
+
+export type ReportWithUsers = Report & {
+  reporter: {
+    id: number;
+    username: string;
+  } | null;
+  reportedUser: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+    status: string;
+  } | null;
+  // Other pending reports about the same content
+  duplicateCount: number;
+};
+
+// Report relations
+export const reportsRelations = relations(reports, ({ one }) => ({
+  reporter: one(users, {
+    fields: [reports.reporterId],
+    references: [users.id],
+  }),
+  reportedUser: one(users, {
+    fields: [reports.reportedUserId],
+    references: [users.id],
+  }),
+  resolvedBy: one(users, {
+    fields: [reports.resolvedById],
+    references: [users.id],
+  }),
+}));
+
+// Classifier verdicts for posts, comments and messages
+export const moderationVerdicts = pgTable("moderation_verdicts", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // post, comment, message
+  entityId: integer("entity_id").notNull(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  classifier: text("classifier").notNull(), // anthropic, stub
+  // Score from 0 to 1 for each moderation category
+  scores: jsonb("scores").$type<ModerationScores>().notNull(),
+  riskLevel: text("risk_level").notNull(), // low, medium, high
+  action: text("action").notNull().default("none"), // none, held
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  entityIdx: index("moderation_verdicts_entity_idx").on(t.entityType, t.entityId),
+}));
+
+export const moderationCategories = ["toxicity", "harassment", "spam", "self_harm"] as const;
+export type ModerationCategory = typeof moderationCategories[number];
+export type ModerationScores = Record<ModerationCategory, number>;
+
+export const moderatedEntityTypes = ["post", "comment", "message"] as const;
+export type ModeratedEntityType = typeof moderatedEntityTypes[number];
+
+export type ModerationRiskLevel = "low" | "medium" | "high";
+
+export type ModerationVerdict = typeof moderationVerdicts.$inferSelect;
+export type InsertModerationVerdict = typeof moderationVerdicts.$inferInsert;
+
+// Moderation verdict relations
+export const moderationVerdictsRelations = relations(moderationVerdicts, ({ one }) => ({
+  author: one(users, {
+    fields: [moderationVerdicts.authorId],
+    references: [users.id],
+  }),
+}));
+
 // Notifications schema
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -215,6 +715,15 @@ export const insertNotificationSchema = createInsertSchema(notifications).pick({
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
 
+// Notification with actor info for display
+export type NotificationWithActor = Notification & {
+  actor: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+  } | null;
+};
+
 // Notifications relations
 export const notificationsRelations = relations(notifications, ({ one }) => ({
   user: one(users, {
@@ -272,8 +781,11 @@ export const posts = pgTable("posts", {
   imageUrl: text("image_url"),
   visibility: text("visibility").notNull().default("public"), // public, followers, friends
   autoDeleteAt: timestamp("auto_delete_at"),
+  heldAt: timestamp("held_at"), // Held by automated moderation; only the author sees it until an admin releases it
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (t) => ({
+  searchIdx: index("posts_search_idx").using("gin", sql`to_tsvector('english', ${t.content})`),
+}));
 
 export const insertPostSchema = createInsertSchema(posts).pick({
   userId: true,
@@ -316,8 +828,11 @@ export const comments = pgTable("comments", {
   content: text("content").notNull(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   postId: integer("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  heldAt: timestamp("held_at"), // Held by automated moderation; only the author sees it until an admin releases it
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (t) => ({
+  searchIdx: index("comments_search_idx").using("gin", sql`to_tsvector('english', ${t.content})`),
+}));
 
 export const insertCommentSchema = createInsertSchema(comments).pick({
   content: true,
@@ -447,13 +962,24 @@ export const placeRecommendationsRelations = relations(placeRecommendations, ({
   }),
 }));
 
+// Room roles, from least to most privileged. The room creator is always the
+// owner; everyone else's role is stored on their membership.
+export type RoomRole = 'member' | 'moderator' | 'admin' | 'owner';
+
+export const roomRoleRank: Record<RoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
 // Room memberships schema (for public rooms)
 export const roomMemberships = pgTable("room_memberships", {
   id: serial("id").primaryKey(),
   roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
-  isAdmin: boolean("is_admin").default(false),
+  role: text("role").notNull().default("member"), // admin, moderator, member
 }, (t) => ({
   uniqueRoomUser: unique().on(t.roomId, t.userId),
 }));
@@ -461,12 +987,199 @@ export const roomMemberships = pgTable("room_memberships", {
 export const insertRoomMembershipSchema = createInsertSchema(roomMemberships).pick({
   roomId: true,
   userId: true,
-  isAdmin: true,
+  role: true,
 });
 
 export type InsertRoomMembership = z.infer<typeof insertRoomMembershipSchema>;
 export type RoomMembership = typeof roomMemberships.$inferSelect;
 
+// Shareable invite links; anyone with the code can join until the link
+// expires, runs out of uses or is revoked
+export const roomInviteLinks = pgTable("room_invite_links", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  code: text("code").notNull().unique(),
+  createdById: integer("created_by_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  maxUses: integer("max_uses"), // null for unlimited
+  useCount: integer("use_count").notNull().default(0),
+  expiresAt: timestamp("expires_at"), // null for never
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRoomInviteLinkSchema = createInsertSchema(roomInviteLinks).pick({
+  roomId: true,
+  code: true,
+  createdById: true,
+  maxUses: true,
+  expiresAt: true,
+});
+
+export type InsertRoomInviteLink = z.infer<typeof insertRoomInviteLinkSchema>;
+export type RoomInviteLink = typeof roomInviteLinks.$inferSelect;
+
+export type RoomInviteLinkWithCreator = RoomInviteLink & {
+  createdBy: {
+    id: number;
+    username: string;
+  };
+};
+
+// What someone opening an invite link sees before joining
+export type RoomInviteLinkPreview = {
+  code: string;
+  isValid: boolean;
+  isMember: boolean;
+  room: Pick<ChatRoom, 'id' | 'name' | 'description' | 'isPublic' | 'totalMembers'>;
+};
+
+// Room invite link relations
+export const roomInviteLinksRelations = relations(roomInviteLinks, ({ one }) => ({
+  room: one(chatRooms, {
+    fields: [roomInviteLinks.roomId],
+    references: [chatRooms.id],
+  }),
+  createdBy: one(users, {
+    fields: [roomInviteLinks.createdById],
+    references: [users.id],
+  }),
+}));
+
+// Requests to join public rooms whose join policy is "request"
+export const roomJoinRequests = pgTable("room_join_requests", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"), // pending, approved, denied
+  message: text("message"),
+  reviewedById: integer("reviewed_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+}, (t) => ({
+  uniqueRoomUser: unique().on(t.roomId, t.userId),
+}));
+
+export type RoomJoinRequest = typeof roomJoinRequests.$inferSelect;
+
+export type RoomJoinRequestWithUser = RoomJoinRequest & {
+  user: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+  };
+};
+
+// Room join request relations
+export const roomJoinRequestsRelations = relations(roomJoinRequests, ({ one }) => ({
+  room: one(chatRooms, {
+    fields: [roomJoinRequests.roomId],
+    references: [chatRooms.id],
+  }),
+  user: one(users, {
+    fields: [roomJoinRequests.userId],
+    references: [users.id],
+  }),
+  reviewedBy: one(users, {
+    fields: [roomJoinRequests.reviewedById],
+    references: [users.id],
+  }),
+}));
+
+// Users banned from a room can't join or be invited back until unbanned
+export const roomBans = pgTable("room_bans", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  bannedById: integer("banned_by_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => ({
+  uniqueRoomUser: unique().on(t.roomId, t.userId),
+}));
+
+export const insertRoomBanSchema = createInsertSchema(roomBans).pick({
+  roomId: true,
+  userId: true,
+  bannedById: true,
+  reason: true,
+});
+
+export type InsertRoomBan = z.infer<typeof insertRoomBanSchema>;
+export type RoomBan = typeof roomBans.$inferSelect;
+
+export type RoomBanWithUser = RoomBan & {
+  user: {
+    id: number;
+    username: string;
+    profilePicture?: string | null;
+  };
+};
+
+// Room ban relations
+export const roomBansRelations = relations(roomBans, ({ one }) => ({
+  room: one(chatRooms, {
+    fields: [roomBans.roomId],
+    references: [chatRooms.id],
+  }),
+  user: one(users, {
+    fields: [roomBans.userId],
+    references: [users.id],
+  }),
+  bannedBy: one(users, {
+    fields: [roomBans.bannedById],
+    references: [users.id],
+  }),
+}));
+
+// Audit trail of moderation actions taken in a room
+export const roomModerationActions = pgTable("room_moderation_actions", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id, { onDelete: "cascade" }),
+  actorId: integer("actor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // role_changed, kicked, banned, unbanned, message_deleted, ownership_transferred
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRoomModerationActionSchema = createInsertSchema(roomModerationActions).pick({
+  roomId: true,
+  actorId: true,
+  targetUserId: true,
+  action: true,
+  details: true,
+});
+
+export type InsertRoomModerationAction = z.infer<typeof insertRoomModerationActionSchema>;
+export type RoomModerationAction = typeof roomModerationActions.$inferSelect;
+
+export type RoomModerationActionWithUsers = RoomModerationAction & {
+  actor: {
+    id: number;
+    username: string;
+  };
+  targetUser: {
+    id: number;
+    username: string;
+  } | null;
+};
+
+// Room moderation action relations
+export const roomModerationActionsRelations = relations(roomModerationActions, ({ one }) => ({
+  room: one(chatRooms, {
+    fields: [roomModerationActions.roomId],
+    references: [chatRooms.id],
+  }),
+  actor: one(users, {
+    fields: [roomModerationActions.actorId],
+    references: [users.id],
+  }),
+  targetUser: one(users, {
+    fields: [roomModerationActions.targetUserId],
+    references: [users.id],
+  }),
+}));
+
 // Room membership relations
 export const roomMembershipsRelations = relations(roomMemberships, ({ one }) => ({
   room: one(chatRooms, {
@@ -510,3 +1223,34 @@ export const roomRecommendationsRelations = relations(roomRecommendations, ({ on
   }),
 }));
 
+// Unified search results, each list ordered by relevance
+export type SearchResultAuthor = {
+  id: number;
+  username: string;
+  profilePicture?: string | null;
+};
+
+export type SearchResults = {
+  messages: (Pick<Message, 'id' | 'content' | 'roomId' | 'createdAt'> & {
+    roomName: string;
+    user: SearchResultAuthor;
+  })[];
+  posts: (Pick<Post, 'id' | 'content' | 'createdAt'> & {
+    user: SearchResultAuthor;
+  })[];
+  comments: (Pick<Comment, 'id' | 'content' | 'postId' | 'createdAt'> & {
+    user: SearchResultAuthor;
+  })[];
+  rooms: (Pick<ChatRoom, 'id' | 'name' | 'description' | 'isPublic' | 'category' | 'tags'> & {
+    canAccess: boolean;
+  })[];
+};
+
+// Request counters for the Postgres-backed rate limit store, one row per
+// policy and client, reset when the window ends
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull().default(0),
+  // Compared with now() in SQL, so it has to carry its time zone
+  resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+});